@@ -0,0 +1,291 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { isWriterlyFilePath } from "./WriterlyFileExtensions";
+import { isPathUnderDirectory } from "./WriterlyDocumentTrees";
+import { discoverTopmostWriterlyDocumentRoots } from "./WriterlyDocumentTreeDiscovery";
+import {
+  assembleDocumentTree,
+  getAssemblyOrder,
+  isCommentedPath,
+  type AssembledDocument,
+  type AssembledLineSource,
+  type AssemblySource,
+} from "./WriterlyDocumentAssembly";
+import { vscodeFileSystem } from "./utils/vscode-file-system";
+
+const ASSEMBLED_DOCUMENT_SCHEME = "writerly-assembled";
+const SHOW_ASSEMBLED_DOCUMENT_COMMAND = "writerly.showAssembledDocument";
+const OPEN_SOURCE_LINE_COMMAND = "writerly.openAssembledSourceLine";
+const REFRESH_DELAY_MS = 300;
+
+/*
+ * WriterlyAssembledDocumentView shows the Writerly source of a whole document
+ * tree as writerly.gleam assembles it: the uncommented files of the tree in
+ * assembly order, each indented under its `__parent.wly` file. The document
+ * is read-only and virtual; every line maps back to the file and line it
+ * comes from, so go to definition, Enter or a double-click on a line opens
+ * the original. Only a double-click navigates, not other mouse selections,
+ * so the view can still be copied from. The view follows unsaved edits and
+ * files being added or removed.
+ */
+export class WriterlyAssembledDocumentView
+  implements vscode.TextDocumentContentProvider, vscode.DefinitionProvider
+{
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  // keyed by the URI of the assembled document
+  private readonly documents = new Map<string, AssembledDocument>();
+  private readonly pendingRefreshes = new Set<string>();
+  private refreshTimeout: NodeJS.Timeout | undefined;
+
+  constructor(context: vscode.ExtensionContext) {
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*");
+    // a created or deleted directory may hold Writerly files
+    const refresh = (uri: vscode.Uri) => this.scheduleRefresh(uri.fsPath);
+    const refreshWriterly = (uri: vscode.Uri) => {
+      if (isWriterlyFilePath(uri.fsPath)) this.scheduleRefresh(uri.fsPath);
+    };
+
+    context.subscriptions.push(
+      this.onDidChangeEmitter,
+      watcher,
+      vscode.workspace.registerTextDocumentContentProvider(
+        ASSEMBLED_DOCUMENT_SCHEME,
+        this,
+      ),
+      vscode.languages.registerDefinitionProvider(
+        { scheme: ASSEMBLED_DOCUMENT_SCHEME },
+        this,
+      ),
+      vscode.commands.registerCommand(SHOW_ASSEMBLED_DOCUMENT_COMMAND, () =>
+        this.show(),
+      ),
+      vscode.commands.registerCommand(OPEN_SOURCE_LINE_COMMAND, () =>
+        this.openSourceLine(),
+      ),
+      vscode.window.onDidChangeTextEditorSelection((event) =>
+        this.handleSelectionChange(event),
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        refreshWriterly(event.document.uri),
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) => {
+        if (document.uri.scheme === ASSEMBLED_DOCUMENT_SCHEME) {
+          this.documents.delete(document.uri.toString());
+        }
+      }),
+    );
+    watcher.onDidCreate(refresh, undefined, context.subscriptions);
+    watcher.onDidChange(refreshWriterly, undefined, context.subscriptions);
+    watcher.onDidDelete(refresh, undefined, context.subscriptions);
+  }
+
+  public reset(): void {
+    for (const key of this.documents.keys()) {
+      this.onDidChangeEmitter.fire(vscode.Uri.parse(key));
+    }
+  }
+
+  public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const rootDir = uri.query;
+    const order = getAssemblyOrder(
+      rootDir,
+      (await vscodeFileSystem.findWriterlyFiles())
+        .filter(
+          (fsPath) =>
+            isPathUnderDirectory(fsPath, rootDir) && !isCommentedPath(fsPath),
+        )
+        .sort(),
+    );
+    if (order.kind === "wlyDirectory") {
+      this.documents.delete(uri.toString());
+      return `Cannot assemble ${rootDir}: directory name ends in .wly: ${order.dirPath}`;
+    }
+
+    const sources: AssemblySource[] = [];
+    for (const file of order.files) {
+      sources.push({
+        fsPath: file.fsPath,
+        depth: file.depth,
+        text: await this.readText(file.fsPath),
+      });
+    }
+    const assembled = assembleDocumentTree(sources);
+    this.documents.set(uri.toString(), assembled);
+    return assembled.text;
+  }
+
+  public provideDefinition(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+  ): vscode.Location | undefined {
+    const source = this.getLineSource(document.uri, position.line);
+    if (!source) return undefined;
+
+    return new vscode.Location(
+      vscode.Uri.file(source.fsPath),
+      this.toSourcePosition(source, position.character),
+    );
+  }
+
+  private async show(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isWriterlyFilePath(editor.document.uri.fsPath)) {
+      void vscode.window.showInformationMessage(
+        "Open a Writerly file to show its assembled document tree.",
+      );
+      return;
+    }
+
+    const fsPath = editor.document.uri.fsPath;
+    const rootDir = (
+      await discoverTopmostWriterlyDocumentRoots(vscodeFileSystem)
+    ).find((root) => isPathUnderDirectory(fsPath, root));
+    if (!rootDir) {
+      void vscode.window.showInformationMessage(
+        "This file is not part of a Writerly document tree.",
+      );
+      return;
+    }
+    if (isCommentedPath(fsPath)) {
+      void vscode.window.showInformationMessage(
+        "Files under '#' paths are not assembled; showing the rest of the document tree.",
+      );
+    }
+
+    const uri = vscode.Uri.from({
+      scheme: ASSEMBLED_DOCUMENT_SCHEME,
+      // the .wly extension gives the document Writerly highlighting
+      path: `/${path.basename(rootDir)} (assembled).wly`,
+      query: rootDir,
+    });
+    // refresh a document shown before, whose content VS Code has cached
+    if (this.documents.has(uri.toString())) {
+      this.onDidChangeEmitter.fire(uri);
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+    const assembledEditor = await vscode.window.showTextDocument(document, {
+      preview: false,
+      viewColumn: vscode.ViewColumn.Beside,
+    });
+
+    // place the cursor where the line being edited ends up
+    const cursor = editor.selection.active;
+    const line = this.documents
+      .get(uri.toString())
+      ?.lines.findIndex(
+        (source) => source.fsPath === fsPath && source.line === cursor.line,
+      );
+    if (line === undefined || line < 0) return;
+    const position = new vscode.Position(line, 0);
+    assembledEditor.selection = new vscode.Selection(position, position);
+    assembledEditor.revealRange(
+      new vscode.Range(position, position),
+      vscode.TextEditorRevealType.InCenter,
+    );
+  }
+
+  /** Opens the line under the cursor of the assembled document. */
+  private async openSourceLine(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const uri = editor?.document.uri;
+    if (!editor || uri?.scheme !== ASSEMBLED_DOCUMENT_SCHEME) return;
+
+    const cursor = editor.selection.active;
+    const source = this.getLineSource(uri, cursor.line);
+    if (!source) return;
+    await this.openSource(source, cursor.character);
+  }
+
+  /**
+   * A double-click selects the word under the mouse, so a mouse selection
+   * that is exactly the word at its start is taken as one. Drag selections
+   * rarely match a word's bounds and leave the view alone.
+   */
+  private handleSelectionChange(
+    event: vscode.TextEditorSelectionChangeEvent,
+  ): void {
+    const document = event.textEditor.document;
+    if (document.uri.scheme !== ASSEMBLED_DOCUMENT_SCHEME) return;
+    if (event.kind !== vscode.TextEditorSelectionChangeKind.Mouse) return;
+    if (event.selections.length !== 1) return;
+
+    const selection = event.selections[0];
+    if (!selection || selection.isEmpty || !selection.isSingleLine) return;
+    const word = document.getWordRangeAtPosition(selection.start);
+    if (!word || !word.isEqual(selection)) return;
+
+    const source = this.getLineSource(document.uri, selection.start.line);
+    if (!source) return;
+    void this.openSource(source, selection.start.character);
+  }
+
+  private async openSource(
+    source: AssembledLineSource,
+    character: number,
+  ): Promise<void> {
+    const position = this.toSourcePosition(source, character);
+    await vscode.window.showTextDocument(vscode.Uri.file(source.fsPath), {
+      viewColumn: vscode.ViewColumn.One,
+      preview: false,
+      selection: new vscode.Range(position, position),
+    });
+  }
+
+  private getLineSource(
+    uri: vscode.Uri,
+    line: number,
+  ): AssembledLineSource | undefined {
+    return this.documents.get(uri.toString())?.lines[line];
+  }
+
+  private toSourcePosition(
+    source: AssembledLineSource,
+    character: number,
+  ): vscode.Position {
+    return new vscode.Position(
+      source.line,
+      Math.max(0, character - source.indentation),
+    );
+  }
+
+  private async readText(fsPath: string): Promise<string> {
+    const openDocument = vscode.workspace.textDocuments.find(
+      (document) =>
+        document.uri.scheme === "file" && document.uri.fsPath === fsPath,
+    );
+    if (openDocument) return openDocument.getText();
+
+    try {
+      const content = await vscode.workspace.fs.readFile(
+        vscode.Uri.file(fsPath),
+      );
+      return Buffer.from(content).toString("utf8");
+    } catch (error) {
+      console.error(`Failed to read ${fsPath}:`, error);
+      return "";
+    }
+  }
+
+  /**
+   * Refreshes the assembled documents of the tree `fsPath` is in, once
+   * changes pause.
+   */
+  private scheduleRefresh(fsPath: string): void {
+    for (const key of this.documents.keys()) {
+      if (isPathUnderDirectory(fsPath, vscode.Uri.parse(key).query)) {
+        this.pendingRefreshes.add(key);
+      }
+    }
+    if (this.pendingRefreshes.size === 0) return;
+
+    if (this.refreshTimeout) clearTimeout(this.refreshTimeout);
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = undefined;
+      for (const key of this.pendingRefreshes) {
+        this.onDidChangeEmitter.fire(vscode.Uri.parse(key));
+      }
+      this.pendingRefreshes.clear();
+    }, REFRESH_DELAY_MS);
+  }
+}
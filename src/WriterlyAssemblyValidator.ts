@@ -0,0 +1,159 @@
+import { Range, type Diagnostic } from "vscode-languageserver-types";
+import {
+  createWriterlyDiagnostic,
+  getWriterlyDiagnosticCode,
+} from "./WriterlyDiagnostics";
+import {
+  assembleDocumentTree,
+  type AssembledLineSource,
+} from "./WriterlyDocumentAssembly";
+import { Zone } from "./WriterlyDocumentWalker";
+import { WriterlyParser } from "./WriterlyParser";
+import WriterlyStaticValidator from "./WriterlyStaticValidator";
+import {
+  WriterlyTextSnapshot,
+  type WriterlyTextDocument,
+} from "./WriterlyTextDocument";
+
+/** A file of a document tree, in assembly order. */
+export type AssemblyValidationSource = {
+  fsPath: string;
+  depth: number;
+  document: WriterlyTextDocument;
+};
+
+/*
+ * WriterlyAssemblyValidator checks a document tree the way writerly.gleam
+ * sees it: as one document, each file indented under its `__parent.wly`
+ * file. It runs the syntax checks of WriterlyStaticValidator on the assembled
+ * lines and reports, at the original file and line, the errors the files do
+ * not have on their own: content a parent's last lines cannot hold once
+ * indented under them, lines that turn into attributes of a parent's tag,
+ * and code blocks a file leaves open, which run on into the files assembled
+ * after it.
+ */
+export class WriterlyAssemblyValidator {
+  /**
+   * Returns the assembly diagnostics of the files of one document tree, by
+   * file. Files without any are left out.
+   */
+  public static validateDocumentTree(
+    sources: readonly AssemblyValidationSource[],
+  ): Map<string, Diagnostic[]> {
+    const documents = new Map(
+      sources.map((source) => [source.fsPath, source.document]),
+    );
+    const assembled = assembleDocumentTree(
+      sources.map((source) => ({
+        fsPath: source.fsPath,
+        depth: source.depth,
+        text: getText(source.document),
+      })),
+    );
+    const assembledDocument = new WriterlyTextSnapshot(assembled.text);
+    const tree = WriterlyParser.parse(assembledDocument);
+
+    const ownDiagnostics = new Map<string, Set<string>>();
+    const hasOwnDiagnostic = (source: AssembledLineSource, code: string) => {
+      let keys = ownDiagnostics.get(source.fsPath);
+      if (!keys) {
+        keys = new Set(
+          WriterlyStaticValidator.validateDocument(
+            documents.get(source.fsPath)!,
+          ).map(
+            (diagnostic) =>
+              `${getWriterlyDiagnosticCode(diagnostic)}:${diagnostic.range.start.line}`,
+          ),
+        );
+        ownDiagnostics.set(source.fsPath, keys);
+      }
+      return keys.has(`${code}:${source.line}`);
+    };
+
+    const result = new Map<string, Diagnostic[]>();
+    const report = (source: AssembledLineSource, diagnostic: Diagnostic) => {
+      const diagnostics = result.get(source.fsPath) ?? [];
+      diagnostics.push(diagnostic);
+      result.set(source.fsPath, diagnostics);
+    };
+
+    for (const diagnostic of WriterlyStaticValidator.validateDocument(
+      assembledDocument,
+    )) {
+      const code = getWriterlyDiagnosticCode(diagnostic);
+      // reported below, at the opening of the block
+      if (code === "code-block-unclosed" || code === undefined) continue;
+
+      const source = assembled.lines[diagnostic.range.start.line];
+      if (!source || hasOwnDiagnostic(source, code)) continue;
+
+      report(
+        source,
+        createWriterlyDiagnostic(
+          this.toSourceRange(source, diagnostic.range, documents),
+          `${diagnostic.message} in the assembled document tree`,
+          "assembly-structure",
+          { code },
+        ),
+      );
+    }
+
+    if (tree.finalState.zone === Zone.CodeBlock) {
+      const openingLine = tree.finalState.codeBlockStartLineNumber;
+      const source = assembled.lines[openingLine];
+      const laterFiles = new Set(
+        assembled.lines
+          .slice(openingLine)
+          .map((line) => line.fsPath)
+          .filter((fsPath) => fsPath !== source?.fsPath),
+      );
+      if (source && laterFiles.size > 0) {
+        const start = tree.finalState.codeBlockStartIndent;
+        report(
+          source,
+          createWriterlyDiagnostic(
+            this.toSourceRange(
+              source,
+              Range.create(openingLine, start, openingLine, start + 3),
+              documents,
+            ),
+            `Unclosed code block runs on into the ${
+              laterFiles.size === 1 ? "file" : `${laterFiles.size} files`
+            } assembled after this one`,
+            "assembly-structure",
+            { code: "code-block-unclosed" },
+          ),
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Maps a range on one assembled line back to the line of its file. A range
+   * that only covered the indentation the assembly added covers the whole
+   * line instead.
+   */
+  private static toSourceRange(
+    source: AssembledLineSource,
+    range: Range,
+    documents: ReadonlyMap<string, WriterlyTextDocument>,
+  ): Range {
+    const start = Math.max(0, range.start.character - source.indentation);
+    const end = Math.max(0, range.end.character - source.indentation);
+    if (end > start) {
+      return Range.create(source.line, start, source.line, end);
+    }
+    const text = documents.get(source.fsPath)?.lineAt(source.line).text ?? "";
+    return Range.create(source.line, 0, source.line, text.length);
+  }
+}
+
+function getText(document: WriterlyTextDocument): string {
+  const lines: string[] = [];
+  for (let line = 0; line < document.lineCount; line++) {
+    lines.push(document.lineAt(line).text);
+  }
+  return lines.join("\n");
+}
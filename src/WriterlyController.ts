@@ -1,27 +1,36 @@
 import * as vscode from "vscode";
-import { WriterlyLinkProvider } from "./WriterlyLinkProvider";
+import { WriterlyLanguageClient } from "./WriterlyLanguageClient";
 import { WriterlyFileProvider } from "./WriterlyFileProvider";
 import { WriterlyFileOpener } from "./WriterlyFileOpener";
 import { WriterlyHoverProvider } from "./WriterlyHoverProvider";
-import { WriterlyCompletionProvider } from "./WriterlyCompletionProvider";
 import { WriterlyFileRenamer } from "./WriterlyFileRenamer";
 import { WriterlyDocumentTreeInspector } from "./WriterlyDocumentTreeInspector";
+import { WriterlyHandleGraphView } from "./WriterlyHandleGraphView";
+import { WriterlyAssembledDocumentView } from "./WriterlyAssembledDocumentView";
+import { WriterlyDocumentTreeView } from "./WriterlyDocumentTreeView";
 
 export class WriterlyController {
   private providers: any[] = [];
 
   constructor(context: vscode.ExtensionContext) {
-    const linkProvider = new WriterlyLinkProvider(context);
+    const languageClient = new WriterlyLanguageClient(context);
     this.providers = [
       new WriterlyFileOpener(context),
       new WriterlyHoverProvider(context),
       new WriterlyFileProvider(context),
-      new WriterlyCompletionProvider(context),
-      linkProvider,
+      languageClient,
       new WriterlyFileRenamer(context),
       new WriterlyDocumentTreeInspector(
         context,
-        (fsPath) => linkProvider.getDiagnosticStatus(fsPath),
+        (fsPath) => languageClient.getDiagnosticStatus(fsPath),
+      ),
+      new WriterlyHandleGraphView(context, (uri) =>
+        languageClient.getHandleGraph(uri),
+      ),
+      new WriterlyAssembledDocumentView(context),
+      new WriterlyDocumentTreeView(
+        context,
+        (fsPath) => languageClient.getDiagnosticStatus(fsPath),
       ),
     ];
 
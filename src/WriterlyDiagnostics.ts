@@ -0,0 +1,293 @@
+import {
+  Diagnostic,
+  DiagnosticSeverity,
+  type Range,
+} from "vscode-languageserver-types";
+
+/*
+ * Every Writerly diagnostic carries one of the stable codes below. Codes are
+ * what users configure severities by (`writerly.diagnostics.severity`,
+ * `writerly-check --severity`) and what code actions key off, so they must
+ * not change once released; messages may.
+ */
+
+export const WRITERLY_DIAGNOSTIC_SOURCE = "writerly";
+
+export type WriterlyDiagnosticCategory =
+  | "syntax"
+  | "handles"
+  | "files"
+  | "schema";
+
+type DiagnosticCodeInfo = {
+  category: WriterlyDiagnosticCategory;
+  severity: DiagnosticSeverity;
+  description: string;
+};
+
+export const WRITERLY_DIAGNOSTIC_CODES = {
+  "indent-too-large": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A line is indented deeper than its parent allows.",
+  },
+  "indent-too-low": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A line is indented less than the enclosing code block.",
+  },
+  "indent-not-multiple-of-4": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A line's indentation is not a multiple of 4 spaces.",
+  },
+  "tabs-in-indent": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A text line starts with tab characters.",
+  },
+  "tag-empty": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A tag line has no tag name.",
+  },
+  "tag-invalid-name": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A tag name contains characters tags may not use.",
+  },
+  "attribute-invalid-key": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "An attribute key contains characters keys may not use.",
+  },
+  "attribute-duplicate-key": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A tag has several attributes with the same key.",
+  },
+  "attribute-parsed-as-text": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Warning,
+    description:
+      "A line directly under a tag looks like an attribute but is parsed as text.",
+  },
+  "code-block-nested-opening": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A code block opening fence appears inside a code block.",
+  },
+  "code-block-unclosed": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A code block is never closed.",
+  },
+  "code-block-info-spaces": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description: "A code block info annotation contains spaces.",
+  },
+  "assembly-structure": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Error,
+    description:
+      "A line that is valid in its own file breaks the syntax of the assembled document tree.",
+  },
+  "handle-invalid-name": {
+    category: "handles",
+    severity: DiagnosticSeverity.Error,
+    description: "A handle name contains characters handles may not use.",
+  },
+  "handle-undefined": {
+    category: "handles",
+    severity: DiagnosticSeverity.Error,
+    description: "A handle usage has no definition in its document tree.",
+  },
+  "handle-inaccessible": {
+    category: "handles",
+    severity: DiagnosticSeverity.Error,
+    description:
+      "A handle is defined only in commented-out fragments the usage cannot see.",
+  },
+  "handle-ambiguous": {
+    category: "handles",
+    severity: DiagnosticSeverity.Error,
+    description: "A handle usage matches several definitions.",
+  },
+  "handle-duplicate-definition": {
+    category: "handles",
+    severity: DiagnosticSeverity.Error,
+    description: "A handle is defined more than once in one document tree.",
+  },
+  "handle-unused": {
+    category: "handles",
+    severity: DiagnosticSeverity.Warning,
+    description: "A handle is defined but never used in its document tree.",
+  },
+  "handle-unknown-decorator": {
+    category: "handles",
+    severity: DiagnosticSeverity.Warning,
+    description:
+      "An in-text handle definition carries a decorator that `writerly.allowedHandleDecorators` does not list.",
+  },
+  "file-not-found": {
+    category: "files",
+    severity: DiagnosticSeverity.Warning,
+    description: "A path-bearing attribute names a file that does not exist.",
+  },
+  "file-outside-closer-directory": {
+    category: "files",
+    severity: DiagnosticSeverity.Warning,
+    description:
+      "A file reference resolves into another document tree although a closer directory of the same name exists.",
+  },
+  "schema-invalid": {
+    category: "schema",
+    severity: DiagnosticSeverity.Error,
+    description: "A writerly.schema.json file cannot be read as a tag schema.",
+  },
+  "schema-unknown-tag": {
+    category: "schema",
+    severity: DiagnosticSeverity.Error,
+    description: "A tag is not declared in the tag schema.",
+  },
+  "schema-invalid-child": {
+    category: "schema",
+    severity: DiagnosticSeverity.Error,
+    description: "A tag appears where the tag schema does not allow it.",
+  },
+  "schema-missing-attribute": {
+    category: "schema",
+    severity: DiagnosticSeverity.Error,
+    description: "A tag lacks an attribute the tag schema requires.",
+  },
+  "schema-unknown-attribute": {
+    category: "schema",
+    severity: DiagnosticSeverity.Warning,
+    description: "A tag has an attribute the tag schema does not declare.",
+  },
+  "schema-invalid-attribute-value": {
+    category: "schema",
+    severity: DiagnosticSeverity.Error,
+    description: "An attribute value does not have the type the tag schema declares.",
+  },
+  "schema-handle-name": {
+    category: "schema",
+    severity: DiagnosticSeverity.Warning,
+    description: "A handle name does not follow the naming rules of the schema.",
+  },
+  "directive-unused": {
+    category: "syntax",
+    severity: DiagnosticSeverity.Warning,
+    description:
+      "A writerly-disable directive suppresses nothing or names an unknown code.",
+  },
+} satisfies Record<string, DiagnosticCodeInfo>;
+
+export type WriterlyDiagnosticCode = keyof typeof WRITERLY_DIAGNOSTIC_CODES;
+
+export type WriterlyDiagnosticSeverityLevel =
+  | "error"
+  | "warning"
+  | "info"
+  | "off";
+
+export type WriterlyDiagnosticSeverities = Partial<
+  Record<WriterlyDiagnosticCode, WriterlyDiagnosticSeverityLevel>
+>;
+
+export const WRITERLY_DIAGNOSTIC_SEVERITY_LEVELS: readonly WriterlyDiagnosticSeverityLevel[] =
+  ["error", "warning", "info", "off"];
+
+const SEVERITIES_BY_LEVEL: Record<
+  Exclude<WriterlyDiagnosticSeverityLevel, "off">,
+  DiagnosticSeverity
+> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+};
+
+export function isWriterlyDiagnosticCode(
+  value: unknown,
+): value is WriterlyDiagnosticCode {
+  return (
+    typeof value === "string" &&
+    Object.prototype.hasOwnProperty.call(WRITERLY_DIAGNOSTIC_CODES, value)
+  );
+}
+
+export function getWriterlyDiagnosticCode(
+  diagnostic: Diagnostic,
+): WriterlyDiagnosticCode | undefined {
+  return isWriterlyDiagnosticCode(diagnostic.code) ? diagnostic.code : undefined;
+}
+
+export function getDiagnosticCategory(
+  code: WriterlyDiagnosticCode,
+): WriterlyDiagnosticCategory {
+  return WRITERLY_DIAGNOSTIC_CODES[code].category;
+}
+
+/**
+ * Creates a diagnostic with the default severity of its code. `data` travels
+ * with the diagnostic to code action requests.
+ */
+export function createWriterlyDiagnostic(
+  range: Range,
+  message: string,
+  code: WriterlyDiagnosticCode,
+  data?: unknown,
+): Diagnostic {
+  const diagnostic = Diagnostic.create(
+    range,
+    message,
+    WRITERLY_DIAGNOSTIC_CODES[code].severity,
+    code,
+    WRITERLY_DIAGNOSTIC_SOURCE,
+  );
+  if (data !== undefined) diagnostic.data = data;
+  return diagnostic;
+}
+
+/**
+ * Keeps only the valid entries of a user-supplied code-to-level map.
+ */
+export function toDiagnosticSeverities(
+  value: unknown,
+): WriterlyDiagnosticSeverities {
+  const severities: WriterlyDiagnosticSeverities = {};
+  if (!value || typeof value !== "object") return severities;
+
+  for (const [code, level] of Object.entries(value)) {
+    if (
+      isWriterlyDiagnosticCode(code) &&
+      WRITERLY_DIAGNOSTIC_SEVERITY_LEVELS.includes(level)
+    ) {
+      severities[code] = level;
+    }
+  }
+  return severities;
+}
+
+/**
+ * Applies configured severities: diagnostics whose code is set to "off" are
+ * dropped, the others get the configured severity. Diagnostics without a
+ * configured code are returned unchanged.
+ */
+export function applyDiagnosticSeverities(
+  diagnostics: Diagnostic[],
+  severities: WriterlyDiagnosticSeverities,
+): Diagnostic[] {
+  const result: Diagnostic[] = [];
+  for (const diagnostic of diagnostics) {
+    const code = getWriterlyDiagnosticCode(diagnostic);
+    const level = code ? severities[code] : undefined;
+    if (level === undefined) {
+      result.push(diagnostic);
+    } else if (level !== "off") {
+      result.push({ ...diagnostic, severity: SEVERITIES_BY_LEVEL[level] });
+    }
+  }
+  return result;
+}
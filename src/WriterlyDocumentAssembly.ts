@@ -0,0 +1,324 @@
+import * as path from "path";
+
+export const ASSEMBLY_INDENT_WIDTH = 4;
+
+const PARENT_FILE_SUFFIX = "__parent.wly";
+
+/*
+ * The order and depth in which writerly.gleam assembles the files of a
+ * document tree into one document, shared by the document tree inspector,
+ * which lists the files, and the assembled document view, which shows their
+ * contents. Paths are kept as fsPaths; neither vscode nor the file system is
+ * touched here.
+ *
+ * Analogues of writerly.gleam PART 1:
+ *
+ * get_dirname_and_relative_paths_of_uncommented_wly_in_dir
+ *   -> left to the caller, which passes the files to assemble. The inspector
+ *      may keep # paths for display.
+ *
+ * dt.from_terminals(dirname, paths)
+ *   -> represented here by fromTerminals.
+ *
+ * dt.sort(fn(t1, t2) { compare(drop_suffix(t1.name), drop_suffix(t2.name)) })
+ *   -> represented here by sortDirTreeEntriesLikeGleam. A total ordering is
+ *      added for # entries so inactive paths are shown near the active entry
+ *      they would shadow or complement.
+ *
+ * input_lines_for_dirtree_at_depth(dirname, "", tree, 0)
+ *   -> represented here by inputLinesForDirtreeAtDepth, which emits the file
+ *      and its depth instead of reading file contents into InputLine;
+ *      assembleDocumentTree does the reading part for contents the caller
+ *      has read.
+ */
+
+/** A file in assembly order; its lines are indented `depth` levels. */
+export type AssemblyFile = {
+  fsPath: string;
+  fileName: string;
+  /** The directory of the file relative to the root, with `/` separators. */
+  dirPath: string;
+  depth: number;
+};
+
+export type AssemblyOrder =
+  | { kind: "ok"; files: AssemblyFile[] }
+  /** writerly.gleam refuses a directory whose name ends in .wly. */
+  | { kind: "wlyDirectory"; dirPath: string };
+
+export type AssemblySource = {
+  fsPath: string;
+  depth: number;
+  text: string;
+};
+
+/** Where a line of an assembled document comes from. */
+export type AssembledLineSource = {
+  fsPath: string;
+  line: number;
+  /** The spaces the assembly added in front of the line. */
+  indentation: number;
+};
+
+export type AssembledDocument = {
+  text: string;
+  /** The source of every line of `text`, by line number. */
+  lines: AssembledLineSource[];
+};
+
+type DirectoryNode = {
+  name: string;
+  files: { name: string; fsPath: string }[];
+  directories: Map<string, DirectoryNode>;
+};
+
+type DirTreeEntry = {
+  name: string;
+  fsPath?: string;
+  directory?: DirectoryNode;
+};
+
+/**
+ * Returns the files under `rootDir` in the order writerly.gleam assembles
+ * them, with the depth their contents are indented to.
+ */
+export function getAssemblyOrder(
+  rootDir: string,
+  fsPaths: readonly string[],
+): AssemblyOrder {
+  const tree = fromTerminals(
+    fsPaths.map((fsPath) => ({
+      fsPath,
+      relativePath: path.relative(rootDir, fsPath),
+    })),
+  );
+  const dirNameEndingInWriterly = findDirNameEndingInWriterly(tree);
+  if (dirNameEndingInWriterly) {
+    return { kind: "wlyDirectory", dirPath: dirNameEndingInWriterly };
+  }
+  return { kind: "ok", files: inputLinesForDirtreeAtDepth("", tree, 0) };
+}
+
+/**
+ * Concatenates the contents of files in assembly order, indenting every
+ * non-blank line by the depth of its file, and records where each line of
+ * the result comes from.
+ */
+export function assembleDocumentTree(
+  sources: readonly AssemblySource[],
+): AssembledDocument {
+  const text: string[] = [];
+  const lines: AssembledLineSource[] = [];
+  for (const source of sources) {
+    const indentation = ASSEMBLY_INDENT_WIDTH * source.depth;
+    const sourceLines = source.text.split(/\r?\n/);
+    // a final line break does not start another line of the file
+    if (sourceLines.length > 1 && sourceLines[sourceLines.length - 1] === "") {
+      sourceLines.pop();
+    }
+
+    sourceLines.forEach((line, index) => {
+      const blank = line.trim() === "";
+      text.push(blank ? "" : `${" ".repeat(indentation)}${line}`);
+      lines.push({
+        fsPath: source.fsPath,
+        line: index,
+        indentation: blank ? 0 : indentation,
+      });
+    });
+  }
+  return { text: text.join("\n"), lines };
+}
+
+export function isCommentedPath(fsPath: string): boolean {
+  return fsPath.split(path.sep).some((part) => part.startsWith("#"));
+}
+
+function fromTerminals(
+  terminals: readonly { fsPath: string; relativePath: string }[],
+): DirectoryNode {
+  const root: DirectoryNode = {
+    name: "",
+    files: [],
+    directories: new Map(),
+  };
+
+  for (const terminal of terminals) {
+    const parts = terminal.relativePath
+      .split(path.sep)
+      .filter((part) => part.length > 0);
+    let current = root;
+
+    for (let index = 0; index < parts.length; index++) {
+      const name = parts[index];
+      const isFile = index === parts.length - 1;
+      if (isFile) {
+        current.files.push({ name, fsPath: terminal.fsPath });
+        break;
+      }
+
+      let child = current.directories.get(name);
+
+      if (!child) {
+        child = {
+          name,
+          files: [],
+          directories: new Map(),
+        };
+        current.directories.set(name, child);
+      }
+
+      current = child;
+    }
+  }
+
+  return root;
+}
+
+/*
+ * Mirrors writerly.gleam's input_lines_for_dirtree_at_depth. The Gleam
+ * function reads each emitted file into InputLine values; this version emits
+ * the files with their depth.
+ */
+function inputLinesForDirtreeAtDepth(
+  acc: string,
+  directory: DirectoryNode,
+  depth: number,
+): AssemblyFile[] {
+  const entries = sortDirTreeEntriesLikeGleam(getDirTreeEntries(directory));
+  const parentPrefixes = directory.files
+    .map((file) => getParentPrefix(file.name))
+    .filter((prefix): prefix is string => prefix !== undefined);
+  const files: AssemblyFile[] = [];
+
+  for (const entry of entries) {
+    const entryDepth =
+      depth +
+      parentPrefixes.filter((prefix) => addedDepthApplies(prefix, entry.name))
+        .length;
+
+    if (entry.directory) {
+      files.push(
+        ...inputLinesForDirtreeAtDepth(
+          dirAndFilenameToPath(acc, entry.name),
+          entry.directory,
+          entryDepth,
+        ),
+      );
+    } else if (entry.fsPath) {
+      files.push({
+        fsPath: entry.fsPath,
+        fileName: entry.name,
+        dirPath: acc,
+        depth: entryDepth,
+      });
+    }
+  }
+
+  return files;
+}
+
+function findDirNameEndingInWriterly(
+  directory: DirectoryNode,
+  prefix = "",
+): string | undefined {
+  for (const child of directory.directories.values()) {
+    const childPath = prefix ? `${prefix}/${child.name}` : child.name;
+    if (child.name.endsWith(".wly")) {
+      return childPath;
+    }
+    const nested = findDirNameEndingInWriterly(child, childPath);
+    if (nested) return nested;
+  }
+  return undefined;
+}
+
+function getDirTreeEntries(directory: DirectoryNode): DirTreeEntry[] {
+  return [
+    ...directory.files.map((file) => ({
+      name: file.name,
+      fsPath: file.fsPath,
+    })),
+    ...[...directory.directories.values()].map((childDirectory) => ({
+      name: childDirectory.name,
+      directory: childDirectory,
+    })),
+  ];
+}
+
+function sortDirTreeEntriesLikeGleam(
+  entries: readonly DirTreeEntry[],
+): DirTreeEntry[] {
+  return [...entries].sort((a, b) => {
+    const aOrder = getDirTreeSortKey(a.name);
+    const bOrder = getDirTreeSortKey(b.name);
+    return (
+      aOrder.anchor.localeCompare(bOrder.anchor) ||
+      aOrder.rank - bOrder.rank ||
+      aOrder.name.localeCompare(bOrder.name)
+    );
+  });
+}
+
+function getDirTreeSortKey(fileNameOrDirName: string): {
+  anchor: string;
+  rank: number;
+  name: string;
+} {
+  if (fileNameOrDirName.startsWith("#")) {
+    const uncommentedName = fileNameOrDirName.slice(1);
+    return {
+      anchor: dropParentSuffix(uncommentedName),
+      rank: fileNameOrDirName.endsWith(PARENT_FILE_SUFFIX) ? -1 : 0,
+      name: fileNameOrDirName,
+    };
+  }
+
+  return {
+    anchor: dropParentSuffix(fileNameOrDirName),
+    rank: 1,
+    name: fileNameOrDirName,
+  };
+}
+
+function dropParentSuffix(name: string): string {
+  return name.endsWith(PARENT_FILE_SUFFIX)
+    ? name.slice(0, -PARENT_FILE_SUFFIX.length)
+    : name;
+}
+
+function getParentPrefix(fileName: string): string | undefined {
+  if (fileName.startsWith("#")) return undefined;
+  if (!fileName.endsWith(PARENT_FILE_SUFFIX)) return undefined;
+  return fileName.slice(0, -PARENT_FILE_SUFFIX.length);
+}
+
+function addedDepthApplies(activePrefix: string, entryName: string): boolean {
+  const inertParentPrefix = getInertParentFilePrefix(entryName);
+  if (inertParentPrefix !== undefined) {
+    return (
+      activePrefix.length < inertParentPrefix.length &&
+      inertParentPrefix.startsWith(activePrefix)
+    );
+  }
+
+  const effectiveName = entryName.startsWith("#")
+    ? entryName.slice(1)
+    : entryName;
+
+  return (
+    effectiveName.startsWith(activePrefix) &&
+    entryName !== `${activePrefix}${PARENT_FILE_SUFFIX}`
+  );
+}
+
+function dirAndFilenameToPath(dir: string, fileName: string): string {
+  return dir ? `${dir}/${fileName}` : fileName;
+}
+
+function getInertParentFilePrefix(fileName: string): string | undefined {
+  if (!fileName.startsWith("#") || !fileName.endsWith(PARENT_FILE_SUFFIX)) {
+    return undefined;
+  }
+  return fileName.slice(1, -PARENT_FILE_SUFFIX.length);
+}
@@ -0,0 +1,143 @@
+import * as path from "path";
+
+/*
+ * Reordering of the entries of one directory of a document tree. writerly.gleam
+ * assembles the entries of a directory sorted by name, so their order is
+ * carried by a number at the start of each name, like `02-` in
+ * `02-intro.wly`. Moving an entry means giving the entries between its old and
+ * new position the numbers of their neighbours. Entries that share a number,
+ * like `03-setup__parent.wly` and the `03-setup-*.wly` files nested under it,
+ * move together, and `#` entries keep the number of the entry they stand
+ * beside. Paths only; the file system is left to the caller.
+ */
+
+/** A reference path to a renamed file and what it becomes. */
+export type RenamedReferencePath = {
+  oldPath: string;
+  newPath: string;
+};
+
+/** The new name of an entry of the directory. */
+export type ReorderingRename = {
+  from: string;
+  to: string;
+};
+
+export type ReorderingPlan =
+  | { kind: "ok"; renames: ReorderingRename[] }
+  /** The entry or the one it is dropped on has no number to reorder by. */
+  | { kind: "unnumbered"; name: string }
+  /** The entry already has the position it is dropped on. */
+  | { kind: "unchanged" };
+
+type NumberedName = {
+  commentPrefix: string;
+  number: string;
+  rest: string;
+};
+
+const NUMBERED_NAME = /^(#?)(\d+)(?=\D)(.*)$/s;
+
+/**
+ * Returns the renames that move the entry `movedName` of a directory to the
+ * position of the entry `targetName`: after it when moving down, before it
+ * when moving up. `entryNames` are the names of all entries of the directory.
+ */
+export function planReordering(
+  entryNames: readonly string[],
+  movedName: string,
+  targetName: string,
+): ReorderingPlan {
+  const moved = parseNumberedName(movedName);
+  if (!moved) return { kind: "unnumbered", name: movedName };
+  const target = parseNumberedName(targetName);
+  if (!target) return { kind: "unnumbered", name: targetName };
+  if (moved.number === target.number) return { kind: "unchanged" };
+
+  // the numbers in assembly order, which compares names as strings
+  const numbers = [
+    ...new Set(
+      entryNames
+        .map((name) => parseNumberedName(name)?.number)
+        .filter((number): number is string => number !== undefined),
+    ),
+  ].sort((a, b) => a.localeCompare(b));
+
+  const order = numbers.filter((number) => number !== moved.number);
+  const movedIndex = numbers.indexOf(moved.number);
+  const targetIndex = order.indexOf(target.number);
+  order.splice(
+    movedIndex <= targetIndex ? targetIndex + 1 : targetIndex,
+    0,
+    moved.number,
+  );
+  const newNumbers = new Map(
+    order.map((number, index) => [number, numbers[index]]),
+  );
+
+  const renames: ReorderingRename[] = [];
+  for (const name of entryNames) {
+    const numbered = parseNumberedName(name);
+    if (!numbered) continue;
+    const newNumber = newNumbers.get(numbered.number);
+    if (newNumber === undefined || newNumber === numbered.number) continue;
+    renames.push({
+      from: name,
+      to: `${numbered.commentPrefix}${newNumber}${numbered.rest}`,
+    });
+  }
+  return { kind: "ok", renames };
+}
+
+/**
+ * Returns the names of the entries of `dirPath` that writerly.gleam
+ * assembles: its Writerly files and the directories holding Writerly files,
+ * `#` ones included, given the Writerly files of the workspace.
+ */
+export function getDirectoryEntryNames(
+  dirPath: string,
+  writerlyFsPaths: readonly string[],
+): string[] {
+  const names = new Set<string>();
+  for (const fsPath of writerlyFsPaths) {
+    const relativePath = path.relative(dirPath, fsPath);
+    if (
+      relativePath.startsWith(`..${path.sep}`) ||
+      path.isAbsolute(relativePath)
+    ) {
+      continue;
+    }
+    names.add(relativePath.split(path.sep)[0]);
+  }
+  return [...names].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Returns the reference paths that name a file once a part of its path is
+ * renamed. References name a file by any trailing part of its path, so each
+ * trailing part that holds the renamed name changes. `parts` are the segments
+ * of the path of the file relative to its workspace folder, and
+ * `renamedIndex` is the segment that gets `newName`.
+ */
+export function getRenamedReferencePaths(
+  parts: readonly string[],
+  renamedIndex: number,
+  newName: string,
+): RenamedReferencePath[] {
+  const newParts = [...parts];
+  newParts[renamedIndex] = newName;
+  const paths: RenamedReferencePath[] = [];
+  for (let start = 0; start <= renamedIndex; start++) {
+    paths.push({
+      oldPath: parts.slice(start).join("/"),
+      newPath: newParts.slice(start).join("/"),
+    });
+  }
+  return paths;
+}
+
+function parseNumberedName(name: string): NumberedName | undefined {
+  const match = NUMBERED_NAME.exec(name);
+  if (!match) return undefined;
+  return { commentPrefix: match[1], number: match[2], rest: match[3] };
+}
@@ -0,0 +1,76 @@
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver-types";
+import {
+  WriterlyParser,
+  type WriterlyNode,
+  type WriterlySyntaxTree,
+  type WriterlyTagNode,
+} from "./WriterlyParser";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
+
+const CODE_FENCE = "```";
+
+/*
+ * WriterlyDocumentSymbols builds the outline of a document from its syntax
+ * tree, for the Outline view, breadcrumbs and sticky scroll: one symbol per
+ * tag, nested as the tags are, and a leaf symbol per fenced code block. A tag
+ * is labelled with its name and its `title=` value, or its `handle=` value
+ * when it has no title:
+ *
+ *   Chapter: Getting started
+ *     Figure (fig-setup)
+ *     ```sh
+ */
+export class WriterlyDocumentSymbols {
+  public static getDocumentSymbols(
+    document: WriterlyTextDocument,
+  ): DocumentSymbol[] {
+    const tree = WriterlyParser.parse(document);
+    return this.getSymbols(tree, tree.root.children);
+  }
+
+  private static getSymbols(
+    tree: WriterlySyntaxTree,
+    nodes: readonly WriterlyNode[],
+  ): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    for (const node of nodes) {
+      if (node.kind === "tag") {
+        symbols.push(this.createTagSymbol(tree, node));
+      } else if (node.kind === "codeBlock") {
+        symbols.push(
+          DocumentSymbol.create(
+            `${CODE_FENCE}${node.info}`,
+            undefined,
+            SymbolKind.String,
+            node.range,
+            node.openingRange,
+          ),
+        );
+      }
+    }
+    return symbols;
+  }
+
+  private static createTagSymbol(
+    tree: WriterlySyntaxTree,
+    tag: WriterlyTagNode,
+  ): DocumentSymbol {
+    const title = tree.getAttribute(tag, "title")?.value.trim();
+    const handle = tree.getAttribute(tag, "handle")?.value.trim();
+    const name = title
+      ? `${tag.name}: ${title}`
+      : handle
+        ? `${tag.name} (${handle})`
+        : tag.name;
+
+    return DocumentSymbol.create(
+      // the name of a `|>` line with nothing after it is empty
+      name || "|>",
+      title && handle ? `handle=${handle}` : undefined,
+      SymbolKind.Class,
+      tag.range,
+      tag.nameRange,
+      this.getSymbols(tree, tag.children),
+    );
+  }
+}
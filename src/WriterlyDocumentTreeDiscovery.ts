@@ -0,0 +1,33 @@
+import {
+  getNearestContainer,
+  getTopmostWriterlyDocumentRoots,
+  getWriterlyContainers,
+} from "./WriterlyDocumentTrees";
+import type { WriterlyFileSystem } from "./WriterlyFileSystem";
+
+// File-system-backed discovery of the Writerly containers the rules in
+// WriterlyDocumentTrees operate on.
+export async function discoverWriterlyContainers(
+  fileSystem: WriterlyFileSystem,
+  maxFiles?: number,
+): Promise<string[]> {
+  return getWriterlyContainers(await fileSystem.findWriterlyFiles(maxFiles));
+}
+
+export async function discoverTopmostWriterlyDocumentRoots(
+  fileSystem: WriterlyFileSystem,
+): Promise<string[]> {
+  return getTopmostWriterlyDocumentRoots(
+    await discoverWriterlyContainers(fileSystem),
+  );
+}
+
+export async function getNearestWriterlyContainer(
+  fileSystem: WriterlyFileSystem,
+  fsPath: string,
+): Promise<string | undefined> {
+  return getNearestContainer(
+    fsPath,
+    await discoverWriterlyContainers(fileSystem),
+  );
+}
@@ -4,11 +4,15 @@ import {
   getWriterlyFileGlob,
   isWriterlyFilePath,
 } from "./WriterlyFileExtensions";
+import { isPathUnderDirectory } from "./WriterlyDocumentTrees";
+import { discoverWriterlyContainers } from "./WriterlyDocumentTreeDiscovery";
 import {
-  discoverWriterlyContainers,
-  isPathUnderDirectory,
-} from "./WriterlyDocumentTrees";
-import type { WriterlyDiagnosticStatus } from "./WriterlyLinkProvider";
+  ASSEMBLY_INDENT_WIDTH,
+  getAssemblyOrder,
+  isCommentedPath,
+} from "./WriterlyDocumentAssembly";
+import { vscodeFileSystem } from "./utils/vscode-file-system";
+import type { WriterlyDiagnosticStatus } from "./WriterlyLanguageClient";
 
 const DOCUMENT_TREE_SCHEME = "writerly-document-tree";
 const TOGGLE_TREE_INSPECTOR_COMMAND = "writerly.toggleDocumentTreeInspector";
@@ -27,7 +31,6 @@ const FOCUS_TREE_FILE_COMMAND = "writerly.focusDocumentTreeFile";
 const FOCUS_TREE_FILE_AND_CLOSE_COMMAND =
   "writerly.focusDocumentTreeFileAndClose";
 const PARENT_FILE_SUFFIX = "__parent.wly";
-const ASSEMBLY_INDENT_WIDTH = 4;
 const SHOW_HASH_FILES_LABEL = "Show '#'-files";
 const HIDE_HASH_FILES_LABEL = "Hide '#' files";
 const DECORATION_REFRESH_MAX_ATTEMPTS = 20;
@@ -41,35 +44,6 @@ type RootDisplay = {
   rootDir: string;
 };
 
-type RelativeWriterlyPath = {
-  uri: vscode.Uri;
-  relativePath: string;
-};
-
-type DirectoryFile = {
-  name: string;
-  uri: vscode.Uri;
-};
-
-type DirectoryNode = {
-  name: string;
-  files: DirectoryFile[];
-  directories: Map<string, DirectoryNode>;
-};
-
-type DisplayEntry = {
-  name: string;
-  file?: DirectoryFile;
-  directory?: DirectoryNode;
-};
-
-type DisplayFile = {
-  uri: vscode.Uri;
-  fileName: string;
-  dirPath: string;
-  indentation: number;
-};
-
 type LinkTarget = {
   line: number;
   startCharacter: number;
@@ -349,14 +323,14 @@ export class WriterlyDocumentTreeInspector
       return;
     }
 
-    const containers = await discoverWriterlyContainers();
+    const containers = await discoverWriterlyContainers(vscodeFileSystem);
     const rootDir = this.getDocumentTreeRoot(
       editor.document.uri.fsPath,
       containers,
     );
     const existingSession = this.findSessionForRoot(rootDir);
     if (existingSession) {
-      if (this.isCommentedPath(editor.document.uri.fsPath)) {
+      if (isCommentedPath(editor.document.uri.fsPath)) {
         existingSession.viewMode = "all";
       }
       await this.showExistingInspector(existingSession, editor);
@@ -372,7 +346,7 @@ export class WriterlyDocumentTreeInspector
       anchorFsPath: editor.document.uri.fsPath,
       currentOpenFsPath: editor.document.uri.fsPath,
       rootDir,
-      viewMode: this.isCommentedPath(editor.document.uri.fsPath)
+      viewMode: isCommentedPath(editor.document.uri.fsPath)
         ? "all"
         : "active",
       originViewColumn: editor.viewColumn,
@@ -407,7 +381,7 @@ export class WriterlyDocumentTreeInspector
       return;
     }
 
-    const containers = await discoverWriterlyContainers();
+    const containers = await discoverWriterlyContainers(vscodeFileSystem);
     const rootDir = this.getDocumentTreeRoot(
       editor.document.uri.fsPath,
       containers,
@@ -418,7 +392,7 @@ export class WriterlyDocumentTreeInspector
       return;
     }
 
-    if (this.isCommentedPath(editor.document.uri.fsPath)) {
+    if (isCommentedPath(editor.document.uri.fsPath)) {
       existingSession.viewMode = "all";
     }
     await this.showExistingInspector(existingSession, editor);
@@ -1278,7 +1252,7 @@ export class WriterlyDocumentTreeInspector
       };
     }
 
-    const containers = await discoverWriterlyContainers();
+    const containers = await discoverWriterlyContainers(vscodeFileSystem);
     const rootStatus = await this.getRootDirectoryStatus(rootDir, containers);
     if (rootStatus === "missing") {
       return {
@@ -1380,7 +1354,7 @@ export class WriterlyDocumentTreeInspector
     const errorFilenameRanges: DiagnosticFilenameRange[] = [];
     let currentLine: number | undefined;
     const hashFileCount = files.filter((uri) =>
-      this.isCommentedPath(uri.fsPath),
+      isCommentedPath(uri.fsPath),
     ).length;
 
     const assemblyDirectory = root?.rootDir ?? path.dirname(currentFsPath);
@@ -1441,7 +1415,7 @@ export class WriterlyDocumentTreeInspector
         const line = lines.length;
         const fileName = path.basename(uri.fsPath);
         if (uri.fsPath === currentFsPath) currentLine = line;
-        if (this.isCommentedPath(uri.fsPath)) mutedLines.push(line);
+        if (isCommentedPath(uri.fsPath)) mutedLines.push(line);
         this.addDiagnosticFilenameRange(
           uri.fsPath,
           line,
@@ -1464,27 +1438,24 @@ export class WriterlyDocumentTreeInspector
       return currentLine;
     }
 
-    const tree = this.fromTerminals(
-      this.getDirnameAndRelativePathsForInspector(
-        files,
-        root.rootDir,
-        viewMode,
-      ),
+    const order = getAssemblyOrder(
+      root.rootDir,
+      files
+        .filter((uri) => viewMode === "all" || !isCommentedPath(uri.fsPath))
+        .map((uri) => uri.fsPath),
     );
-    const dirNameEndingInWriterly = this.findDirNameEndingInWriterly(tree);
-    if (dirNameEndingInWriterly) {
-      lines.push(
-        `Error: directory name ends in .wly: ${dirNameEndingInWriterly}`,
-      );
+    if (order.kind === "wlyDirectory") {
+      lines.push(`Error: directory name ends in .wly: ${order.dirPath}`);
       return undefined;
     }
 
-    const displayFiles = this.inputLinesForDirtreeDisplayAtDepth(
-      root.rootDir,
-      "",
-      tree,
-      0,
-    );
+    const urisByFsPath = new Map(files.map((uri) => [uri.fsPath, uri]));
+    const displayFiles = order.files.map((file) => ({
+      uri: urisByFsPath.get(file.fsPath)!,
+      fileName: file.fileName,
+      dirPath: file.dirPath,
+      indentation: ASSEMBLY_INDENT_WIDTH * file.depth,
+    }));
     const fileColumnWidth = Math.max(
       ...displayFiles.map(
         (file) => file.indentation + file.fileName.length,
@@ -1498,7 +1469,7 @@ export class WriterlyDocumentTreeInspector
       const dirColumn =
         file.dirPath.length > 0 ? file.dirPath : "";
       if (file.uri.fsPath === currentFsPath) currentLine = line;
-      if (this.isCommentedPath(file.uri.fsPath)) mutedLines.push(line);
+      if (isCommentedPath(file.uri.fsPath)) mutedLines.push(line);
       this.addDiagnosticFilenameRange(
         file.uri.fsPath,
         line,
@@ -1522,81 +1493,8 @@ export class WriterlyDocumentTreeInspector
     return currentLine;
   }
 
-  /*
-   * Inspector analogue of writerly.gleam PART 1:
-   *
-   * get_dirname_and_relative_paths_of_uncommented_wly_in_dir
-   *   -> represented here by getDirnameAndRelativePathsForInspector. The
-   *      inspector can use a broader policy that retains # paths for display.
-   *
-   * dt.from_terminals(dirname, paths)
-   *   -> represented here by fromTerminals.
-   *
-   * dt.sort(fn(t1, t2) { compare(drop_suffix(t1.name), drop_suffix(t2.name)) })
-   *   -> represented here by sortDirTreeEntriesLikeGleam. The inspector adds a
-   *      total ordering for # entries so inactive paths are shown near the
-   *      active entry they would shadow or complement.
-   *
-   * input_lines_for_dirtree_at_depth(dirname, "", tree, 0)
-   *   -> represented here by inputLinesForDirtreeDisplayAtDepth. The inspector
-   *      emits display rows instead of reading file contents into InputLine.
-   */
-  private getDirnameAndRelativePathsForInspector(
-    files: readonly vscode.Uri[],
-    rootDir: string,
-    viewMode: TreeViewMode,
-  ): RelativeWriterlyPath[] {
-    return files
-      .filter((uri) => viewMode === "all" || !this.isCommentedPath(uri.fsPath))
-      .map((uri) => ({
-        uri,
-        relativePath: path.relative(rootDir, uri.fsPath),
-      }));
-  }
-
-  private fromTerminals(
-    terminals: readonly RelativeWriterlyPath[],
-  ): DirectoryNode {
-    const root: DirectoryNode = {
-      name: "",
-      files: [],
-      directories: new Map(),
-    };
-
-    for (const terminal of terminals) {
-      const parts = terminal.relativePath
-        .split(path.sep)
-        .filter((part) => part.length > 0);
-      let current = root;
-
-      for (let index = 0; index < parts.length; index++) {
-        const name = parts[index];
-        const isFile = index === parts.length - 1;
-        if (isFile) {
-          current.files.push({ name, uri: terminal.uri });
-          break;
-        }
-
-        let child = current.directories.get(name);
-
-        if (!child) {
-          child = {
-            name,
-            files: [],
-            directories: new Map(),
-          };
-          current.directories.set(name, child);
-        }
-
-        current = child;
-      }
-    }
-
-    return root;
-  }
-
   private getCommentStatusMarker(fsPath: string): string {
-    return this.isCommentedPath(fsPath) ? "#" : " ";
+    return isCommentedPath(fsPath) ? "#" : " ";
   }
 
   private addDiagnosticFilenameRange(
@@ -1615,10 +1513,6 @@ export class WriterlyDocumentTreeInspector
     }
   }
 
-  private isCommentedPath(fsPath: string): boolean {
-    return fsPath.split(path.sep).some((part) => part.startsWith("#"));
-  }
-
   private appendViewModeControl(
     lines: string[],
     links: LinkTarget[],
@@ -1662,162 +1556,6 @@ export class WriterlyDocumentTreeInspector
     return vscode.Uri.parse(`command:${SET_TREE_VIEW_MODE_COMMAND}?${args}`);
   }
 
-  /*
-   * Mirrors writerly.gleam's input_lines_for_dirtree_at_depth. The Gleam
-   * function reads each emitted file into InputLine values; this version emits
-   * the file metadata needed by the read-only inspector document.
-   */
-  private inputLinesForDirtreeDisplayAtDepth(
-    originalDirname: string,
-    acc: string,
-    directory: DirectoryNode,
-    depth: number,
-  ): DisplayFile[] {
-    const entries = this.sortDirTreeEntriesLikeGleam(
-      this.getDirTreeEntries(directory),
-    );
-    const parentPrefixes = directory.files
-      .map((file) => this.getParentPrefix(file.name))
-      .filter((prefix): prefix is string => prefix !== undefined);
-    const files: DisplayFile[] = [];
-
-    for (const entry of entries) {
-      const entryDepth =
-        depth +
-        parentPrefixes.filter((prefix) =>
-          this.addedDepthApplies(prefix, entry.name),
-        ).length;
-
-      if (entry.directory) {
-        files.push(
-          ...this.inputLinesForDirtreeDisplayAtDepth(
-            originalDirname,
-            this.dirAndFilenameToPath(acc, entry.name),
-            entry.directory,
-            entryDepth,
-          ),
-        );
-      } else if (entry.file) {
-        files.push({
-          uri: entry.file.uri,
-          fileName: entry.name,
-          dirPath: acc,
-          indentation: ASSEMBLY_INDENT_WIDTH * entryDepth,
-        });
-      }
-    }
-
-    return files;
-  }
-
-  private findDirNameEndingInWriterly(
-    directory: DirectoryNode,
-    prefix = "",
-  ): string | undefined {
-    for (const child of directory.directories.values()) {
-      const childPath = prefix ? `${prefix}/${child.name}` : child.name;
-      if (child.name.endsWith(".wly")) {
-        return childPath;
-      }
-      const nested = this.findDirNameEndingInWriterly(child, childPath);
-      if (nested) return nested;
-    }
-    return undefined;
-  }
-
-  private getDirTreeEntries(directory: DirectoryNode): DisplayEntry[] {
-    return [
-      ...directory.files.map((file) => ({
-        name: file.name,
-        file,
-      })),
-      ...[...directory.directories.values()].map((childDirectory) => ({
-        name: childDirectory.name,
-        directory: childDirectory,
-      })),
-    ];
-  }
-
-  private sortDirTreeEntriesLikeGleam(
-    entries: readonly DisplayEntry[],
-  ): DisplayEntry[] {
-    return [...entries].sort((a, b) => {
-      const aOrder = this.getDirTreeSortKey(a.name);
-      const bOrder = this.getDirTreeSortKey(b.name);
-      return (
-        aOrder.anchor.localeCompare(bOrder.anchor) ||
-        aOrder.rank - bOrder.rank ||
-        aOrder.name.localeCompare(bOrder.name)
-      );
-    });
-  }
-
-  private getDirTreeSortKey(fileNameOrDirName: string): {
-    anchor: string;
-    rank: number;
-    name: string;
-  } {
-    if (fileNameOrDirName.startsWith("#")) {
-      const uncommentedName = fileNameOrDirName.slice(1);
-      return {
-        anchor: this.dropParentSuffix(uncommentedName),
-        rank: fileNameOrDirName.endsWith(PARENT_FILE_SUFFIX) ? -1 : 0,
-        name: fileNameOrDirName,
-      };
-    }
-
-    return {
-      anchor: this.dropParentSuffix(fileNameOrDirName),
-      rank: 1,
-      name: fileNameOrDirName,
-    };
-  }
-
-  private dropParentSuffix(name: string): string {
-    return name.endsWith(PARENT_FILE_SUFFIX)
-      ? name.slice(0, -PARENT_FILE_SUFFIX.length)
-      : name;
-  }
-
-  private getParentPrefix(fileName: string): string | undefined {
-    if (fileName.startsWith("#")) return undefined;
-    if (!fileName.endsWith(PARENT_FILE_SUFFIX)) return undefined;
-    return fileName.slice(0, -PARENT_FILE_SUFFIX.length);
-  }
-
-  private addedDepthApplies(
-    activePrefix: string,
-    entryName: string,
-  ): boolean {
-    const inertParentPrefix = this.getInertParentFilePrefix(entryName);
-    if (inertParentPrefix !== undefined) {
-      return (
-        activePrefix.length < inertParentPrefix.length &&
-        inertParentPrefix.startsWith(activePrefix)
-      );
-    }
-
-    const effectiveName = entryName.startsWith("#")
-      ? entryName.slice(1)
-      : entryName;
-
-    return (
-      effectiveName.startsWith(activePrefix) &&
-      entryName !== `${activePrefix}${PARENT_FILE_SUFFIX}`
-    );
-  }
-
-  private dirAndFilenameToPath(dir: string, fileName: string): string {
-    return dir ? `${dir}/${fileName}` : fileName;
-  }
-
-  private getInertParentFilePrefix(fileName: string): string | undefined {
-    if (!fileName.startsWith("#") || !fileName.endsWith(PARENT_FILE_SUFFIX)) {
-      return undefined;
-    }
-    return fileName.slice(1, -PARENT_FILE_SUFFIX.length);
-  }
-
   private getDocumentTreeRoot(
     currentFsPath: string,
     containers: readonly string[],
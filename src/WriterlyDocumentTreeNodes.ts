@@ -0,0 +1,68 @@
+import type { AssemblyFile } from "./WriterlyDocumentAssembly";
+
+const PARENT_FILE_NAME = "__parent.wly";
+
+/*
+ * The nodes of the document tree view (WriterlyDocumentTreeView), built from
+ * the files of a document tree in assembly order. A file is nested under the
+ * closest file before it that is assembled less deeply, so a `__parent.wly`
+ * file holds the files indented under it. The nodes are kept as built until
+ * files are added, removed or moved; a change of diagnostics only redraws
+ * the nodes of the files it concerns. Neither vscode nor the file system is
+ * touched here.
+ */
+
+export type DocumentTreeNode = {
+  file: AssemblyFile;
+  parent: DocumentTreeNode | undefined;
+  children: DocumentTreeNode[];
+};
+
+export type DocumentTreeNodes = {
+  /** The nodes without a parent, in assembly order. */
+  roots: DocumentTreeNode[];
+  byFsPath: Map<string, DocumentTreeNode>;
+};
+
+/** Nests the files of a document tree, given in assembly order. */
+export function buildDocumentTreeNodes(
+  files: readonly AssemblyFile[],
+): DocumentTreeNodes {
+  const nodes: DocumentTreeNodes = { roots: [], byFsPath: new Map() };
+  // files come in assembly order, so each file's parent is already placed
+  const ancestors: DocumentTreeNode[] = [];
+  for (const file of files) {
+    while (
+      ancestors.length > 0 &&
+      ancestors[ancestors.length - 1].file.depth >= file.depth
+    ) {
+      ancestors.pop();
+    }
+    const parent = ancestors[ancestors.length - 1];
+    const node: DocumentTreeNode = { file, parent, children: [] };
+    (parent ? parent.children : nodes.roots).push(node);
+    nodes.byFsPath.set(file.fsPath, node);
+    // a `#__parent.wly` file indents nothing
+    if (
+      file.fileName.endsWith(PARENT_FILE_NAME) &&
+      !file.fileName.startsWith("#")
+    ) {
+      ancestors.push(node);
+    }
+  }
+  return nodes;
+}
+
+/**
+ * Returns the nodes to redraw when the diagnostics of `fsPaths` change: the
+ * node of every file of the tree among them, once each. The other nodes and
+ * the nesting are left as they are.
+ */
+export function getChangedNodes(
+  nodes: DocumentTreeNodes,
+  fsPaths: Iterable<string>,
+): DocumentTreeNode[] {
+  return [...new Set(fsPaths)]
+    .map((fsPath) => nodes.byFsPath.get(fsPath))
+    .filter((node) => node !== undefined);
+}
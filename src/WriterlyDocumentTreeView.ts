@@ -0,0 +1,422 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { isWriterlyFilePath } from "./WriterlyFileExtensions";
+import { isPathUnderDirectory } from "./WriterlyDocumentTrees";
+import { discoverTopmostWriterlyDocumentRoots } from "./WriterlyDocumentTreeDiscovery";
+import { getAssemblyOrder, isCommentedPath } from "./WriterlyDocumentAssembly";
+import {
+  buildDocumentTreeNodes,
+  getChangedNodes,
+  type DocumentTreeNode,
+  type DocumentTreeNodes,
+} from "./WriterlyDocumentTreeNodes";
+import {
+  getDirectoryEntryNames,
+  planReordering,
+} from "./WriterlyDocumentReordering";
+import { renameEntriesAndUpdateReferences } from "./WriterlyFileRenamer";
+import { vscodeFileSystem } from "./utils/vscode-file-system";
+import type { WriterlyDiagnosticStatus } from "./WriterlyLanguageClient";
+
+const VIEW_ID = "writerlyDocumentTree";
+const DRAG_MIME_TYPE = "application/vnd.code.tree.writerlydocumenttree";
+const REFRESH_COMMAND = "writerly.documentTree.refresh";
+const SHOW_HASH_FILES_COMMAND = "writerly.documentTree.showHashFiles";
+const HIDE_HASH_FILES_COMMAND = "writerly.documentTree.hideHashFiles";
+const OPEN_TO_SIDE_COMMAND = "writerly.documentTree.openToSide";
+const REVEAL_IN_EXPLORER_COMMAND = "writerly.documentTree.revealInExplorer";
+const SHOWS_HASH_FILES_CONTEXT = "writerlyDocumentTreeShowsHashFiles";
+const PARENT_FILE_NAME = "__parent.wly";
+const REFRESH_DELAY_MS = 300;
+const DIAGNOSTICS_DELAY_MS = 300;
+
+/*
+ * WriterlyDocumentTreeView lists the document tree of the active Writerly
+ * file in the Writerly Explorer, in writerly.gleam's assembly order. A
+ * `__parent.wly` file holds the files indented under it and can be collapsed
+ * (see WriterlyDocumentTreeNodes). Files with errors or warnings are marked
+ * and counted in the view's badge; a change of diagnostics only redraws the
+ * files it concerns. The view follows the active editor. Files under `#`
+ * paths, which are not assembled, can be shown as well.
+ *
+ * Dropping a file on another file of the same directory moves it to that
+ * position by renumbering the entries in between (see
+ * WriterlyDocumentReordering). A `__parent.wly` file stands for its
+ * directory, so dragging it moves the whole directory. The renames update
+ * path references the way WriterlyFileRenamer does for moves.
+ *
+ * The text inspector (WriterlyDocumentTreeInspector) shows the same order as
+ * a document and stays available next to this view.
+ */
+export class WriterlyDocumentTreeView
+  implements
+    vscode.TreeDataProvider<DocumentTreeNode>,
+    vscode.TreeDragAndDropController<DocumentTreeNode>
+{
+  public readonly dragMimeTypes = [DRAG_MIME_TYPE];
+  public readonly dropMimeTypes = [DRAG_MIME_TYPE];
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<
+    DocumentTreeNode | DocumentTreeNode[] | undefined
+  >();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  private readonly treeView: vscode.TreeView<DocumentTreeNode>;
+  private rootDir: string | undefined;
+  private nodes: DocumentTreeNodes = buildDocumentTreeNodes([]);
+  private showHashFiles = false;
+  private stale = true;
+  private refreshTimeout: NodeJS.Timeout | undefined;
+  private changedDiagnostics = new Set<string>();
+  private diagnosticsTimeout: NodeJS.Timeout | undefined;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private readonly getDiagnosticStatus: (
+      fsPath: string,
+    ) => WriterlyDiagnosticStatus = () => "none",
+  ) {
+    this.treeView = vscode.window.createTreeView(VIEW_ID, {
+      treeDataProvider: this,
+      dragAndDropController: this,
+      showCollapseAll: true,
+    });
+    const watcher = vscode.workspace.createFileSystemWatcher("**/*");
+    const refresh = () => this.scheduleRefresh();
+
+    context.subscriptions.push(
+      this.onDidChangeTreeDataEmitter,
+      this.treeView,
+      watcher,
+      vscode.commands.registerCommand(REFRESH_COMMAND, () => this.refresh()),
+      vscode.commands.registerCommand(SHOW_HASH_FILES_COMMAND, () =>
+        this.setShowHashFiles(true),
+      ),
+      vscode.commands.registerCommand(HIDE_HASH_FILES_COMMAND, () =>
+        this.setShowHashFiles(false),
+      ),
+      vscode.commands.registerCommand(
+        OPEN_TO_SIDE_COMMAND,
+        (node: DocumentTreeNode) =>
+          vscode.window.showTextDocument(vscode.Uri.file(node.file.fsPath), {
+            viewColumn: vscode.ViewColumn.Beside,
+            preview: false,
+          }),
+      ),
+      vscode.commands.registerCommand(
+        REVEAL_IN_EXPLORER_COMMAND,
+        (node: DocumentTreeNode) =>
+          vscode.commands.executeCommand(
+            "revealInExplorer",
+            vscode.Uri.file(node.file.fsPath),
+          ),
+      ),
+      vscode.window.onDidChangeActiveTextEditor((editor) =>
+        this.handleActiveEditorChange(editor),
+      ),
+      this.treeView.onDidChangeVisibility((event) => {
+        if (event.visible) {
+          void this.revealActiveFile(vscode.window.activeTextEditor);
+        }
+      }),
+      vscode.languages.onDidChangeDiagnostics((event) =>
+        this.handleDiagnosticsChange(event),
+      ),
+    );
+    watcher.onDidCreate(refresh, undefined, context.subscriptions);
+    watcher.onDidDelete(refresh, undefined, context.subscriptions);
+
+    void vscode.commands.executeCommand(
+      "setContext",
+      SHOWS_HASH_FILES_CONTEXT,
+      false,
+    );
+    void this.handleActiveEditorChange(vscode.window.activeTextEditor);
+  }
+
+  public reset(): void {
+    this.rootDir = undefined;
+    this.refresh();
+    void this.handleActiveEditorChange(vscode.window.activeTextEditor);
+  }
+
+  public getTreeItem(node: DocumentTreeNode): vscode.TreeItem {
+    const { file } = node;
+    const uri = vscode.Uri.file(file.fsPath);
+    const item = new vscode.TreeItem(
+      uri,
+      node.children.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None,
+    );
+    item.id = file.fsPath;
+    item.label = file.fileName;
+    item.description = file.dirPath || undefined;
+    item.contextValue = "writerlyDocumentTreeFile";
+    item.command = {
+      command: "vscode.open",
+      title: "Open File",
+      arguments: [uri],
+    };
+
+    const status = this.getDiagnosticStatus(file.fsPath);
+    const commented = isCommentedPath(file.fsPath);
+    item.tooltip = [
+      path.join(file.dirPath, file.fileName),
+      commented ? "Not assembled: under a '#' path" : undefined,
+      status === "error"
+        ? "Has errors"
+        : status === "warning"
+          ? "Has warnings"
+          : undefined,
+    ]
+      .filter((line) => line !== undefined)
+      .join("\n");
+    item.iconPath =
+      status === "error"
+        ? new vscode.ThemeIcon(
+            "error",
+            new vscode.ThemeColor("problemsErrorIcon.foreground"),
+          )
+        : status === "warning"
+          ? new vscode.ThemeIcon(
+              "warning",
+              new vscode.ThemeColor("problemsWarningIcon.foreground"),
+            )
+          : commented
+            ? new vscode.ThemeIcon(
+                "circle-slash",
+                new vscode.ThemeColor("disabledForeground"),
+              )
+            : vscode.ThemeIcon.File;
+    return item;
+  }
+
+  public async getChildren(
+    node?: DocumentTreeNode,
+  ): Promise<DocumentTreeNode[]> {
+    if (node) return node.children;
+
+    if (this.stale) await this.build();
+    return this.nodes.roots;
+  }
+
+  public getParent(node: DocumentTreeNode): DocumentTreeNode | undefined {
+    return node.parent;
+  }
+
+  public handleDrag(
+    nodes: readonly DocumentTreeNode[],
+    dataTransfer: vscode.DataTransfer,
+  ): void {
+    dataTransfer.set(DRAG_MIME_TYPE, new vscode.DataTransferItem(nodes));
+  }
+
+  public async handleDrop(
+    target: DocumentTreeNode | undefined,
+    dataTransfer: vscode.DataTransfer,
+  ): Promise<void> {
+    const nodes: readonly DocumentTreeNode[] | undefined =
+      dataTransfer.get(DRAG_MIME_TYPE)?.value;
+    if (!target || !nodes || nodes.length !== 1) return;
+
+    await this.reorder(nodes[0], target);
+  }
+
+  private async reorder(
+    node: DocumentTreeNode,
+    target: DocumentTreeNode,
+  ): Promise<void> {
+    const entryPath = this.getEntryPath(node.file.fsPath);
+    const targetEntryPath = this.getEntryPath(target.file.fsPath);
+    if (!entryPath || !targetEntryPath || entryPath === targetEntryPath) return;
+
+    const dirPath = path.dirname(entryPath);
+    if (path.dirname(targetEntryPath) !== dirPath) {
+      void vscode.window.showInformationMessage(
+        "Files can only be reordered among the files and directories of the same directory.",
+      );
+      return;
+    }
+
+    // the entries writerly.gleam assembles: Writerly files and the
+    // directories holding them, commented or not
+    const entryNames = getDirectoryEntryNames(
+      dirPath,
+      await vscodeFileSystem.findWriterlyFiles(),
+    );
+    const plan = planReordering(
+      entryNames,
+      path.basename(entryPath),
+      path.basename(targetEntryPath),
+    );
+    if (plan.kind === "unnumbered") {
+      void vscode.window.showInformationMessage(
+        `"${plan.name}" does not start with a number to reorder by, like "02-".`,
+      );
+      return;
+    }
+    if (plan.kind === "unchanged" || plan.renames.length === 0) return;
+
+    const confirmation = await vscode.window.showWarningMessage(
+      `Move "${path.basename(entryPath)}" by renaming ${
+        plan.renames.length
+      } entries of "${path.basename(dirPath)}"?`,
+      {
+        modal: true,
+        detail: plan.renames
+          .map((rename) => `${rename.from} → ${rename.to}`)
+          .join("\n"),
+      },
+      "Rename",
+    );
+    if (confirmation !== "Rename") return;
+
+    const renamed = await renameEntriesAndUpdateReferences(
+      plan.renames.map((rename) => ({
+        fromFsPath: path.join(dirPath, rename.from),
+        toFsPath: path.join(dirPath, rename.to),
+      })),
+      `Renamed ${plan.renames.length} entries of "${path.basename(
+        dirPath,
+      )}" and updated references in Writerly files accordingly.`,
+    );
+    if (renamed) this.refresh();
+  }
+
+  /**
+   * Returns the path of the directory entry that a file of the tree stands
+   * for: its directory for a `__parent.wly` file, otherwise the file itself.
+   * The root directory cannot be reordered.
+   */
+  private getEntryPath(fsPath: string): string | undefined {
+    if (path.basename(fsPath) !== PARENT_FILE_NAME) return fsPath;
+
+    const dirPath = path.dirname(fsPath);
+    return dirPath === this.rootDir ? undefined : dirPath;
+  }
+
+  private async handleActiveEditorChange(
+    editor: vscode.TextEditor | undefined,
+  ): Promise<void> {
+    if (!editor || !isWriterlyFilePath(editor.document.uri.fsPath)) return;
+
+    const fsPath = editor.document.uri.fsPath;
+    if (!this.rootDir || !isPathUnderDirectory(fsPath, this.rootDir)) {
+      this.rootDir = (
+        await discoverTopmostWriterlyDocumentRoots(vscodeFileSystem)
+      ).find((rootDir) => isPathUnderDirectory(fsPath, rootDir));
+      this.refresh();
+    }
+    if (isCommentedPath(fsPath) && !this.showHashFiles) {
+      await this.setShowHashFiles(true);
+    }
+    await this.revealActiveFile(editor);
+  }
+
+  private async revealActiveFile(
+    editor: vscode.TextEditor | undefined,
+  ): Promise<void> {
+    if (!this.treeView.visible || !editor) return;
+
+    // the nodes are rebuilt on demand; getChildren makes them current
+    await this.getChildren();
+    const node = this.nodes.byFsPath.get(editor.document.uri.fsPath);
+    if (!node) return;
+    await this.treeView.reveal(node, { select: true, focus: false });
+  }
+
+  private async setShowHashFiles(show: boolean): Promise<void> {
+    this.showHashFiles = show;
+    await vscode.commands.executeCommand(
+      "setContext",
+      SHOWS_HASH_FILES_CONTEXT,
+      show,
+    );
+    this.refresh();
+  }
+
+  private refresh(): void {
+    this.stale = true;
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimeout) clearTimeout(this.refreshTimeout);
+    this.refreshTimeout = setTimeout(() => {
+      this.refreshTimeout = undefined;
+      this.refresh();
+    }, REFRESH_DELAY_MS);
+  }
+
+  private handleDiagnosticsChange(event: vscode.DiagnosticChangeEvent): void {
+    const fsPaths = event.uris
+      .map((uri) => uri.fsPath)
+      .filter((fsPath) => this.nodes.byFsPath.has(fsPath));
+    if (fsPaths.length === 0) return;
+
+    fsPaths.forEach((fsPath) => this.changedDiagnostics.add(fsPath));
+    if (this.diagnosticsTimeout) clearTimeout(this.diagnosticsTimeout);
+    this.diagnosticsTimeout = setTimeout(() => {
+      this.diagnosticsTimeout = undefined;
+      this.updateDiagnostics();
+    }, DIAGNOSTICS_DELAY_MS);
+  }
+
+  /**
+   * Redraws the files whose diagnostics changed and recounts the badge,
+   * leaving the structure of the tree as it is.
+   */
+  private updateDiagnostics(): void {
+    const nodes = getChangedNodes(this.nodes, this.changedDiagnostics);
+    this.changedDiagnostics.clear();
+    if (this.stale || nodes.length === 0) return;
+
+    this.onDidChangeTreeDataEmitter.fire(nodes);
+    this.updateBadge();
+  }
+
+  private updateBadge(): void {
+    const filesWithProblems = [...this.nodes.byFsPath.keys()].filter(
+      (fsPath) => this.getDiagnosticStatus(fsPath) !== "none",
+    ).length;
+    this.treeView.badge =
+      filesWithProblems > 0
+        ? {
+            value: filesWithProblems,
+            tooltip: `${filesWithProblems} ${
+              filesWithProblems === 1 ? "file has" : "files have"
+            } problems`,
+          }
+        : undefined;
+  }
+
+  private async build(): Promise<void> {
+    this.stale = false;
+    this.nodes = buildDocumentTreeNodes([]);
+    this.treeView.badge = undefined;
+
+    const rootDir = this.rootDir;
+    if (!rootDir) {
+      this.treeView.message =
+        "Open a Writerly file to show its document tree.";
+      return;
+    }
+
+    const order = getAssemblyOrder(
+      rootDir,
+      (await vscodeFileSystem.findWriterlyFiles()).filter(
+        (fsPath) =>
+          isPathUnderDirectory(fsPath, rootDir) &&
+          (this.showHashFiles || !isCommentedPath(fsPath)),
+      ),
+    );
+    if (order.kind === "wlyDirectory") {
+      this.treeView.message = `Directory name ends in .wly: ${order.dirPath}`;
+      return;
+    }
+
+    this.treeView.message = undefined;
+    this.treeView.description = path.basename(rootDir);
+    this.nodes = buildDocumentTreeNodes(order.files);
+    this.updateBadge();
+  }
+}
@@ -1,32 +1,27 @@
-import * as vscode from "vscode";
 import * as path from "path";
-import {
-  getWriterlyFileGlob,
-  isWriterlyFilePath,
-} from "./WriterlyFileExtensions";
+import { isWriterlyFilePath } from "./WriterlyFileExtensions";
 
 // A Writerly container is any directory that directly contains at least one
 // Writerly file. Containers are not necessarily topmost document roots.
-export async function discoverWriterlyContainers(
-  maxFiles?: number,
-): Promise<string[]> {
-  const fileGlob = getWriterlyFileGlob();
-  if (!fileGlob) return [];
-
-  const uris = await vscode.workspace.findFiles(fileGlob, null, maxFiles);
+//
+// The rules in this module are pure path computations so the extension and
+// the language server share them; discovering which Writerly files exist is
+// left to the caller.
+export function getWriterlyContainers(fsPaths: Iterable<string>): string[] {
   const containers = new Set<string>();
 
-  for (const uri of uris) {
-    if (isWriterlyFilePath(uri.fsPath)) {
-      containers.add(path.dirname(uri.fsPath));
+  for (const fsPath of fsPaths) {
+    if (isWriterlyFilePath(fsPath)) {
+      containers.add(path.dirname(fsPath));
     }
   }
 
   return [...containers];
 }
 
-export async function discoverTopmostWriterlyDocumentRoots(): Promise<string[]> {
-  const containers = await discoverWriterlyContainers();
+export function getTopmostWriterlyDocumentRoots(
+  containers: readonly string[],
+): string[] {
   return containers.filter(
     (container) =>
       !containers.some(
@@ -37,6 +32,17 @@ export async function discoverTopmostWriterlyDocumentRoots(): Promise<string[]>
   );
 }
 
+export function getNearestContainer(
+  fsPath: string,
+  containers: readonly string[],
+): string | undefined {
+  if (!isWriterlyFilePath(fsPath)) return undefined;
+
+  return containers
+    .filter((containerPath) => isPathUnderDirectory(fsPath, containerPath))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
 export function getDocumentTreeKeys(
   fsPath: string,
   writerlyContainers: readonly string[],
@@ -97,15 +103,13 @@ export function getHashIslandDepth(fsPath: string): number {
   return getHashIslandKey(fsPath).length;
 }
 
-export async function getNearestWriterlyContainer(
-  fsPath: string,
-): Promise<string | undefined> {
-  if (!isWriterlyFilePath(fsPath)) return undefined;
-
-  const containers = await discoverWriterlyContainers();
-  return containers
-    .filter((containerPath) => isPathUnderDirectory(fsPath, containerPath))
-    .sort((a, b) => b.length - a.length)[0];
+/**
+ * Returns the innermost `#` directory a file lies in, or undefined for files
+ * outside every hash island.
+ */
+export function getHashIsland(fsPath: string): string | undefined {
+  const key = getHashIslandKey(fsPath);
+  return key[key.length - 1];
 }
 
 export function isPathUnderDirectory(fsPath: string, dirPath: string): boolean {
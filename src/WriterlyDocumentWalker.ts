@@ -1,4 +1,4 @@
-import * as vscode from "vscode";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
 
 export enum Zone {
   Attribute,
@@ -27,98 +27,18 @@ export enum LineType {
 }
 
 export class WriterlyDocumentWalker {
-  public static onTheFlyLineClassification(
-    document: vscode.TextDocument,
-    position: vscode.Position,
-  ): LineType {
-    const lines = this.getLinesAbove(document, position);
-    return this.walkLinesToGetLastLineTypeInListLines(lines);
-  }
-
-  private static getLinesAbove(
-    document: vscode.TextDocument,
-    position: vscode.Position,
-  ): string[] {
-    let linesAbove: string[] = [];
-    let currentLineNum = position.line;
-    let currentLine = document.lineAt(currentLineNum).text;
-
-    linesAbove.push(currentLine);
-
-    while (currentLine.trim() === "") {
-      currentLineNum -= 1;
-      if (currentLineNum < 0) break; // do not move this into 'while' condition, it's not equivalent
-      currentLine = document.lineAt(currentLineNum).text;
-    }
-
-    if (currentLineNum < 0) {
-      // could not find a nonempty line
-      return linesAbove;
-    }
-
-    if (currentLineNum < position.line) {
-      // this means that currentLine.trim() == "" was true the first time around
-      linesAbove.push(currentLine);
-    }
-
-    let currentIndentation = currentLine.match(/^( *)/)?.[1].length || 0;
-
-    while (currentIndentation > 0 && currentLineNum > 0) {
-      currentLineNum -= 1;
-      const text = document.lineAt(currentLineNum).text;
-      const isEmpty = text.trim() === "";
-      const logicalIndentation = isEmpty ? currentIndentation : text.match(/^( *)/)?.[1].length || 0;
-
-      if (logicalIndentation <= currentIndentation) {
-        linesAbove.push(text);
-      }
-
-      if (logicalIndentation < currentIndentation) {
-        currentIndentation = logicalIndentation;
-      }
-    }
-
-    linesAbove.reverse();
-
-    if (currentIndentation > 0) {
-      linesAbove = linesAbove.map((l) => l.substring(currentIndentation));
-    }
-
-    return linesAbove;
-  }
-
-  private static walkLinesToGetLastLineTypeInListLines(lines: string[]): LineType {
-    let state: State = {
+  public static initialState(): State {
+    return {
       zone: Zone.Text,
       maxIndent: 0,
       minIndent: 0,
       codeBlockStartIndent: 0,
       codeBlockStartLineNumber: 0,
     };
-
-    let lineType = LineType.TextZoneEmptyLine;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trimEnd();
-      const spaces = line.match(/^( *)/)?.[1] || "";
-      const indent = spaces.length;
-      const content = line.slice(indent);
-
-      lineType = this.updateState(state, i, indent, content);
-    }
-
-    return lineType;
-  }
-
-  public static isCommentLine(
-    document: vscode.TextDocument,
-    position: vscode.Position,
-  ): Boolean {
-    return document.lineAt(position.line).text.trimStart().startsWith("!!");
   }
 
   public static walk(
-    document: vscode.TextDocument,
+    document: WriterlyTextDocument,
     callback: (
       stateBeforeLine: State,
       lineType: LineType,
@@ -128,27 +48,15 @@ export class WriterlyDocumentWalker {
       content: string,
     ) => void,
   ): State {
-    let state: State = {
-      zone: Zone.Text,
-      maxIndent: 0,
-      minIndent: 0,
-      codeBlockStartIndent: 0,
-      codeBlockStartLineNumber: 0,
-    };
+    let state: State = this.initialState();
 
     for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
-      const line = document.lineAt(lineNumber).text.trimEnd();
-      const spaces = line.match(/^( *)/)?.[1] || "";
-      const indent = spaces.length;
-      const content = line.slice(indent);
-      let prevState : State = {
-        zone: state.zone,
-        maxIndent: state.maxIndent,
-        minIndent: state.minIndent,
-        codeBlockStartIndent: state.codeBlockStartIndent,
-        codeBlockStartLineNumber: state.codeBlockStartLineNumber,
-      };
-      let lineType = this.updateState(state, lineNumber, indent, content);
+      let prevState: State = { ...state };
+      const { lineType, indent, content } = this.walkLine(
+        state,
+        lineNumber,
+        document.lineAt(lineNumber).text,
+      );
       callback(prevState, lineType, state, lineNumber, indent, content);
     }
 
@@ -156,6 +64,33 @@ export class WriterlyDocumentWalker {
     return state;
   }
 
+  /**
+   * Classifies a single line and advances `state` past it. Lets callers that
+   * keep their own per-line checkpoints resume walking from any line.
+   */
+  public static walkLine(
+    state: State,
+    lineNumber: number,
+    text: string,
+  ): { lineType: LineType; indent: number; content: string } {
+    const line = text.trimEnd();
+    const spaces = line.match(/^( *)/)?.[1] || "";
+    const indent = spaces.length;
+    const content = line.slice(indent);
+    const lineType = this.updateState(state, lineNumber, indent, content);
+    return { lineType, indent, content };
+  }
+
+  public static statesEqual(a: State, b: State): boolean {
+    return (
+      a.zone === b.zone &&
+      a.maxIndent === b.maxIndent &&
+      a.minIndent === b.minIndent &&
+      a.codeBlockStartIndent === b.codeBlockStartIndent &&
+      a.codeBlockStartLineNumber === b.codeBlockStartLineNumber
+    );
+  }
+
   private static updateState(
     state: State,
     lineNumber: number,
@@ -1,3 +1,5 @@
+import * as path from "path";
+
 export const WRITERLY_FILE_EXTENSION = ".wly";
 export const ALL_WRITERLY_FILE_GLOB = "**/*.wly";
 
@@ -8,3 +10,21 @@ export function getWriterlyFileGlob(): string | undefined {
 export function isWriterlyFilePath(fsPath: string): boolean {
   return fsPath.endsWith(WRITERLY_FILE_EXTENSION);
 }
+
+export const SUPPORTED_IMAGE_FILE_EXTENSIONS = [
+  "png",
+  "jpg",
+  "jpeg",
+  "gif",
+  "svg",
+  "webp",
+  "avif",
+  "bmp",
+] as const;
+const supportedImageFileExtensions = new Set<string>(
+  SUPPORTED_IMAGE_FILE_EXTENSIONS.map((ext) => `.${ext}`),
+);
+
+export function isImageFilePath(fsPath: string): boolean {
+  return supportedImageFileExtensions.has(path.extname(fsPath).toLowerCase());
+}
@@ -10,12 +10,16 @@ import {
   isWriterlyFilePath,
 } from "./WriterlyFileExtensions";
 import {
-  discoverWriterlyContainers,
-  discoverTopmostWriterlyDocumentRoots,
-  getNearestWriterlyContainer,
   isPathUnderDirectory,
   steinbergerDistance,
 } from "./WriterlyDocumentTrees";
+import {
+  discoverWriterlyContainers,
+  discoverTopmostWriterlyDocumentRoots,
+  getNearestWriterlyContainer,
+} from "./WriterlyDocumentTreeDiscovery";
+import { getRenamedReferencePaths } from "./WriterlyDocumentReordering";
+import { vscodeFileSystem } from "./utils/vscode-file-system";
 
 type FileCommandTarget = {
   filePath: string;
@@ -58,6 +62,11 @@ type PathReplacement = {
   newPath: string;
 };
 
+export type EntryRename = {
+  fromFsPath: string;
+  toFsPath: string;
+};
+
 type TemplateQuickPickItem = vscode.QuickPickItem & {
   filePath: string;
 };
@@ -97,6 +106,9 @@ class UserReportedFileOperationError extends Error {}
  * - RenameProvider:
  *   - F2 over a filename builds the same file-rename edit as the command route.
  *   - F2 over a directory path builds the same file-move edit as the command route.
+ * - renameEntriesAndUpdateReferences:
+ *   - renames files and directories chosen elsewhere, like the entries the
+ *     document tree view renumbers on drag and drop, and applies the edit.
  *
  * Behaviors:
  * - Path resolution:
@@ -119,6 +131,8 @@ class UserReportedFileOperationError extends Error {}
  * - File operations:
  *   - rename/move edits use WorkspaceEdit.renameFile
  *   - command routes apply the WorkspaceEdit directly
+ *   - renameEntriesAndUpdateReferences puts the reference edits before the
+ *     renames and renames through temporary names when entries swap names
  *   - RenameProvider routes return the WorkspaceEdit to VS Code
  * - User reporting:
  *   - command routes show success/error messages and modal disambiguation notes
@@ -605,6 +619,127 @@ async function buildFileReferenceOperationEdit(
   return edit;
 }
 
+/**
+ * Renames files and directories as one edit and updates the references to
+ * them, and to the files below the directories, in Writerly files. Used by
+ * the document tree view to reorder entries; the renames may swap names among
+ * themselves.
+ */
+export async function renameEntriesAndUpdateReferences(
+  renames: readonly EntryRename[],
+  successMessage: string,
+): Promise<boolean> {
+  if (renames.length === 0) return false;
+
+  const sources = new Set(
+    renames.map((rename) => path.resolve(rename.fromFsPath)),
+  );
+  for (const rename of renames) {
+    if (
+      !sources.has(path.resolve(rename.toFsPath)) &&
+      (await pathExists(rename.toFsPath))
+    ) {
+      reportFileCommandError(`"${rename.toFsPath}" already exists`);
+      return false;
+    }
+  }
+
+  const replacements: PathReplacement[] = [];
+  for (const rename of renames) {
+    replacements.push(...(await getEntryPathReplacements(rename)));
+  }
+
+  // the references are rewritten in the files at their old paths, so the
+  // text edits go before the renames
+  const edit = new vscode.WorkspaceEdit();
+  try {
+    await WriterlyPathReferenceUpdater.addPathReplacementEdits(
+      edit,
+      replacements,
+    );
+  } catch (error) {
+    if (error instanceof UserReportedFileOperationError) return false;
+    reportFileCommandError("Failed to update references", error);
+    return false;
+  }
+
+  // a name taken by another entry of the batch is freed up first
+  const swapsNames = renames.some((rename) =>
+    sources.has(path.resolve(rename.toFsPath)),
+  );
+  const steps = renames.map((rename, index) => ({
+    ...rename,
+    via: swapsNames
+      ? path.join(
+          path.dirname(rename.fromFsPath),
+          `.writerly-rename-${index}-${path.basename(rename.fromFsPath)}`,
+        )
+      : undefined,
+  }));
+  for (const step of steps) {
+    edit.renameFile(
+      vscode.Uri.file(step.fromFsPath),
+      vscode.Uri.file(step.via ?? step.toFsPath),
+      { overwrite: false },
+    );
+  }
+  for (const step of steps) {
+    if (!step.via) continue;
+    edit.renameFile(
+      vscode.Uri.file(step.via),
+      vscode.Uri.file(step.toFsPath),
+      { overwrite: false },
+    );
+  }
+
+  const { result: applied, error } = await tryCatch(
+    vscode.workspace.applyEdit(edit),
+  );
+  if (error || !applied) {
+    reportFileCommandError("Failed to apply file operation", error);
+    return false;
+  }
+  vscode.window.showInformationMessage(successMessage);
+  return true;
+}
+
+/*
+ * Every trailing part of a renamed path that holds the new name is a
+ * candidate; the reference updater only rewrites candidates that resolve to
+ * the renamed file.
+ */
+async function getEntryPathReplacements(
+  rename: EntryRename,
+): Promise<PathReplacement[]> {
+  const workspaceFolder = getClosestWorkspaceFolder(rename.fromFsPath);
+  if (!workspaceFolder) return [];
+
+  const { result: stat } = await tryCatch(
+    vscode.workspace.fs.stat(vscode.Uri.file(rename.fromFsPath)),
+  );
+  const fsPaths =
+    stat?.type === vscode.FileType.Directory
+      ? (
+          await vscode.workspace.findFiles(
+            new vscode.RelativePattern(rename.fromFsPath, "**/*"),
+          )
+        ).map((uri) => uri.fsPath)
+      : [rename.fromFsPath];
+
+  const renamedParts = path
+    .relative(workspaceFolder.uri.fsPath, rename.fromFsPath)
+    .split(path.sep);
+  const renamedIndex = renamedParts.length - 1;
+  const newName = path.basename(rename.toFsPath);
+  return fsPaths.flatMap((fsPath) =>
+    getRenamedReferencePaths(
+      path.relative(workspaceFolder.uri.fsPath, fsPath).split(path.sep),
+      renamedIndex,
+      newName,
+    ).map((referencePath) => ({ oldResolvedPath: fsPath, ...referencePath })),
+  );
+}
+
 // One-shot text rewrite used after filesystem rename/move. This intentionally
 // scans current workspace files instead of depending on cached link-provider state.
 class WriterlyPathReferenceUpdater {
@@ -724,7 +859,9 @@ class ReferenceReplacementContext {
   private constructor(private readonly writerlyContainers: readonly string[]) {}
 
   static async create(): Promise<ReferenceReplacementContext> {
-    return new ReferenceReplacementContext(await discoverWriterlyContainers());
+    return new ReferenceReplacementContext(
+      await discoverWriterlyContainers(vscodeFileSystem),
+    );
   }
 
   getDocumentResolutionRoot(fsPath: string): string {
@@ -1092,7 +1229,10 @@ class WriterlyTemplateFileCreator {
 }
 
 async function getDocumentResolutionRoot(fsPath: string): Promise<string> {
-  const writerlyContainer = await getNearestWriterlyContainer(fsPath);
+  const writerlyContainer = await getNearestWriterlyContainer(
+    vscodeFileSystem,
+    fsPath,
+  );
   if (writerlyContainer) return writerlyContainer;
 
   const workspaceFolder = getClosestWorkspaceFolder(fsPath);
@@ -1314,7 +1454,8 @@ async function resolveMoveDestinationDirectory(
     return candidates[0];
   }
 
-  const topmostRoots = await discoverTopmostWriterlyDocumentRoots();
+  const topmostRoots =
+    await discoverTopmostWriterlyDocumentRoots(vscodeFileSystem);
   const originRoot =
     getClosestContainingDirectory(target.document.uri.fsPath, topmostRoots) ??
     target.resolutionRoot;
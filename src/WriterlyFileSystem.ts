@@ -0,0 +1,43 @@
+/*
+ * The slice of a workspace file system the Writerly path resolution and
+ * document-tree discovery rules read. The extension implements it on top of
+ * `vscode.workspace` (utils/vscode-file-system.ts); the language server and the
+ * command-line checker implement it with Node's `fs` (server/WriterlyWorkspace).
+ *
+ * Paths are absolute file-system paths throughout.
+ */
+
+export type WriterlyFileType = "file" | "directory";
+
+export type WriterlyWorkspaceFolder = {
+  name: string;
+  fsPath: string;
+};
+
+export interface WriterlyFileSystem {
+  getWorkspaceFolders(): readonly WriterlyWorkspaceFolder[];
+
+  /**
+   * Returns workspace files whose path ends with the segments of `filePath`,
+   * a relative path without leading "/" or "../" segments. Files below
+   * node_modules, dist, build and dot directories are left out.
+   */
+  findFilesByPath(filePath: string, maxResults?: number): Promise<string[]>;
+
+  /**
+   * Returns every Writerly file in the workspace.
+   */
+  findWriterlyFiles(maxResults?: number): Promise<string[]>;
+
+  /**
+   * Returns the names and types of the entries of a directory. Entries that
+   * are neither files nor directories are left out.
+   */
+  readDirectory(dirPath: string): Promise<[string, WriterlyFileType][]>;
+
+  /**
+   * Returns the type of the entry at `fsPath`, or undefined when nothing
+   * exists there.
+   */
+  stat(fsPath: string): Promise<WriterlyFileType | undefined>;
+}
@@ -0,0 +1,64 @@
+import type { HandleGraph } from "./WriterlyProtocol";
+
+/*
+ * Text exports of handle reference graphs, shared by the graph view and
+ * writerly-check so that a graph exported in the editor and one written in CI
+ * can be compared line by line. Both formats leave out machine-specific
+ * paths: nodes are named by their path inside their tree.
+ *
+ * - dot: one Graphviz digraph per document tree; edges are labelled and
+ *   weighted with their usage count
+ * - json: an array with one `{ name, nodes, edges }` object per tree
+ */
+
+export type HandleGraphFormat = "dot" | "json";
+
+export const HANDLE_GRAPH_FORMATS: readonly HandleGraphFormat[] = [
+  "dot",
+  "json",
+];
+
+export function formatHandleGraphs(
+  graphs: readonly HandleGraph[],
+  format: HandleGraphFormat,
+): string {
+  switch (format) {
+    case "dot":
+      return graphs.map(toDot).join("\n\n");
+    case "json":
+      return JSON.stringify(
+        graphs.map(({ name, nodes, edges }) => ({ name, nodes, edges })),
+        null,
+        2,
+      );
+  }
+}
+
+function toDot(graph: HandleGraph): string {
+  const lines = [
+    `digraph ${quote(graph.name)} {`,
+    "  node [shape=box];",
+    ...graph.nodes.map(
+      (node) =>
+        `  ${quote(node.id)} [tooltip=${quote(
+          `${plural(node.definitionCount, "definition")}, ${plural(node.internalUsageCount, "usage")} inside the file`,
+        )}];`,
+    ),
+    ...graph.edges.map(
+      (edge) =>
+        `  ${quote(edge.from)} -> ${quote(edge.to)} [label=${edge.weight}, weight=${edge.weight}, tooltip=${quote(
+          edge.handles.join(", "),
+        )}];`,
+    ),
+    "}",
+  ];
+  return lines.join("\n");
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
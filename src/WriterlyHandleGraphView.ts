@@ -0,0 +1,322 @@
+import * as vscode from "vscode";
+import { isWriterlyFilePath } from "./WriterlyFileExtensions";
+import {
+  formatHandleGraphs,
+  HANDLE_GRAPH_FORMATS,
+  type HandleGraphFormat,
+} from "./WriterlyHandleGraphExport";
+import type { HandleGraph, HandleGraphResult } from "./WriterlyProtocol";
+
+const SHOW_HANDLE_GRAPH_COMMAND = "writerly.showHandleGraph";
+const EXPORT_HANDLE_GRAPH_COMMAND = "writerly.exportHandleGraph";
+const VIEW_TYPE = "writerlyHandleGraph";
+
+const FORMAT_LABELS: Record<HandleGraphFormat, string> = {
+  dot: "Graphviz DOT",
+  json: "JSON",
+};
+
+type WebviewMessage =
+  | { command: "open"; id: string }
+  | { command: "export"; format: HandleGraphFormat }
+  | { command: "refresh" };
+
+/*
+ * WriterlyHandleGraphView shows which files of a document tree reference
+ * handles defined in which other files, as a graph in a webview panel. The
+ * graph comes from the language server; the panel draws the files on a
+ * circle, with one arrow per referencing file pair, drawn thicker the more
+ * usages it stands for. Clicking a file opens it. The graph can be exported
+ * as Graphviz DOT or JSON, from the panel or with a command, in the same
+ * format writerly-check --graph writes.
+ */
+export class WriterlyHandleGraphView {
+  private panel: vscode.WebviewPanel | undefined;
+  private graph: HandleGraph | undefined;
+  private graphUri: string | undefined;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private readonly requestGraph: (uri: string) => Promise<HandleGraphResult>,
+  ) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(SHOW_HANDLE_GRAPH_COMMAND, () =>
+        this.show(),
+      ),
+      vscode.commands.registerCommand(EXPORT_HANDLE_GRAPH_COMMAND, () =>
+        this.exportActiveGraph(),
+      ),
+    );
+  }
+
+  private async show(): Promise<void> {
+    const uri = this.getActiveWriterlyUri();
+    if (!uri) return;
+
+    const graph = await this.fetchGraph(uri);
+    if (!graph) return;
+
+    this.graph = graph;
+    this.graphUri = uri;
+    if (!this.panel) {
+      this.panel = vscode.window.createWebviewPanel(
+        VIEW_TYPE,
+        "Handle Graph",
+        vscode.ViewColumn.Beside,
+        { enableScripts: true, retainContextWhenHidden: true },
+      );
+      this.panel.onDidDispose(() => {
+        this.panel = undefined;
+        this.graph = undefined;
+        this.graphUri = undefined;
+      });
+      this.panel.webview.onDidReceiveMessage((message: WebviewMessage) =>
+        this.handleMessage(message),
+      );
+    }
+    this.render();
+    this.panel.reveal(undefined, true);
+  }
+
+  private render(): void {
+    if (!this.panel || !this.graph) return;
+
+    this.panel.title = `Handle Graph: ${this.graph.name}`;
+    this.panel.webview.html = this.getHtml(this.panel.webview, this.graph);
+  }
+
+  private async handleMessage(message: WebviewMessage): Promise<void> {
+    if (!this.graph || !this.graphUri) return;
+
+    switch (message.command) {
+      case "open": {
+        const uri = vscode.Uri.joinPath(
+          vscode.Uri.parse(this.graph.rootUri),
+          ...message.id.split("/"),
+        );
+        await vscode.window.showTextDocument(uri, {
+          viewColumn: vscode.ViewColumn.One,
+          preview: false,
+        });
+        return;
+      }
+      case "export":
+        await this.exportGraph(this.graph, message.format);
+        return;
+      case "refresh": {
+        const graph = await this.fetchGraph(this.graphUri);
+        if (!graph) return;
+        this.graph = graph;
+        this.render();
+        return;
+      }
+    }
+  }
+
+  private async exportActiveGraph(): Promise<void> {
+    const uri = this.getActiveWriterlyUri();
+    if (!uri) return;
+
+    const selected = await vscode.window.showQuickPick(
+      HANDLE_GRAPH_FORMATS.map((format) => ({
+        label: FORMAT_LABELS[format],
+        format,
+      })),
+      { placeHolder: "Select the export format" },
+    );
+    if (!selected) return;
+
+    const graph = await this.fetchGraph(uri);
+    if (!graph) return;
+
+    await this.exportGraph(graph, selected.format);
+  }
+
+  private async exportGraph(
+    graph: HandleGraph,
+    format: HandleGraphFormat,
+  ): Promise<void> {
+    const defaultUri = vscode.Uri.joinPath(
+      vscode.Uri.parse(graph.rootUri),
+      `handle-graph.${format}`,
+    );
+    const target = await vscode.window.showSaveDialog({
+      defaultUri,
+      filters: { [FORMAT_LABELS[format]]: [format] },
+    });
+    if (!target) return;
+
+    const text = `${formatHandleGraphs([graph], format)}\n`;
+    await vscode.workspace.fs.writeFile(target, Buffer.from(text, "utf8"));
+    vscode.window.showInformationMessage(
+      `Handle graph exported to ${vscode.workspace.asRelativePath(target)}.`,
+    );
+  }
+
+  private getActiveWriterlyUri(): string | undefined {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isWriterlyFilePath(editor.document.uri.fsPath)) {
+      vscode.window.showErrorMessage(
+        "Open a Writerly file of the document tree to graph.",
+      );
+      return undefined;
+    }
+    return editor.document.uri.toString();
+  }
+
+  private async fetchGraph(uri: string): Promise<HandleGraph | undefined> {
+    const result = await this.requestGraph(uri);
+    if (result.kind === "indexing") {
+      vscode.window.showErrorMessage("Writerly handles are still indexing.");
+      return undefined;
+    }
+    if (result.kind === "noTree") {
+      vscode.window.showErrorMessage(
+        "This file is not part of a Writerly document tree.",
+      );
+      return undefined;
+    }
+    return result.graph;
+  }
+
+  private getHtml(webview: vscode.Webview, graph: HandleGraph): string {
+    const nonce = createNonce();
+    // `<` cannot close the script element once escaped
+    const data = JSON.stringify(graph).replace(/</g, "\\u003c");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+<style>
+  body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); }
+  .toolbar { display: flex; gap: 8px; align-items: center; margin-bottom: 8px; }
+  .toolbar .summary { flex: 1; opacity: 0.8; }
+  button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 4px 10px; cursor: pointer; }
+  button:hover { background: var(--vscode-button-hoverBackground); }
+  svg { width: 100%; height: calc(100vh - 60px); }
+  .edge { stroke: var(--vscode-foreground); opacity: 0.45; fill: none; }
+  .edge-label { fill: var(--vscode-descriptionForeground); font-size: 11px; }
+  .node { cursor: pointer; }
+  .node rect { fill: var(--vscode-editorWidget-background); stroke: var(--vscode-focusBorder); }
+  .node:hover rect { fill: var(--vscode-list-hoverBackground); }
+  .node text { fill: var(--vscode-foreground); font-size: 12px; }
+  .arrow { fill: var(--vscode-foreground); opacity: 0.6; }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <span class="summary" id="summary"></span>
+  <button data-command="refresh">Refresh</button>
+  <button data-command="export" data-format="dot">Export DOT</button>
+  <button data-command="export" data-format="json">Export JSON</button>
+</div>
+<svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg>
+<script nonce="${nonce}">
+(function () {
+  const vscode = acquireVsCodeApi();
+  const graph = ${data};
+  const SVG = "http://www.w3.org/2000/svg";
+  const svg = document.getElementById("graph");
+
+  document.getElementById("summary").textContent =
+    graph.name + ": " + graph.nodes.length + " files, " +
+    graph.edges.length + " referencing file pairs";
+  for (const button of document.querySelectorAll("button")) {
+    button.addEventListener("click", () =>
+      vscode.postMessage({ command: button.dataset.command, format: button.dataset.format }),
+    );
+  }
+
+  function plural(count, noun) {
+    return count + " " + noun + (count === 1 ? "" : "s");
+  }
+
+  function element(name, attributes, parent) {
+    const node = document.createElementNS(SVG, name);
+    for (const key in attributes) node.setAttribute(key, attributes[key]);
+    parent.appendChild(node);
+    return node;
+  }
+
+  const width = svg.clientWidth || 800;
+  const height = svg.clientHeight || 600;
+  const radius = Math.max(80, Math.min(width, height) / 2 - 60);
+  const positions = new Map();
+  graph.nodes.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / graph.nodes.length - Math.PI / 2;
+    positions.set(node.id, {
+      x: width / 2 + (graph.nodes.length > 1 ? radius * Math.cos(angle) : 0),
+      y: height / 2 + (graph.nodes.length > 1 ? radius * Math.sin(angle) : 0),
+    });
+  });
+
+  const defs = element("defs", {}, svg);
+  const marker = element("marker", {
+    id: "arrow", viewBox: "0 0 10 10", refX: "10", refY: "5",
+    markerWidth: "8", markerHeight: "8", orient: "auto-start-reverse",
+    markerUnits: "userSpaceOnUse",
+  }, defs);
+  element("path", { d: "M 0 0 L 10 5 L 0 10 z", class: "arrow" }, marker);
+
+  const maxWeight = Math.max(1, ...graph.edges.map((edge) => edge.weight));
+  for (const edge of graph.edges) {
+    const from = positions.get(edge.from);
+    const to = positions.get(edge.to);
+    if (!from || !to) continue;
+    // bend each edge a little so that edges in both directions stay apart
+    const mx = (from.x + to.x) / 2 + (to.y - from.y) * 0.1;
+    const my = (from.y + to.y) / 2 - (to.x - from.x) * 0.1;
+    const dx = to.x - mx;
+    const dy = to.y - my;
+    const length = Math.hypot(dx, dy) || 1;
+    const end = { x: to.x - (dx / length) * 22, y: to.y - (dy / length) * 22 };
+    const path = element("path", {
+      d: "M " + from.x + " " + from.y + " Q " + mx + " " + my + " " + end.x + " " + end.y,
+      class: "edge",
+      "stroke-width": String(1 + (5 * edge.weight) / maxWeight),
+      "marker-end": "url(#arrow)",
+    }, svg);
+    element("title", {}, path).textContent =
+      edge.from + " \\u2192 " + edge.to + ": " + plural(edge.weight, "usage") +
+      " (" + edge.handles.join(", ") + ")";
+    element("text", { x: String(mx), y: String(my), class: "edge-label", "text-anchor": "middle" }, svg)
+      .textContent = String(edge.weight);
+  }
+
+  for (const node of graph.nodes) {
+    const position = positions.get(node.id);
+    const group = element("g", { class: "node" }, svg);
+    const label = element("text", {
+      x: String(position.x), y: String(position.y + 4), "text-anchor": "middle",
+    }, group);
+    label.textContent = node.id;
+    const box = label.getBBox();
+    group.insertBefore(element("rect", {
+      x: String(box.x - 6), y: String(box.y - 4), rx: "3",
+      width: String(box.width + 12), height: String(box.height + 8),
+    }, group), label);
+    element("title", {}, group).textContent =
+      node.id + "\\n" + plural(node.definitionCount, "definition") + ", " +
+      plural(node.internalUsageCount, "usage") + " inside the file";
+    group.addEventListener("click", () =>
+      vscode.postMessage({ command: "open", id: node.id }),
+    );
+  }
+})();
+</script>
+</body>
+</html>`;
+  }
+}
+
+function createNonce(): string {
+  const characters =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+  let nonce = "";
+  for (let i = 0; i < 32; i++) {
+    nonce += characters.charAt(Math.floor(Math.random() * characters.length));
+  }
+  return nonce;
+}
@@ -0,0 +1,416 @@
+import * as vscode from "vscode";
+import {
+  LanguageClient,
+  TransportKind,
+  type LanguageClientOptions,
+  type ServerOptions,
+} from "vscode-languageclient/node";
+import { isWriterlyFilePath } from "./WriterlyFileExtensions";
+import {
+  FILENAME_CHARACTER_PATTERN,
+  getPathCompletionContext,
+} from "./WriterlyPathCompletionContext";
+import {
+  CREATE_HANDLE_DEFINITION_COMMAND,
+  HANDLE_DEFINITION_TARGETS_REQUEST,
+  HANDLE_GRAPH_REQUEST,
+  HANDLE_USAGES_REQUEST,
+  LANGUAGE_SERVER_ID,
+  LANGUAGE_SERVER_NAME,
+  OPEN_LOCATION_COMMAND,
+  SHOW_REFERENCES_COMMAND,
+  UNUSED_HANDLES_REQUEST,
+  type HandleDefinitionTargetsParams,
+  type HandleDefinitionTargetsResult,
+  type HandleGraphParams,
+  type HandleGraphResult,
+  type HandleUsageLocation,
+  type HandleUsagesParams,
+  type HandleUsagesResult,
+  type UnusedHandlesParams,
+  type UnusedHandlesResult,
+} from "./WriterlyProtocol";
+
+export type WriterlyDiagnosticStatus = "none" | "warning" | "error";
+
+const GO_TO_HANDLE_USAGE_COMMAND = "writerly.goToHandleUsage";
+const REMOVE_UNUSED_HANDLES_COMMAND = "writerly.removeUnusedHandles";
+
+/*
+ * WriterlyLanguageClient starts the Writerly language server (out/server) and
+ * connects it to VS Code. Handle links, diagnostics, definitions, renames and
+ * completions all come from the server; this class only adds what needs the
+ * editor UI: the go-to-handle-usage quick pick, the unused-handle cleanup
+ * quick pick, the command code actions use to open a location, the tag quick
+ * pick of the create-handle-definition quick fix, the command reference code
+ * lenses use to open the references peek, and re-opening path suggestions
+ * while a file name is typed.
+ */
+export class WriterlyLanguageClient {
+  private client: LanguageClient;
+
+  constructor(context: vscode.ExtensionContext) {
+    const serverModule = context.asAbsolutePath("out/server/server.js");
+    const serverOptions: ServerOptions = {
+      run: { module: serverModule, transport: TransportKind.stdio },
+      debug: {
+        module: serverModule,
+        transport: TransportKind.stdio,
+        options: { execArgv: ["--nolazy", "--inspect=6009"] },
+      },
+    };
+    const clientOptions: LanguageClientOptions = {
+      documentSelector: [{ scheme: "file", language: "writerly" }],
+      synchronize: {
+        configurationSection: "writerly",
+        fileEvents: vscode.workspace.createFileSystemWatcher("**/*"),
+      },
+      middleware: {
+        // The server answers null for anything but handles. The client turns
+        // that into an error, which would stop VS Code from asking the file
+        // renamer; undefined lets the next rename provider try.
+        prepareRename: async (document, position, token, next) => {
+          try {
+            return await next(document, position, token);
+          } catch {
+            return undefined;
+          }
+        },
+      },
+    };
+
+    this.client = new LanguageClient(
+      LANGUAGE_SERVER_ID,
+      LANGUAGE_SERVER_NAME,
+      serverOptions,
+      clientOptions,
+    );
+
+    context.subscriptions.push(
+      this.client,
+      vscode.commands.registerCommand(GO_TO_HANDLE_USAGE_COMMAND, () =>
+        this.goToHandleUsage(),
+      ),
+      vscode.commands.registerCommand(REMOVE_UNUSED_HANDLES_COMMAND, () =>
+        this.removeUnusedHandles(),
+      ),
+      vscode.commands.registerCommand(
+        OPEN_LOCATION_COMMAND,
+        (uri: string, range: HandleUsageLocation["range"]) =>
+          this.openLocation(uri, range),
+      ),
+      vscode.commands.registerCommand(
+        CREATE_HANDLE_DEFINITION_COMMAND,
+        (
+          uri: string,
+          handleName: string,
+          position: HandleUsageLocation["range"]["start"],
+        ) => this.createHandleDefinition(uri, handleName, position),
+      ),
+      vscode.commands.registerCommand(
+        SHOW_REFERENCES_COMMAND,
+        (
+          uri: string,
+          position: HandleUsageLocation["range"]["start"],
+          locations: { uri: string; range: HandleUsageLocation["range"] }[],
+        ) => this.showReferences(uri, position, locations),
+      ),
+      vscode.workspace.onDidChangeTextDocument((event) => {
+        this.retriggerPathCompletionAfterFilenameCharacter(event);
+      }),
+    );
+
+    void this.client.start().catch((error) => {
+      console.error("Writerly language server failed to start:", error);
+    });
+  }
+
+  /**
+   * Restarts the language server, which re-indexes the workspace.
+   * Called by the WriterlyController.
+   */
+  public async reset(): Promise<void> {
+    await this.client.restart();
+  }
+
+  /**
+   * Asks the server for the handle reference graph of the document tree
+   * `uri` belongs to. Called by the WriterlyHandleGraphView.
+   */
+  public async getHandleGraph(uri: string): Promise<HandleGraphResult> {
+    const params: HandleGraphParams = { textDocument: { uri } };
+    try {
+      return await this.client.sendRequest(HANDLE_GRAPH_REQUEST, params);
+    } catch {
+      return { kind: "indexing" };
+    }
+  }
+
+  public getDiagnosticStatus(fsPath: string): WriterlyDiagnosticStatus {
+    const diagnostics =
+      this.client.diagnostics?.get(vscode.Uri.file(fsPath)) ?? [];
+
+    if (
+      diagnostics.some(
+        (diagnostic) =>
+          diagnostic.severity === vscode.DiagnosticSeverity.Error,
+      )
+    ) {
+      return "error";
+    }
+    if (
+      diagnostics.some(
+        (diagnostic) =>
+          diagnostic.severity === vscode.DiagnosticSeverity.Warning,
+      )
+    ) {
+      return "warning";
+    }
+    return "none";
+  }
+
+  private async goToHandleUsage(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || !isWriterlyFilePath(editor.document.uri.fsPath)) {
+      vscode.window.showErrorMessage(
+        "Open a Writerly file and place the cursor on a handle.",
+      );
+      return;
+    }
+
+    const params: HandleUsagesParams = {
+      textDocument: { uri: editor.document.uri.toString() },
+      position: {
+        line: editor.selection.active.line,
+        character: editor.selection.active.character,
+      },
+    };
+    let result: HandleUsagesResult;
+    try {
+      result = await this.client.sendRequest(HANDLE_USAGES_REQUEST, params);
+    } catch {
+      result = { kind: "indexing" };
+    }
+
+    if (result.kind === "indexing") {
+      vscode.window.showErrorMessage("Writerly handles are still indexing.");
+      return;
+    }
+    if (result.kind === "noHandle") {
+      vscode.window.showErrorMessage("No handle found under cursor.");
+      return;
+    }
+
+    const usages = result.usages;
+    if (usages.length === 0) {
+      vscode.window.showErrorMessage(
+        `Handle '${result.handleName}' is not used in this document tree.`,
+      );
+      return;
+    }
+
+    if (usages.length === 1) {
+      await this.openLocation(usages[0].uri, usages[0].range);
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      usages.map((usage) => ({
+        label: `${usage.displayPath}:${usage.range.start.line + 1}`,
+        description: result.handleName,
+        detail: usage.preview,
+        usage,
+      })),
+      {
+        placeHolder: `Select usage of '${result.handleName}'`,
+        matchOnDescription: true,
+        matchOnDetail: true,
+      },
+    );
+    if (!selected) return;
+
+    await this.openLocation(selected.usage.uri, selected.usage.range);
+  }
+
+  private async removeUnusedHandles(): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    const params: UnusedHandlesParams = {};
+    if (editor && isWriterlyFilePath(editor.document.uri.fsPath)) {
+      const scope = await vscode.window.showQuickPick(
+        [
+          { label: "Current document tree", tree: true },
+          { label: "Whole workspace", tree: false },
+        ],
+        { placeHolder: "Where to look for unused handle definitions" },
+      );
+      if (!scope) return;
+      if (scope.tree) {
+        params.textDocument = { uri: editor.document.uri.toString() };
+      }
+    }
+
+    let result: UnusedHandlesResult;
+    try {
+      result = await this.client.sendRequest(UNUSED_HANDLES_REQUEST, params);
+    } catch {
+      result = { kind: "indexing" };
+    }
+
+    if (result.kind === "indexing") {
+      vscode.window.showErrorMessage("Writerly handles are still indexing.");
+      return;
+    }
+    if (result.definitions.length === 0) {
+      vscode.window.showInformationMessage("No unused handle definitions found.");
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      result.definitions.map((definition) => ({
+        label: definition.handleName,
+        description: `${definition.displayPath}:${definition.range.start.line + 1}`,
+        detail: definition.preview,
+        definition,
+      })),
+      {
+        placeHolder: "Select the unused handle definitions to remove",
+        canPickMany: true,
+        matchOnDescription: true,
+      },
+    );
+    if (!selected || selected.length === 0) return;
+
+    const converter = this.client.protocol2CodeConverter;
+    const edit = new vscode.WorkspaceEdit();
+    for (const { definition } of selected) {
+      edit.replace(
+        converter.asUri(definition.uri),
+        converter.asRange(definition.edit.range),
+        definition.edit.newText,
+      );
+    }
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      vscode.window.showErrorMessage(
+        "The unused handle definitions could not be removed.",
+      );
+      return;
+    }
+    vscode.window.showInformationMessage(
+      `Removed ${selected.length} unused handle ${selected.length === 1 ? "definition" : "definitions"}.`,
+    );
+  }
+
+  private async openLocation(
+    uri: string,
+    range: HandleUsageLocation["range"],
+  ): Promise<void> {
+    const selection = new vscode.Range(
+      range.start.line,
+      range.start.character,
+      range.end.line,
+      range.end.character,
+    );
+    const document = await vscode.workspace.openTextDocument(
+      vscode.Uri.parse(uri),
+    );
+    const editor = await vscode.window.showTextDocument(document, {
+      preview: false,
+      selection,
+    });
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenter);
+  }
+
+  private async createHandleDefinition(
+    uri: string,
+    handleName: string,
+    position: HandleUsageLocation["range"]["start"],
+  ): Promise<void> {
+    const params: HandleDefinitionTargetsParams = {
+      textDocument: { uri },
+      handleName,
+      position,
+    };
+    let result: HandleDefinitionTargetsResult;
+    try {
+      result = await this.client.sendRequest(
+        HANDLE_DEFINITION_TARGETS_REQUEST,
+        params,
+      );
+    } catch {
+      result = { kind: "indexing" };
+    }
+
+    if (result.kind === "indexing") {
+      vscode.window.showErrorMessage("Writerly handles are still indexing.");
+      return;
+    }
+    if (result.targets.length === 0) {
+      vscode.window.showErrorMessage(
+        `No tag in this document tree can hold a definition of '${handleName}'.`,
+      );
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      result.targets.map((target) => ({
+        label: target.tagPath.join(" > "),
+        description: `${target.displayPath}:${target.line + 1}`,
+        target,
+      })),
+      {
+        placeHolder: `Select the tag to define '${handleName}' on`,
+        matchOnDescription: true,
+      },
+    );
+    if (!selected) return;
+
+    const { target } = selected;
+    const converter = this.client.protocol2CodeConverter;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      converter.asUri(target.uri),
+      converter.asRange(target.edit.range),
+      target.edit.newText,
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) return;
+
+    if (target.uri !== uri) {
+      const line = target.line + 1;
+      await this.openLocation(target.uri, {
+        start: { line, character: 0 },
+        end: { line, character: 0 },
+      });
+    }
+  }
+
+  private async showReferences(
+    uri: string,
+    position: HandleUsageLocation["range"]["start"],
+    locations: { uri: string; range: HandleUsageLocation["range"] }[],
+  ): Promise<void> {
+    const converter = this.client.protocol2CodeConverter;
+    await vscode.commands.executeCommand(
+      "editor.action.showReferences",
+      converter.asUri(uri),
+      converter.asPosition(position),
+      locations.map((location) => converter.asLocation(location)),
+    );
+  }
+
+  private retriggerPathCompletionAfterFilenameCharacter(
+    event: vscode.TextDocumentChangeEvent,
+  ): void {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document !== event.document) return;
+    if (!isWriterlyFilePath(event.document.uri.fsPath)) return;
+    if (event.contentChanges.length !== 1) return;
+
+    const change = event.contentChanges[0];
+    if (!FILENAME_CHARACTER_PATTERN.test(change.text)) return;
+
+    const position = change.range.start.translate(0, change.text.length);
+    if (!getPathCompletionContext(event.document, position)) return;
+
+    void vscode.commands.executeCommand("editor.action.triggerSuggest");
+  }
+}
@@ -0,0 +1,684 @@
+import { Position, Range } from "vscode-languageserver-types";
+import {
+  LineType,
+  State,
+  WriterlyDocumentWalker,
+} from "./WriterlyDocumentWalker";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
+
+/*
+ * WriterlyParser turns the line classification produced by
+ * WriterlyDocumentWalker into a typed syntax tree:
+ *
+ * - root: top-level nodes of the file
+ * - tag: a `|>` line together with its attribute lines and indented children
+ * - attribute: a `key=value` line in a tag's attribute zone
+ * - text: a run of consecutive text lines at one indentation
+ * - comment: a `!!` line, in either the attribute or the text zone
+ * - codeBlock: a fenced code block from its opening to its closing fence
+ *
+ * Ownership follows indentation exactly as the walker tracks it: a line
+ * belongs to the innermost tag with a strictly smaller indentation, and every
+ * line between two code fences belongs to that code block.
+ *
+ * Every line of the document is also kept as a WriterlyLine record holding the
+ * walker states around it, so providers can ask "what is this line" and "which
+ * tag owns this line" without walking the document again.
+ *
+ * The line records double as walker checkpoints. When a document changes,
+ * parse() re-walks from the first changed line only until the walker state
+ * matches the state recorded by the previous walk, and reuses the records of
+ * every line after that point. When lines were inserted or removed, those
+ * records are copied with shifted line numbers, so the previous tree stays
+ * valid for whoever still holds it. A reused record and its copies share one
+ * `identity`, so callers can cache per-line facts keyed by it and only
+ * recompute them for the records that were rebuilt. Nodes are built lazily
+ * from the line records the first time a tree is queried for them.
+ */
+
+export type WriterlyNode =
+  | WriterlyTagNode
+  | WriterlyTextNode
+  | WriterlyCommentNode
+  | WriterlyCodeBlockNode;
+
+export type WriterlyParentNode = WriterlyRootNode | WriterlyTagNode;
+
+export type WriterlyRootNode = {
+  kind: "root";
+  children: WriterlyNode[];
+  range: Range;
+};
+
+export type WriterlyTagNode = {
+  kind: "tag";
+  name: string;
+  indent: number;
+  nameRange: Range;
+  range: Range;
+  attributes: WriterlyAttributeNode[];
+  children: WriterlyNode[];
+  parent: WriterlyParentNode;
+};
+
+export type WriterlyAttributeNode = {
+  kind: "attribute";
+  key: string;
+  value: string;
+  indent: number;
+  keyRange: Range;
+  valueRange: Range;
+  range: Range;
+  parent: WriterlyTagNode;
+};
+
+export type WriterlyTextNode = {
+  kind: "text";
+  indent: number;
+  lines: string[];
+  range: Range;
+  parent: WriterlyParentNode;
+};
+
+export type WriterlyCommentNode = {
+  kind: "comment";
+  zone: "attribute" | "text";
+  indent: number;
+  text: string;
+  range: Range;
+  parent: WriterlyParentNode;
+};
+
+export type WriterlyCodeBlockNode = {
+  kind: "codeBlock";
+  indent: number;
+  info: string;
+  lines: string[];
+  openingRange: Range;
+  closingRange: Range | undefined;
+  range: Range;
+  parent: WriterlyParentNode;
+};
+
+export type WriterlyLine = {
+  lineNumber: number;
+  text: string;
+  lineType: LineType;
+  indent: number;
+  content: string;
+  stateBeforeLine: State;
+  stateAfterLine: State;
+  /** Shared by the copies a re-parse makes of a record it reuses. */
+  readonly identity: object;
+};
+
+type WriterlyTreeStructure = {
+  root: WriterlyRootNode;
+  nodes: (WriterlyNode | WriterlyAttributeNode | undefined)[];
+  owners: WriterlyParentNode[];
+};
+
+export class WriterlySyntaxTree {
+  private structure: WriterlyTreeStructure | undefined;
+
+  constructor(
+    public readonly lines: readonly WriterlyLine[],
+    public readonly finalState: State,
+  ) {}
+
+  public get root(): WriterlyRootNode {
+    return this.getStructure().root;
+  }
+
+  public lineAt(lineNumber: number): WriterlyLine | undefined {
+    return this.lines[lineNumber];
+  }
+
+  public lineTypeAt(lineNumber: number): LineType | undefined {
+    return this.lines[lineNumber]?.lineType;
+  }
+
+  /**
+   * Returns the node a line contributes to: the tag of a `|>` line, the
+   * attribute of an attribute line, the text run, comment or code block it is
+   * part of, or undefined for empty text-zone lines.
+   */
+  public nodeAt(
+    lineNumber: number,
+  ): WriterlyNode | WriterlyAttributeNode | undefined {
+    return this.getStructure().nodes[lineNumber];
+  }
+
+  /**
+   * Returns the innermost tag (or the root) a line belongs to.
+   */
+  public ownerAt(lineNumber: number): WriterlyParentNode | undefined {
+    return this.getStructure().owners[lineNumber];
+  }
+
+  /**
+   * Returns the tag a line belongs to: the tag itself for `|>` and attribute
+   * lines, otherwise the innermost enclosing tag.
+   */
+  public getTagAt(lineNumber: number): WriterlyTagNode | undefined {
+    const node = this.nodeAt(lineNumber);
+    if (node?.kind === "tag") return node;
+    if (node?.kind === "attribute") return node.parent;
+    const owner = this.ownerAt(lineNumber);
+    return owner?.kind === "tag" ? owner : undefined;
+  }
+
+  public getAttributes(tag: WriterlyTagNode): WriterlyAttributeNode[] {
+    return tag.attributes;
+  }
+
+  public getAttribute(
+    tag: WriterlyTagNode,
+    key: string,
+  ): WriterlyAttributeNode | undefined {
+    return tag.attributes.find((attribute) => attribute.key === key);
+  }
+
+  public getAllTags(): WriterlyTagNode[] {
+    const tags: WriterlyTagNode[] = [];
+    const visit = (nodes: readonly WriterlyNode[]) => {
+      for (const node of nodes) {
+        if (node.kind !== "tag") continue;
+        tags.push(node);
+        visit(node.children);
+      }
+    };
+    visit(this.root.children);
+    return tags;
+  }
+
+  public getAllAttributes(): WriterlyAttributeNode[] {
+    return this.getAllTags().flatMap((tag) => tag.attributes);
+  }
+
+  /**
+   * Returns the chain of tags enclosing a line, outermost first.
+   */
+  public getTagPathAt(lineNumber: number): WriterlyTagNode[] {
+    const tags: WriterlyTagNode[] = [];
+    let current: WriterlyParentNode | undefined = this.getTagAt(lineNumber);
+    while (current && current.kind === "tag") {
+      tags.unshift(current);
+      current = current.parent;
+    }
+    return tags;
+  }
+
+  private getStructure(): WriterlyTreeStructure {
+    if (!this.structure) this.structure = buildStructure(this.lines);
+    return this.structure;
+  }
+}
+
+let parsedTrees = new WeakMap<
+  WriterlyTextDocument,
+  { version: number; tree: WriterlySyntaxTree }
+>();
+
+export class WriterlyParser {
+  /**
+   * Parses a document, reusing the tree of the same document version when one
+   * was already built, and re-walking only the changed region when an older
+   * version of the same document was parsed before.
+   */
+  public static parse(document: WriterlyTextDocument): WriterlySyntaxTree {
+    const cached = parsedTrees.get(document);
+    if (cached && cached.version === document.version) return cached.tree;
+
+    const tree = cached
+      ? this.reparse(document, cached.tree)
+      : this.walkFrom(document, [], WriterlyDocumentWalker.initialState());
+    parsedTrees.set(document, { version: document.version, tree });
+    return tree;
+  }
+
+  /**
+   * Drops every cached tree so the next parse() of any document starts over.
+   */
+  public static reset(): void {
+    parsedTrees = new WeakMap();
+  }
+
+  private static reparse(
+    document: WriterlyTextDocument,
+    previous: WriterlySyntaxTree,
+  ): WriterlySyntaxTree {
+    const oldLines = previous.lines;
+    const lineCount = document.lineCount;
+    const limit = Math.min(oldLines.length, lineCount);
+
+    let prefix = 0;
+    while (
+      prefix < limit &&
+      oldLines[prefix].text === document.lineAt(prefix).text
+    ) {
+      prefix++;
+    }
+    if (prefix === oldLines.length && prefix === lineCount) return previous;
+
+    let suffix = 0;
+    while (
+      suffix < limit - prefix &&
+      oldLines[oldLines.length - 1 - suffix].text ===
+        document.lineAt(lineCount - 1 - suffix).text
+    ) {
+      suffix++;
+    }
+
+    const change: LineShift = {
+      oldEnd: oldLines.length - suffix,
+      delta: lineCount - oldLines.length,
+    };
+    const state =
+      prefix > 0
+        ? { ...oldLines[prefix - 1].stateAfterLine }
+        : WriterlyDocumentWalker.initialState();
+    return this.walkFrom(
+      document,
+      oldLines.slice(0, prefix),
+      state,
+      previous,
+      change,
+    );
+  }
+
+  /**
+   * Walks the document from the line after `lines` onwards. Given a previous
+   * tree and the shape of the edit, stops at the first line past the edit
+   * whose incoming state matches the previous walk and adopts the previous
+   * records from there on.
+   */
+  private static walkFrom(
+    document: WriterlyTextDocument,
+    lines: WriterlyLine[],
+    state: State,
+    previous?: WriterlySyntaxTree,
+    change?: LineShift,
+  ): WriterlySyntaxTree {
+    for (
+      let lineNumber = lines.length;
+      lineNumber < document.lineCount;
+      lineNumber++
+    ) {
+      if (previous && change && lineNumber >= change.oldEnd + change.delta) {
+        const oldLineNumber = lineNumber - change.delta;
+        const checkpoint =
+          oldLineNumber > 0
+            ? previous.lines[oldLineNumber - 1].stateAfterLine
+            : WriterlyDocumentWalker.initialState();
+        if (
+          WriterlyDocumentWalker.statesEqual(
+            state,
+            shiftState(checkpoint, change),
+          )
+        ) {
+          for (const line of previous.lines.slice(oldLineNumber)) {
+            lines.push(shiftLine(line, change));
+          }
+          return new WriterlySyntaxTree(
+            lines,
+            shiftState(previous.finalState, change),
+          );
+        }
+      }
+
+      const text = document.lineAt(lineNumber).text;
+      const stateBeforeLine = { ...state };
+      const { lineType, indent, content } = WriterlyDocumentWalker.walkLine(
+        state,
+        lineNumber,
+        text,
+      );
+      lines.push({
+        lineNumber,
+        text,
+        lineType,
+        indent,
+        content,
+        stateBeforeLine,
+        stateAfterLine: { ...state },
+        identity: {},
+      });
+    }
+
+    return new WriterlySyntaxTree(lines, state);
+  }
+}
+
+/**
+ * Describes an edit for the records after it: lines at or past `oldEnd` in the
+ * previous walk moved by `delta`.
+ */
+type LineShift = {
+  oldEnd: number;
+  delta: number;
+};
+
+function shiftState(state: State, change: LineShift): State {
+  if (change.delta === 0 || state.codeBlockStartLineNumber < change.oldEnd) {
+    return state;
+  }
+  return {
+    ...state,
+    codeBlockStartLineNumber: state.codeBlockStartLineNumber + change.delta,
+  };
+}
+
+function shiftLine(line: WriterlyLine, change: LineShift): WriterlyLine {
+  if (change.delta === 0) return line;
+  return {
+    ...line,
+    lineNumber: line.lineNumber + change.delta,
+    stateBeforeLine: shiftState(line.stateBeforeLine, change),
+    stateAfterLine: shiftState(line.stateAfterLine, change),
+  };
+}
+
+function buildStructure(lines: readonly WriterlyLine[]): WriterlyTreeStructure {
+  const lastLine = lines[lines.length - 1];
+  const root: WriterlyRootNode = {
+    kind: "root",
+    children: [],
+    range: Range.create(
+      0,
+      0,
+      lastLine?.lineNumber ?? 0,
+      lastLine?.text.length ?? 0,
+    ),
+  };
+  const nodes: WriterlyTreeStructure["nodes"] = [];
+  const owners: WriterlyParentNode[] = [];
+  const builder = new TreeBuilder(root);
+
+  for (const { lineType, lineNumber, indent, content } of lines) {
+    const owner = builder.ownerForLine(lineType, indent, content);
+    owners.push(owner);
+    nodes.push(builder.addLine(owner, lineType, lineNumber, indent, content));
+  }
+
+  return { root, nodes, owners };
+}
+
+class TreeBuilder {
+  private readonly openTags: WriterlyTagNode[] = [];
+  private currentText: WriterlyTextNode | undefined;
+  private currentCodeBlock: WriterlyCodeBlockNode | undefined;
+
+  constructor(private readonly root: WriterlyRootNode) {}
+
+  public ownerForLine(
+    lineType: LineType,
+    indent: number,
+    content: string,
+  ): WriterlyParentNode {
+    if (
+      lineType === LineType.CodeBlockLine ||
+      lineType === LineType.CodeBlockClosing ||
+      content === ""
+    ) {
+      return this.currentParent();
+    }
+
+    if (
+      lineType !== LineType.Attribute &&
+      lineType !== LineType.AttributeZoneComment
+    ) {
+      while (
+        this.openTags.length > 0 &&
+        this.openTags[this.openTags.length - 1].indent >= indent
+      ) {
+        this.openTags.pop();
+      }
+    }
+
+    return this.currentParent();
+  }
+
+  public addLine(
+    owner: WriterlyParentNode,
+    lineType: LineType,
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyNode | WriterlyAttributeNode | undefined {
+    if (lineType !== LineType.Text) this.currentText = undefined;
+
+    switch (lineType) {
+      case LineType.Tag:
+        return this.addTag(owner, lineNumber, indent, content);
+      case LineType.Attribute:
+        return this.addAttribute(owner, lineNumber, indent, content);
+      case LineType.AttributeZoneComment:
+        return this.addComment(owner, "attribute", lineNumber, indent, content);
+      case LineType.TextZoneComment:
+        return this.addComment(owner, "text", lineNumber, indent, content);
+      case LineType.Text:
+        return this.addText(owner, lineNumber, indent, content);
+      case LineType.CodeBlockOpening:
+        return this.openCodeBlock(owner, lineNumber, indent, content);
+      case LineType.CodeBlockLine:
+        return this.addCodeBlockLine(lineNumber, indent, content);
+      case LineType.CodeBlockClosing:
+        return this.closeCodeBlock(lineNumber, indent, content);
+      case LineType.TextZoneEmptyLine:
+        return undefined;
+    }
+  }
+
+  private currentParent(): WriterlyParentNode {
+    return this.openTags[this.openTags.length - 1] ?? this.root;
+  }
+
+  private addTag(
+    owner: WriterlyParentNode,
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyTagNode {
+    const afterMarker = content.slice(2);
+    const nameOffset = afterMarker.length - afterMarker.trimStart().length;
+    const name = afterMarker.trim();
+    const nameStart = indent + 2 + nameOffset;
+    const range = lineRange(lineNumber, indent, indent + content.length);
+    const tag: WriterlyTagNode = {
+      kind: "tag",
+      name,
+      indent,
+      nameRange: lineRange(lineNumber, nameStart, nameStart + name.length),
+      range,
+      attributes: [],
+      children: [],
+      parent: owner,
+    };
+    this.appendChild(owner, tag);
+    this.openTags.push(tag);
+    return tag;
+  }
+
+  private addAttribute(
+    owner: WriterlyParentNode,
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyAttributeNode | undefined {
+    if (owner.kind !== "tag") return undefined;
+
+    const equalsIndex = content.indexOf("=");
+    const key = content.slice(0, equalsIndex);
+    const afterEquals = content.slice(equalsIndex + 1);
+    const value = afterEquals.trimStart();
+    const valueStart = indent + equalsIndex + 1 + afterEquals.length - value.length;
+    const attribute: WriterlyAttributeNode = {
+      kind: "attribute",
+      key,
+      value,
+      indent,
+      keyRange: lineRange(lineNumber, indent, indent + key.length),
+      valueRange: lineRange(lineNumber, valueStart, valueStart + value.length),
+      range: lineRange(lineNumber, indent, indent + content.length),
+      parent: owner,
+    };
+    owner.attributes.push(attribute);
+    this.extendAncestors(owner, lineNumber, indent + content.length);
+    return attribute;
+  }
+
+  private addComment(
+    owner: WriterlyParentNode,
+    zone: "attribute" | "text",
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyCommentNode {
+    const comment: WriterlyCommentNode = {
+      kind: "comment",
+      zone,
+      indent,
+      text: content.slice(2),
+      range: lineRange(lineNumber, indent, indent + content.length),
+      parent: owner,
+    };
+    this.appendChild(owner, comment);
+    return comment;
+  }
+
+  private addText(
+    owner: WriterlyParentNode,
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyTextNode {
+    const current = this.currentText;
+    if (
+      current &&
+      current.parent === owner &&
+      current.indent === indent &&
+      current.range.end.line === lineNumber - 1
+    ) {
+      current.lines.push(content);
+      current.range = Range.create(
+        current.range.start,
+        Position.create(lineNumber, indent + content.length),
+      );
+      this.extendAncestors(owner, lineNumber, indent + content.length);
+      return current;
+    }
+
+    const text: WriterlyTextNode = {
+      kind: "text",
+      indent,
+      lines: [content],
+      range: lineRange(lineNumber, indent, indent + content.length),
+      parent: owner,
+    };
+    this.appendChild(owner, text);
+    this.currentText = text;
+    return text;
+  }
+
+  private openCodeBlock(
+    owner: WriterlyParentNode,
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyCodeBlockNode {
+    const openingRange = lineRange(lineNumber, indent, indent + content.length);
+    const codeBlock: WriterlyCodeBlockNode = {
+      kind: "codeBlock",
+      indent,
+      info: content.slice(3),
+      lines: [],
+      openingRange,
+      closingRange: undefined,
+      range: openingRange,
+      parent: owner,
+    };
+    this.appendChild(owner, codeBlock);
+    this.currentCodeBlock = codeBlock;
+    return codeBlock;
+  }
+
+  private addCodeBlockLine(
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyCodeBlockNode | undefined {
+    const codeBlock = this.currentCodeBlock;
+    if (!codeBlock) return undefined;
+
+    const relativeIndent = Math.max(indent - codeBlock.indent, 0);
+    codeBlock.lines.push(" ".repeat(relativeIndent) + content);
+    if (content !== "") {
+      codeBlock.range = Range.create(
+        codeBlock.range.start,
+        Position.create(lineNumber, indent + content.length),
+      );
+      this.extendAncestors(codeBlock.parent, lineNumber, indent + content.length);
+    }
+    return codeBlock;
+  }
+
+  private closeCodeBlock(
+    lineNumber: number,
+    indent: number,
+    content: string,
+  ): WriterlyCodeBlockNode | undefined {
+    const codeBlock = this.currentCodeBlock;
+    if (!codeBlock) return undefined;
+
+    codeBlock.closingRange = lineRange(
+      lineNumber,
+      indent,
+      indent + content.length,
+    );
+    codeBlock.range = Range.create(
+      codeBlock.range.start,
+      codeBlock.closingRange.end,
+    );
+    this.extendAncestors(codeBlock.parent, lineNumber, indent + content.length);
+    this.currentCodeBlock = undefined;
+    return codeBlock;
+  }
+
+  private appendChild(owner: WriterlyParentNode, node: WriterlyNode): void {
+    owner.children.push(node);
+    this.extendAncestors(owner, node.range.end.line, node.range.end.character);
+  }
+
+  private extendAncestors(
+    owner: WriterlyParentNode,
+    lineNumber: number,
+    character: number,
+  ): void {
+    let current: WriterlyParentNode = owner;
+    while (current.kind === "tag") {
+      this.extendToLine(current, lineNumber, character);
+      current = current.parent;
+    }
+  }
+
+  private extendToLine(
+    tag: WriterlyTagNode,
+    lineNumber: number,
+    character: number,
+  ): void {
+    if (tag.range.end.line >= lineNumber) return;
+    tag.range = Range.create(
+      tag.range.start,
+      Position.create(lineNumber, character),
+    );
+  }
+}
+
+function lineRange(
+  lineNumber: number,
+  start: number,
+  end: number,
+): Range {
+  return Range.create(lineNumber, start, lineNumber, end);
+}
@@ -0,0 +1,81 @@
+import { LineType } from "./WriterlyDocumentWalker";
+import { WriterlyParser } from "./WriterlyParser";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
+
+export type PathCompletionContext = {
+  fullTypedPath: string;
+};
+
+export const PATH_COMPLETION_TRIGGER_CHARACTERS = [
+  "=",
+  " ",
+  "/",
+  "(",
+  ".",
+  "-",
+  "_",
+];
+export const FILENAME_CHARACTER_PATTERN = /^[A-Za-z0-9._-]$/;
+const PATH_ATTRIBUTE_NAMES = new Set([
+  "original",
+  "href",
+  "srcset",
+  "poster",
+  "data",
+  "background",
+  "icon",
+  "favicon",
+  "image",
+  "logo",
+  "thumbnail",
+  "preview",
+  "cover",
+  "file",
+  "path",
+  "url",
+  "uri",
+  "source",
+  "use",
+]);
+
+/**
+ * Returns the path typed so far when the cursor sits in the value of a
+ * path-bearing attribute or in the target of a markdown link. Shared by the
+ * language server's path completion and the client, which re-opens the
+ * suggest widget while a file name is being typed.
+ */
+export function getPathCompletionContext(
+  document: WriterlyTextDocument,
+  position: { line: number; character: number },
+): PathCompletionContext | undefined {
+  const linePrefix = document
+    .lineAt(position.line)
+    .text.substring(0, position.character);
+
+  const attributeMatch = linePrefix.match(
+    /(?:^|\s)([A-Za-z0-9_.:-]+)=\s*(\S*)$/,
+  );
+  if (attributeMatch) {
+    if (!isPathAttributeName(attributeMatch[1])) return undefined;
+
+    const lineType = WriterlyParser.parse(document).lineTypeAt(position.line);
+    return lineType === LineType.Attribute
+      ? { fullTypedPath: attributeMatch[2] }
+      : undefined;
+  }
+
+  const markdownLinkMatch = linePrefix.match(/!?\[[^\]]*\]\(([^)\s]*)$/);
+  if (markdownLinkMatch) {
+    const lineType = WriterlyParser.parse(document).lineTypeAt(position.line);
+    return lineType === LineType.Text
+      ? { fullTypedPath: markdownLinkMatch[1] }
+      : undefined;
+  }
+
+  return undefined;
+}
+
+function isPathAttributeName(attributeName: string): boolean {
+  const normalized = attributeName.toLowerCase();
+  return normalized.endsWith("src") || PATH_ATTRIBUTE_NAMES.has(normalized);
+}
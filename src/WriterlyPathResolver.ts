@@ -0,0 +1,280 @@
+import * as path from "path";
+import {
+  isPathUnderDirectory,
+  steinbergerDistance,
+} from "./WriterlyDocumentTrees";
+import type { WriterlyFileSystem } from "./WriterlyFileSystem";
+
+const forbiddenChars = /[\s'"=\[\]\{\}\(\);!<>|]/;
+const skippedDirectoryNames = new Set(["node_modules", "dist", "build"]);
+
+export type FileResolution =
+  | { kind: "notFound" }
+  | { kind: "unique"; fsPath: string }
+  | {
+      kind: "resolvedAmbiguous";
+      fsPath: string;
+      alternatives: string[];
+      reason: "closestAncestor" | "containerDistance";
+    }
+  | { kind: "ambiguous"; fsPaths: string[] };
+
+export type DirectoryResolution = FileResolution;
+
+export type DirectoryResolutionOptions = {
+  rootRelativeTo?: string;
+  resolutionRoot?: string;
+};
+
+export type PossiblePath = {
+  start: number;
+  end: number;
+  path: string;
+};
+
+/**
+ * Returns the run of path characters around `character` in a line of text.
+ */
+export function getPossiblePathAt(text: string, character: number): PossiblePath {
+  const end = moveCursorForwardWhileNotForbidden(text, character);
+  const start = moveCursorBackwardWhileNotForbidden(text, character);
+  return { start, end, path: text.substring(start, end) };
+}
+
+/*
+ * WriterlyPathResolver resolves the file and directory references written in
+ * Writerly documents against the files of a workspace. A bare reference matches
+ * by trailing path segments anywhere in the workspace; ambiguous matches are
+ * ranked by closest common ancestor or by distance from a document root.
+ */
+export class WriterlyPathResolver {
+  constructor(private readonly fileSystem: WriterlyFileSystem) {}
+
+  public async fileExists(filePath: string): Promise<boolean> {
+    const files = await this.findMatchingFilePaths(filePath, 1);
+    return files.length > 0;
+  }
+
+  public resolvePossibleFilePaths(filePath: string): Promise<string[]> {
+    return this.findMatchingFilePaths(filePath);
+  }
+
+  public async resolveUniqueFilePath(
+    filePath: string,
+    options: DirectoryResolutionOptions = {},
+  ): Promise<FileResolution> {
+    const files = await this.findMatchingFilePaths(
+      filePath,
+      options.rootRelativeTo || options.resolutionRoot ? undefined : 2,
+    );
+    return resolveBestPath(files, options, true);
+  }
+
+  public async resolveDirectoryPath(
+    dirPath: string,
+    options: DirectoryResolutionOptions = {},
+  ): Promise<DirectoryResolution> {
+    const dirs = await this.resolvePossibleDirPaths(dirPath, options);
+    return resolveBestPath(dirs, options, false);
+  }
+
+  /**
+   * Bare paths are matched by trailing path segments anywhere in the workspace.
+   * Paths beginning with "./" are matched relative to workspace folders
+   * containing `rootRelativeTo`.
+   */
+  public async resolvePossibleDirPaths(
+    dirPath: string,
+    options: DirectoryResolutionOptions = {},
+  ): Promise<string[]> {
+    const folders = this.fileSystem.getWorkspaceFolders();
+    if (folders.length === 0) return [];
+
+    if (isWorkspaceRootRelativePath(dirPath)) {
+      return this.resolveWorkspaceRootRelativeDirPaths(dirPath, options);
+    }
+
+    const sub = dirPath.replace(/^\/+|\/+$/g, "");
+    if (!sub) return [];
+    const subParts = sub.split("/").filter((p) => p !== ".");
+    if (subParts.length === 0) return [];
+
+    const matches: string[] = [];
+
+    const walk = async (dirPath: string): Promise<void> => {
+      const entries = await this.fileSystem.readDirectory(dirPath);
+      for (const [name, type] of entries) {
+        if (type !== "directory") continue;
+        if (skippedDirectoryNames.has(name) || name.startsWith(".")) continue;
+        const childPath = path.join(dirPath, name);
+        const childParts = childPath.split(path.sep);
+        if (
+          childParts.length >= subParts.length &&
+          subParts.every(
+            (p, j) => childParts[childParts.length - subParts.length + j] === p,
+          )
+        ) {
+          matches.push(childPath);
+        }
+        await walk(childPath);
+      }
+    };
+
+    for (const folder of folders) await walk(folder.fsPath);
+    return matches;
+  }
+
+  /**
+   * Returns the absolute paths of every file contained in `dirPath` and its
+   * sub-directories (recursively).
+   */
+  public async listFilesRecursively(dirPath: string): Promise<string[]> {
+    const result: string[] = [];
+
+    const walk = async (dirPath: string): Promise<void> => {
+      const entries = await this.fileSystem.readDirectory(dirPath);
+      for (const [name, type] of entries) {
+        const childPath = path.join(dirPath, name);
+        if (type === "directory") {
+          await walk(childPath);
+        } else {
+          result.push(childPath);
+        }
+      }
+    };
+
+    await walk(dirPath);
+    return result;
+  }
+
+  private async findMatchingFilePaths(
+    filePath: string,
+    maxResults?: number,
+  ): Promise<string[]> {
+    const normalizedPath = normalizeSearchPath(filePath);
+    if (!normalizedPath) return [];
+
+    return this.fileSystem.findFilesByPath(normalizedPath, maxResults);
+  }
+
+  private async resolveWorkspaceRootRelativeDirPaths(
+    dirPath: string,
+    options: DirectoryResolutionOptions,
+  ): Promise<string[]> {
+    const folders = this.fileSystem.getWorkspaceFolders();
+    const roots = options.rootRelativeTo
+      ? folders.filter((folder) =>
+          isPathUnderDirectory(options.rootRelativeTo!, folder.fsPath),
+        )
+      : [...folders];
+    const relativePath = dirPath.replace(/^\.\/*/, "");
+    const matches: string[] = [];
+
+    for (const folder of roots) {
+      const candidate = path.join(folder.fsPath, relativePath);
+      if ((await this.fileSystem.stat(candidate)) === "directory") {
+        matches.push(candidate);
+      }
+    }
+
+    return matches;
+  }
+}
+
+const moveCursorForwardWhileNotForbidden = (
+  text: string,
+  from: number,
+): number => {
+  let length = text.length;
+  let end = from;
+  while (end < length) {
+    let c = text.charAt(end);
+    if (forbiddenChars.test(c)) break;
+    end++;
+  }
+  return end;
+};
+
+const moveCursorBackwardWhileNotForbidden = (
+  text: string,
+  from: number,
+): number => {
+  let start = from - 1;
+  while (start >= 0) {
+    let c = text.charAt(start);
+    if (forbiddenChars.test(c)) break;
+    start--;
+  }
+  return start + 1;
+};
+
+const normalizeSearchPath = (filePath: string): string => {
+  while (true) {
+    if (filePath.startsWith("/")) {
+      filePath = filePath.slice(1);
+    } else if (filePath.startsWith("../")) {
+      filePath = filePath.slice(3);
+    } else break;
+  }
+  return filePath;
+};
+
+function resolveBestPath(
+  paths: string[],
+  options: DirectoryResolutionOptions,
+  compareParentDirectories: boolean,
+): FileResolution {
+  if (paths.length === 0) return { kind: "notFound" };
+  if (paths.length === 1) return { kind: "unique", fsPath: paths[0] };
+  if (!options.rootRelativeTo && !options.resolutionRoot) {
+    return { kind: "ambiguous", fsPaths: paths };
+  }
+
+  const ranked = paths
+    .map((fsPath) => ({
+      fsPath,
+      score: options.resolutionRoot
+        ? steinbergerDistance(
+            options.resolutionRoot,
+            compareParentDirectories ? path.dirname(fsPath) : fsPath,
+          )
+        : commonAncestorDepth(
+            compareParentDirectories ? path.dirname(fsPath) : fsPath,
+            path.dirname(options.rootRelativeTo!),
+          ),
+    }))
+    .sort((a, b) =>
+      options.resolutionRoot ? a.score - b.score : b.score - a.score,
+    );
+  const best = ranked[0];
+  const tiedBest = ranked.filter((candidate) => candidate.score === best.score);
+
+  if (tiedBest.length > 1) return { kind: "ambiguous", fsPaths: paths };
+
+  return {
+    kind: "resolvedAmbiguous",
+    fsPath: best.fsPath,
+    alternatives: paths.filter((fsPath) => fsPath !== best.fsPath),
+    reason: options.resolutionRoot ? "containerDistance" : "closestAncestor",
+  };
+}
+
+function isWorkspaceRootRelativePath(dirPath: string): boolean {
+  return dirPath === "." || dirPath.startsWith("./");
+}
+
+function commonAncestorDepth(a: string, b: string): number {
+  const aParts = path.resolve(a).split(path.sep);
+  const bParts = path.resolve(b).split(path.sep);
+  let depth = 0;
+
+  while (
+    depth < aParts.length &&
+    depth < bParts.length &&
+    aParts[depth] === bParts[depth]
+  ) {
+    depth++;
+  }
+
+  return depth;
+}
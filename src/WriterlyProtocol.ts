@@ -0,0 +1,187 @@
+import type { WriterlyDiagnosticSeverities } from "./WriterlyDiagnostics";
+
+/*
+ * Requests and commands the Writerly language server and the extension's
+ * language client exchange on top of the standard Language Server Protocol.
+ * Shared by both sides, so this module must not import `vscode`.
+ */
+
+export const LANGUAGE_SERVER_ID = "writerly";
+export const LANGUAGE_SERVER_NAME = "Writerly Language Server";
+
+/**
+ * Client command the server attaches to code actions that only navigate.
+ * Arguments: a document URI string and the LSP range to select.
+ */
+export const OPEN_LOCATION_COMMAND = "writerly.openLocation";
+
+/**
+ * Client command reference code lenses run to open the references peek.
+ * Arguments: the document URI string, the LSP position the peek belongs to,
+ * and the LSP locations to list.
+ */
+export const SHOW_REFERENCES_COMMAND = "writerly.showReferences";
+
+/**
+ * Client command the create-definition quick fix of an undefined handle runs.
+ * Arguments: the document URI string, the handle name and the LSP position of
+ * the usage. The client asks for HANDLE_DEFINITION_TARGETS_REQUEST and lets
+ * the user pick a tag.
+ */
+export const CREATE_HANDLE_DEFINITION_COMMAND = "writerly.createHandleDefinition";
+
+/**
+ * Returns the tags a `handle=` line can be added to so that a usage in the
+ * given document sees it, each with the edit that adds the line.
+ */
+export const HANDLE_DEFINITION_TARGETS_REQUEST =
+  "writerly/handleDefinitionTargets";
+
+export type HandleDefinitionTargetsParams = {
+  textDocument: { uri: string };
+  handleName: string;
+  /** Where the usage is; the tags enclosing it are listed first. */
+  position: { line: number; character: number };
+};
+
+export type HandleDefinitionTarget = {
+  uri: string;
+  /** Path relative to its workspace folder. */
+  displayPath: string;
+  /** The line of the tag, 0-based. */
+  line: number;
+  /** Names of the tag and its enclosing tags, outermost first. */
+  tagPath: string[];
+  /** Inserts the `handle=` line below the tag line. */
+  edit: {
+    range: HandleUsageLocation["range"];
+    newText: string;
+  };
+};
+
+export type HandleDefinitionTargetsResult =
+  | { kind: "indexing" }
+  | { kind: "ok"; targets: HandleDefinitionTarget[] };
+
+/**
+ * Returns the handle under the cursor with its usages in the current document
+ * tree.
+ */
+export const HANDLE_USAGES_REQUEST = "writerly/handleUsages";
+
+export type HandleUsagesParams = {
+  textDocument: { uri: string };
+  position: { line: number; character: number };
+};
+
+export type HandleUsageLocation = {
+  uri: string;
+  range: {
+    start: { line: number; character: number };
+    end: { line: number; character: number };
+  };
+  /** Path relative to its workspace folder. */
+  displayPath: string;
+  /** Trimmed text of the usage's line. */
+  preview: string;
+};
+
+export type HandleUsagesResult =
+  | { kind: "indexing" }
+  | { kind: "noHandle" }
+  | { kind: "ok"; handleName: string; usages: HandleUsageLocation[] };
+
+/**
+ * Returns the file-level graph of handle references of the document tree a
+ * document belongs to.
+ */
+export const HANDLE_GRAPH_REQUEST = "writerly/handleGraph";
+
+export type HandleGraphParams = {
+  textDocument: { uri: string };
+};
+
+export type HandleGraphNode = {
+  /** Path inside the root directory of the tree, with "/" separators. */
+  id: string;
+  /** Handle definitions in the file. */
+  definitionCount: number;
+  /** Usages in the file that resolve to a definition in the same file. */
+  internalUsageCount: number;
+};
+
+export type HandleGraphEdge = {
+  /** The node whose usages refer to `to`. */
+  from: string;
+  to: string;
+  /** Usages in `from` that resolve to a definition in `to`. */
+  weight: number;
+  /** The handles those usages name, sorted. */
+  handles: string[];
+};
+
+export type HandleGraph = {
+  /** The root directory of the tree, as shown to users. */
+  name: string;
+  /** Node ids are relative to this directory URI. */
+  rootUri: string;
+  nodes: HandleGraphNode[];
+  edges: HandleGraphEdge[];
+};
+
+export type HandleGraphResult =
+  | { kind: "indexing" }
+  | { kind: "noTree" }
+  | { kind: "ok"; graph: HandleGraph };
+
+/**
+ * Returns the handle definitions that get an unused-handle warning, each with
+ * the edit that removes it: in the document tree of the given document, or in
+ * the whole workspace when no document is given.
+ */
+export const UNUSED_HANDLES_REQUEST = "writerly/unusedHandles";
+
+export type UnusedHandlesParams = {
+  textDocument?: { uri: string };
+};
+
+export type UnusedHandleDefinition = {
+  handleName: string;
+  uri: string;
+  range: HandleUsageLocation["range"];
+  /** Path relative to its workspace folder. */
+  displayPath: string;
+  /** Trimmed text of the definition's line. */
+  preview: string;
+  /**
+   * Removes the `handle=` line, or the `##<<` marker of an in-text
+   * definition.
+   */
+  edit: {
+    range: HandleUsageLocation["range"];
+    newText: string;
+  };
+};
+
+export type UnusedHandlesResult =
+  | { kind: "indexing" }
+  | { kind: "ok"; definitions: UnusedHandleDefinition[] };
+
+/**
+ * Settings the server reads from the `writerly` configuration section.
+ */
+export type WriterlySettings = {
+  enableUnusedHandleWarnings: boolean;
+  enableMissingFileWarnings: boolean;
+  /** Decorators in-text definitions may carry; empty allows every one. */
+  allowedHandleDecorators: string[];
+  /** `writerly.diagnostics.severity`: severity overrides by diagnostic code. */
+  diagnosticSeverities: WriterlyDiagnosticSeverities;
+};
+
+export const DEFAULT_WRITERLY_SETTINGS: WriterlySettings = {
+  enableUnusedHandleWarnings: true,
+  enableMissingFileWarnings: true,
+  allowedHandleDecorators: [],
+  diagnosticSeverities: {},
+};
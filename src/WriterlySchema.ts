@@ -0,0 +1,516 @@
+import * as path from "path";
+import { type Diagnostic, type Range } from "vscode-languageserver-types";
+import { createWriterlyDiagnostic } from "./WriterlyDiagnostics";
+import type {
+  WriterlyAttributeNode,
+  WriterlyParentNode,
+  WriterlySyntaxTree,
+  WriterlyTagNode,
+} from "./WriterlyParser";
+import WriterlyStaticValidator from "./WriterlyStaticValidator";
+
+export const WRITERLY_SCHEMA_FILE_NAME = "writerly.schema.json";
+
+// handles are a language feature, not a tag attribute a schema describes
+const UNIVERSAL_ATTRIBUTE_KEYS = new Set(["handle"]);
+
+const PREFIX_PLACEHOLDER_REGEX = /\{([^{}]*)\}/g;
+const PREFIX_PLACEHOLDERS = ["file", "dir"];
+const PARENT_FILE_NAME = "__parent";
+
+export type WriterlySchemaValueType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "enum";
+
+const VALUE_TYPES: readonly WriterlySchemaValueType[] = [
+  "string",
+  "number",
+  "integer",
+  "boolean",
+  "enum",
+];
+
+export type WriterlySchemaAttribute = {
+  key: string;
+  type: WriterlySchemaValueType;
+  required: boolean;
+  /** The allowed values of an "enum" attribute. */
+  values: string[];
+  description?: string;
+};
+
+export type WriterlySchemaTag = {
+  name: string;
+  description?: string;
+  attributes: Map<string, WriterlySchemaAttribute>;
+  /** Tags allowed directly inside this tag; undefined allows every tag. */
+  children: string[] | undefined;
+  /** Whether attributes the schema does not declare are accepted. */
+  additionalAttributes: boolean;
+};
+
+/**
+ * The handle naming rules of a schema. Both parts are optional.
+ */
+export type WriterlyHandleNaming = {
+  /** Handle names must match this expression. */
+  pattern: RegExp | undefined;
+  /**
+   * Handle names must start with this template, its `{file}` and `{dir}`
+   * placeholders filled in for the file of the definition.
+   */
+  prefix: string | undefined;
+};
+
+/**
+ * A handle definition, as the handle index reports it.
+ */
+export type WriterlyHandleDefinition = {
+  handleName: string;
+  range: Range;
+};
+
+/**
+ * The data of a `schema-handle-name` diagnostic. `suggestedName` is the name
+ * with the right prefix, when that name follows all the rules.
+ */
+export type WriterlyHandleNameDiagnosticData = {
+  handleName: string;
+  suggestedName?: string;
+};
+
+/**
+ * Thrown by WriterlySchema.parse for schema files that are not valid JSON or
+ * do not have the shape of a schema. `offset` locates JSON syntax errors.
+ */
+export class WriterlySchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly offset?: number,
+  ) {
+    super(message);
+  }
+}
+
+/*
+ * WriterlySchema is a parsed `writerly.schema.json`: the tags a publishing
+ * pipeline supports, their attributes and the tags each may contain.
+ *
+ *   {
+ *     "rootTags": ["section"],
+ *     "tags": {
+ *       "section": {
+ *         "description": "A numbered section.",
+ *         "attributes": {
+ *           "title": { "type": "string", "required": true },
+ *           "level": { "type": "integer" },
+ *           "kind": { "type": "enum", "values": ["intro", "body"] }
+ *         },
+ *         "children": ["figure", "Example"]
+ *       }
+ *     }
+ *   }
+ *
+ * `rootTags` and `children` are optional; without them any declared tag may
+ * appear there. Attribute types are string (the default), number, integer,
+ * boolean and enum. Tags reject undeclared attributes unless they set
+ * `"additionalAttributes": true`; `handle` is accepted everywhere.
+ *
+ * A schema may also set handle naming rules, or only those, in which case it
+ * checks no tags:
+ *
+ *   "handles": { "prefix": "{file}:", "pattern": "^[a-z0-9:-]+$" }
+ *
+ * `{file}` is the name of the defining file without its extension, or of its
+ * directory for a `__parent` file; `{dir}` is the name of its directory.
+ * Leading `#` of hash islands are dropped from both.
+ */
+export class WriterlySchema {
+  private constructor(
+    public readonly tags: ReadonlyMap<string, WriterlySchemaTag>,
+    public readonly rootTags: string[] | undefined,
+    /** False for a schema with only handle naming rules. */
+    public readonly declaresTags: boolean,
+    public readonly handleNaming: WriterlyHandleNaming | undefined,
+  ) {}
+
+  public static parse(text: string): WriterlySchema {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const offset = /position (\d+)/.exec(message)?.[1];
+      throw new WriterlySchemaError(
+        `Invalid JSON: ${message}`,
+        offset === undefined ? undefined : Number(offset),
+      );
+    }
+
+    if (
+      !isObject(json) ||
+      (json.tags === undefined
+        ? json.handles === undefined
+        : !isObject(json.tags))
+    ) {
+      throw new WriterlySchemaError(
+        'The schema needs a "tags" or "handles" object.',
+      );
+    }
+
+    const tags = new Map<string, WriterlySchemaTag>();
+    for (const [name, value] of Object.entries(json.tags ?? {})) {
+      tags.set(name, parseTag(name, value));
+    }
+
+    const rootTags = parseTagList(json.rootTags, "rootTags");
+    for (const name of [
+      ...(rootTags ?? []),
+      ...[...tags.values()].flatMap((tag) => tag.children ?? []),
+    ]) {
+      if (!tags.has(name)) {
+        throw new WriterlySchemaError(`Tag '${name}' is used but not declared.`);
+      }
+    }
+
+    return new WriterlySchema(
+      tags,
+      rootTags,
+      json.tags !== undefined,
+      parseHandleNaming(json.handles),
+    );
+  }
+
+  public getTag(name: string): WriterlySchemaTag | undefined {
+    return this.tags.get(name);
+  }
+
+  /**
+   * Returns the names of the tags allowed directly inside `parent`.
+   */
+  public getAllowedChildTags(parent: WriterlyParentNode): string[] {
+    const allowed =
+      parent.kind === "root"
+        ? this.rootTags
+        : this.tags.get(parent.name)?.children;
+    return allowed ?? [...this.tags.keys()];
+  }
+
+  public isUniversalAttribute(key: string): boolean {
+    return UNIVERSAL_ATTRIBUTE_KEYS.has(key);
+  }
+
+  public isValidValue(attribute: WriterlySchemaAttribute, value: string): boolean {
+    switch (attribute.type) {
+      case "string":
+        return true;
+      case "number":
+        return value.trim() !== "" && Number.isFinite(Number(value));
+      case "integer":
+        return /^[-+]?\d+$/.test(value);
+      case "boolean":
+        return value === "true" || value === "false";
+      case "enum":
+        return attribute.values.includes(value);
+    }
+  }
+
+  /**
+   * Returns the schema diagnostics of a document: unknown tags, tags where
+   * their parent does not allow them, missing required attributes, and
+   * undeclared or ill-typed attribute values.
+   */
+  public validate(tree: WriterlySyntaxTree): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    if (!this.declaresTags) return diagnostics;
+
+    for (const tag of tree.getAllTags()) {
+      // tag-empty and tag-invalid-name already cover these
+      if (!WriterlyStaticValidator.validTagPattern.test(tag.name)) continue;
+      this.validateTag(tag, diagnostics);
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Returns a diagnostic for every handle definition of a file whose name
+   * breaks the naming rules. When the name only lacks the prefix, or has
+   * another file's, the diagnostic suggests the name with the right prefix.
+   */
+  public validateHandleNames(
+    fsPath: string,
+    definitions: readonly WriterlyHandleDefinition[],
+  ): Diagnostic[] {
+    if (!this.handleNaming) return [];
+
+    const { pattern, prefix: template } = this.handleNaming;
+    const prefix =
+      template === undefined ? undefined : fillPrefixTemplate(template, fsPath);
+    const follows = (name: string) =>
+      (prefix === undefined || name.startsWith(prefix)) &&
+      (pattern === undefined || pattern.test(name));
+
+    const diagnostics: Diagnostic[] = [];
+    for (const { handleName, range } of definitions) {
+      if (follows(handleName)) continue;
+
+      const data: WriterlyHandleNameDiagnosticData = { handleName };
+      let message = `Handle '${handleName}' does not match the schema's handle pattern ${pattern}.`;
+      if (prefix !== undefined && !handleName.startsWith(prefix)) {
+        message = `Handle '${handleName}' does not start with '${prefix}', as the schema's naming rules require in this file.`;
+        const suggestedName =
+          prefix + handleName.replace(getPrefixShape(template!), "");
+        if (follows(suggestedName)) data.suggestedName = suggestedName;
+      }
+      diagnostics.push(
+        createWriterlyDiagnostic(range, message, "schema-handle-name", data),
+      );
+    }
+    return diagnostics;
+  }
+
+  private validateTag(tag: WriterlyTagNode, diagnostics: Diagnostic[]): void {
+    const schemaTag = this.tags.get(tag.name);
+    if (!schemaTag) {
+      diagnostics.push(
+        createWriterlyDiagnostic(
+          tag.nameRange,
+          `Unknown tag '${tag.name}'. The schema does not declare it.`,
+          "schema-unknown-tag",
+          { tagName: tag.name },
+        ),
+      );
+      return;
+    }
+
+    if (!this.getAllowedChildTags(tag.parent).includes(tag.name)) {
+      const where =
+        tag.parent.kind === "root"
+          ? "at the top level"
+          : `inside '${tag.parent.name}'`;
+      diagnostics.push(
+        createWriterlyDiagnostic(
+          tag.nameRange,
+          `Tag '${tag.name}' is not allowed ${where}.`,
+          "schema-invalid-child",
+          { tagName: tag.name },
+        ),
+      );
+    }
+
+    const keys = new Set(tag.attributes.map((attribute) => attribute.key));
+    for (const attribute of schemaTag.attributes.values()) {
+      if (attribute.required && !keys.has(attribute.key)) {
+        diagnostics.push(
+          createWriterlyDiagnostic(
+            tag.nameRange,
+            `Tag '${tag.name}' is missing required attribute '${attribute.key}'.`,
+            "schema-missing-attribute",
+            { tagName: tag.name, key: attribute.key },
+          ),
+        );
+      }
+    }
+
+    for (const attribute of tag.attributes) {
+      this.validateAttribute(schemaTag, attribute, diagnostics);
+    }
+  }
+
+  private validateAttribute(
+    schemaTag: WriterlySchemaTag,
+    attribute: WriterlyAttributeNode,
+    diagnostics: Diagnostic[],
+  ): void {
+    if (this.isUniversalAttribute(attribute.key)) return;
+
+    const schemaAttribute = schemaTag.attributes.get(attribute.key);
+    if (!schemaAttribute) {
+      if (!schemaTag.additionalAttributes) {
+        diagnostics.push(
+          createWriterlyDiagnostic(
+            attribute.keyRange,
+            `Tag '${schemaTag.name}' does not declare attribute '${attribute.key}'.`,
+            "schema-unknown-attribute",
+            { tagName: schemaTag.name, key: attribute.key },
+          ),
+        );
+      }
+      return;
+    }
+
+    if (!this.isValidValue(schemaAttribute, attribute.value)) {
+      diagnostics.push(
+        createWriterlyDiagnostic(
+          attribute.valueRange.start.character ===
+            attribute.valueRange.end.character
+            ? attribute.range
+            : attribute.valueRange,
+          `Attribute '${attribute.key}' expects ${describeValueType(schemaAttribute)}.`,
+          "schema-invalid-attribute-value",
+          { tagName: schemaTag.name, key: attribute.key },
+        ),
+      );
+    }
+  }
+}
+
+export function describeValueType(attribute: WriterlySchemaAttribute): string {
+  switch (attribute.type) {
+    case "string":
+      return "a string";
+    case "number":
+      return "a number";
+    case "integer":
+      return "an integer";
+    case "boolean":
+      return "true or false";
+    case "enum":
+      return `one of ${attribute.values.map((value) => `'${value}'`).join(", ")}`;
+  }
+}
+
+/**
+ * Fills the `{file}` and `{dir}` placeholders of a prefix template for the
+ * file `fsPath`.
+ */
+function fillPrefixTemplate(template: string, fsPath: string): string {
+  const dir = path.basename(path.dirname(fsPath));
+  const file = path.basename(fsPath, path.extname(fsPath));
+  const values: Record<string, string> = {
+    file: file === PARENT_FILE_NAME ? dir : file,
+    dir,
+  };
+  return template.replace(PREFIX_PLACEHOLDER_REGEX, (_match, name: string) =>
+    values[name].replace(/^#+/, ""),
+  );
+}
+
+/**
+ * Matches a prefix made by the template for any file, such as "ch02:" for
+ * "{file}:", so that a suggestion replaces it rather than stacking prefixes.
+ */
+function getPrefixShape(template: string): RegExp {
+  const parts = template.split(PREFIX_PLACEHOLDER_REGEX);
+  const source = parts
+    .map((part, index) =>
+      // split() puts the placeholder names at the odd indices
+      index % 2 === 1 ? ".+?" : part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}`, "u");
+}
+
+function parseHandleNaming(value: unknown): WriterlyHandleNaming | undefined {
+  if (value === undefined) return undefined;
+  if (!isObject(value)) {
+    throw new WriterlySchemaError('"handles" must be an object.');
+  }
+
+  const patternSource = optionalString(value.pattern, "handles.pattern");
+  let pattern: RegExp | undefined;
+  if (patternSource !== undefined) {
+    try {
+      pattern = new RegExp(patternSource, "u");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new WriterlySchemaError(
+        `'handles.pattern' is not valid: ${message}`,
+      );
+    }
+  }
+
+  const prefix = optionalString(value.prefix, "handles.prefix");
+  for (const [, name] of (prefix ?? "").matchAll(PREFIX_PLACEHOLDER_REGEX)) {
+    if (!PREFIX_PLACEHOLDERS.includes(name)) {
+      throw new WriterlySchemaError(
+        `'handles.prefix' has unknown placeholder '{${name}}'; use {file} or {dir}.`,
+      );
+    }
+  }
+
+  return { pattern, prefix };
+}
+
+function parseTag(name: string, value: unknown): WriterlySchemaTag {
+  if (!isObject(value)) {
+    throw new WriterlySchemaError(`Tag '${name}' must be an object.`);
+  }
+
+  const attributes = new Map<string, WriterlySchemaAttribute>();
+  if (value.attributes !== undefined) {
+    if (!isObject(value.attributes)) {
+      throw new WriterlySchemaError(
+        `The attributes of tag '${name}' must be an object.`,
+      );
+    }
+    for (const [key, attribute] of Object.entries(value.attributes)) {
+      attributes.set(key, parseAttribute(name, key, attribute));
+    }
+  }
+
+  return {
+    name,
+    description: optionalString(value.description, `${name}.description`),
+    attributes,
+    children: parseTagList(value.children, `${name}.children`),
+    additionalAttributes: value.additionalAttributes === true,
+  };
+}
+
+function parseAttribute(
+  tagName: string,
+  key: string,
+  value: unknown,
+): WriterlySchemaAttribute {
+  const where = `Attribute '${key}' of tag '${tagName}'`;
+  if (!isObject(value)) {
+    throw new WriterlySchemaError(`${where} must be an object.`);
+  }
+
+  const type = value.type ?? "string";
+  if (!VALUE_TYPES.includes(type as WriterlySchemaValueType)) {
+    throw new WriterlySchemaError(
+      `${where} has unknown type '${String(type)}'; use ${VALUE_TYPES.join(", ")}.`,
+    );
+  }
+
+  const values = value.values ?? [];
+  if (
+    !Array.isArray(values) ||
+    !values.every((item) => typeof item === "string") ||
+    (type === "enum" && values.length === 0)
+  ) {
+    throw new WriterlySchemaError(
+      `${where} needs "values": a list of strings${type === "enum" ? "" : ", if any"}.`,
+    );
+  }
+
+  return {
+    key,
+    type: type as WriterlySchemaValueType,
+    required: value.required === true,
+    values,
+    description: optionalString(value.description, `${tagName}.${key}`),
+  };
+}
+
+function parseTagList(value: unknown, where: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every((item) => typeof item === "string")) {
+    throw new WriterlySchemaError(`'${where}' must be a list of tag names.`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, where: string): string | undefined {
+  if (value === undefined || typeof value === "string") return value;
+  throw new WriterlySchemaError(`'${where}' must be a string.`);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
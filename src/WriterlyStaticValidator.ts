@@ -1,66 +1,90 @@
-import * as vscode from "vscode";
+import { type Diagnostic, Range } from "vscode-languageserver-types";
+import { createWriterlyDiagnostic } from "./WriterlyDiagnostics";
 import {
   Zone,
   LineType,
   State,
   WriterlyDocumentWalker,
 } from "./WriterlyDocumentWalker";
+import { WriterlyParser, type WriterlySyntaxTree } from "./WriterlyParser";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
 
 const lineRange = (
   lineNumber: number,
   start: number,
   end: number,
-): vscode.Range => new vscode.Range(lineNumber, start, lineNumber, end);
+): Range => Range.create(lineNumber, start, lineNumber, end);
 
-const errorDiagnostic = (
-  range: vscode.Range,
-  message: string,
-): vscode.Diagnostic =>
-  new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error);
-
-const d1 = (lineNumber: number, indent: number): vscode.Diagnostic => {
+const indentTooLarge = (lineNumber: number, indent: number): Diagnostic => {
   const range = lineRange(lineNumber, 0, indent);
-  return errorDiagnostic(range, "Indentation too large");
+  return createWriterlyDiagnostic(
+    range,
+    "Indentation too large",
+    "indent-too-large",
+  );
 };
 
-const d2 = (lineNumber: number, indent: number): vscode.Diagnostic => {
+const indentNotMultipleOf4 = (
+  lineNumber: number,
+  indent: number,
+): Diagnostic => {
   const range = lineRange(lineNumber, 0, indent);
-  return errorDiagnostic(range, "Indentation not a multiple of 4");
+  return createWriterlyDiagnostic(
+    range,
+    "Indentation not a multiple of 4",
+    "indent-not-multiple-of-4",
+  );
 };
 
-const d3 = (lineNumber: number, indent: number): vscode.Diagnostic => {
+const indentTooLow = (lineNumber: number, indent: number): Diagnostic => {
   const range = lineRange(lineNumber, 0, indent);
-  return errorDiagnostic(range, "Indentation tew low");
+  return createWriterlyDiagnostic(
+    range,
+    "Indentation tew low",
+    "indent-too-low",
+  );
 };
 
-const d4 = (
+const nestedCodeBlockOpening = (
   lineNumber: number,
   indent: number,
   content: string,
-): vscode.Diagnostic => {
+): Diagnostic => {
   const range = lineRange(lineNumber, indent, indent + content.length);
-  return errorDiagnostic(range, "Code block opening inside of code block");
+  return createWriterlyDiagnostic(
+    range,
+    "Code block opening inside of code block",
+    "code-block-nested-opening",
+  );
 };
 
-const d5 = (state: State): vscode.Diagnostic => {
+const unclosedCodeBlockOpening = (state: State): Diagnostic => {
   let indent = state.codeBlockStartIndent;
   let lineNumber = state.codeBlockStartLineNumber;
   let range = lineRange(lineNumber, indent, indent + 3);
-  return errorDiagnostic(range, "Unclosed code block");
+  return createWriterlyDiagnostic(
+    range,
+    "Unclosed code block",
+    "code-block-unclosed",
+  );
 };
 
-const d6 = (document: vscode.TextDocument): vscode.Diagnostic => {
+const unclosedCodeBlockEnd = (document: WriterlyTextDocument): Diagnostic => {
   let lastLine = document.lineCount - 1;
   let range = lineRange(lastLine, 0, document.lineAt(lastLine).text.length);
-  return errorDiagnostic(range, "Unclosed code block");
+  return createWriterlyDiagnostic(
+    range,
+    "Unclosed code block",
+    "code-block-unclosed",
+  );
 };
 
-const d7 = (lineNumber: number, indent: number, content: string) => {
+const emptyTag = (lineNumber: number, indent: number, content: string) => {
   const range = lineRange(lineNumber, indent + 2, indent + content.length);
-  return errorDiagnostic(range, "Empty tag");
+  return createWriterlyDiagnostic(range, "Empty tag", "tag-empty");
 };
 
-const d8 = (
+const invalidTagName = (
   lineNumber: number,
   indent: number,
   content: string,
@@ -71,36 +95,137 @@ const d8 = (
     indent + 2 + numSpaces,
     indent + content.length,
   );
-  return errorDiagnostic(
+  return createWriterlyDiagnostic(
     range,
     "Invalid tag. Tag names must start with a letter, underscore, or colon, followed by letters, numbers, hyphens, underscores, dots, or colons.",
+    "tag-invalid-name",
   );
 };
 
-const d9 = (lineNumber: number, indent: number, content: string) => {
+const spacesInCodeBlockInfo = (
+  lineNumber: number,
+  indent: number,
+  content: string,
+) => {
   const range = lineRange(lineNumber, indent + 3, indent + content.length);
-  return errorDiagnostic(range, "Spaces in code block info annotation");
+  return createWriterlyDiagnostic(
+    range,
+    "Spaces in code block info annotation",
+    "code-block-info-spaces",
+  );
 };
 
-const d10 = (lineNumber: number, indent: number, numTabs: number) => {
+const tabsInIndent = (lineNumber: number, indent: number, numTabs: number) => {
   const range = lineRange(lineNumber, indent, indent + numTabs);
-  return errorDiagnostic(range, "Tabs in initial whitespace");
+  return createWriterlyDiagnostic(
+    range,
+    "Tabs in initial whitespace",
+    "tabs-in-indent",
+  );
+};
+
+const invalidAttributeKey = (
+  lineNumber: number,
+  indent: number,
+  key: string,
+) => {
+  const range = lineRange(lineNumber, indent, indent + key.length);
+  return createWriterlyDiagnostic(
+    range,
+    "Invalid attribute key. Keys must start with a letter or underscore, followed by letters, numbers, hyphens, underscores, dots, or colons.",
+    "attribute-invalid-key",
+  );
+};
+
+const duplicateAttributeKey = (range: Range, key: string, tagName: string) =>
+  createWriterlyDiagnostic(
+    range,
+    `Duplicate attribute '${key}' on tag '${tagName}'`,
+    "attribute-duplicate-key",
+    { key },
+  );
+
+const attributeParsedAsText = (
+  lineNumber: number,
+  indent: number,
+  content: string,
+) => {
+  const range = lineRange(lineNumber, indent, indent + content.length);
+  return createWriterlyDiagnostic(
+    range,
+    "Line looks like an attribute but is parsed as text",
+    "attribute-parsed-as-text",
+  );
 };
 
 export default class WriterlyStaticValidator {
   static validTagPattern = /^[a-zA-Z_\:][-a-zA-Z0-9\._\:]*$/;
   static tagIsolatingPattern = /^\|\>(\s*)(.*)$/;
   static tabIsolatingPattern = /^[\t]*/;
-  static diagnosticCollection: vscode.DiagnosticCollection;
+  static validAttributeKeyPattern = /^[a-zA-Z_][-a-zA-Z0-9\._\:]*$/;
+  static attributeLikeTextPattern = /^[^\s=]*\s*=/;
+  // a tag may carry several handles
+  static repeatableAttributeKeys = new Set(["handle"]);
+
+  /**
+   * Returns the syntax diagnostics of a whole document.
+   */
+  public static validateDocument(document: WriterlyTextDocument): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const tree = WriterlyParser.parse(document);
+    for (const line of tree.lines) {
+      WriterlyStaticValidator.validateLine(
+        line.stateBeforeLine,
+        line.lineType,
+        line.stateAfterLine,
+        line.lineNumber,
+        line.indent,
+        line.content,
+        diagnostics,
+      );
+    }
+    WriterlyStaticValidator.validateTree(document, tree, diagnostics);
+    return diagnostics;
+  }
+
+  /**
+   * Reports the diagnostics that depend on more than one line: unclosed code
+   * blocks and attribute keys repeated on one tag.
+   */
+  public static validateTree(
+    document: WriterlyTextDocument,
+    tree: WriterlySyntaxTree,
+    diagnostics: Diagnostic[],
+  ): void {
+    WriterlyStaticValidator.validateFinalState(
+      document,
+      tree.finalState,
+      diagnostics,
+    );
+    for (const tag of tree.getAllTags()) {
+      const keys = new Set<string>();
+      for (const attribute of tag.attributes) {
+        if (
+          keys.has(attribute.key) &&
+          !this.repeatableAttributeKeys.has(attribute.key)
+        ) {
+          diagnostics.push(
+            duplicateAttributeKey(attribute.keyRange, attribute.key, tag.name),
+          );
+        }
+        keys.add(attribute.key);
+      }
+    }
+  }
 
   public static validateFinalState(
-    document: vscode.TextDocument,
+    document: WriterlyTextDocument,
     finalState: State,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     if (finalState.zone === Zone.CodeBlock) {
-      diagnostics.push(d5(finalState));
-      diagnostics.push(d6(document));
+      diagnostics.push(unclosedCodeBlockOpening(finalState));
+      diagnostics.push(unclosedCodeBlockEnd(document));
     }
   }
 
@@ -111,7 +236,7 @@ export default class WriterlyStaticValidator {
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     WriterlyStaticValidator.validateIndentation(
       stateBeforeLine,
@@ -147,20 +272,20 @@ export default class WriterlyStaticValidator {
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     if (content === "") return;
     if (
       lineType === LineType.CodeBlockClosing &&
       indent > stateAfterLine.maxIndent // stateAfterLine.maxIndent === maxIndent at code block opening
     ) {
-      diagnostics.push(d1(lineNumber, indent));
+      diagnostics.push(indentTooLarge(lineNumber, indent));
     } else if (indent < stateBeforeLine.minIndent) {
-      diagnostics.push(d3(lineNumber, stateBeforeLine.minIndent));
+      diagnostics.push(indentTooLow(lineNumber, stateBeforeLine.minIndent));
     } else if (indent > stateBeforeLine.maxIndent) {
-      diagnostics.push(d1(lineNumber, indent));
+      diagnostics.push(indentTooLarge(lineNumber, indent));
     } else if (indent % 4 !== 0 && stateBeforeLine.zone != Zone.CodeBlock) {
-      diagnostics.push(d2(lineNumber, indent));
+      diagnostics.push(indentNotMultipleOf4(lineNumber, indent));
     }
   }
 
@@ -170,7 +295,7 @@ export default class WriterlyStaticValidator {
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     switch (lineType) {
       case LineType.Tag:
@@ -198,6 +323,14 @@ export default class WriterlyStaticValidator {
           diagnostics,
         );
         break;
+      case LineType.Attribute:
+        WriterlyStaticValidator.validateAttribute(
+          lineNumber,
+          indent,
+          content,
+          diagnostics,
+        );
+        break;
       case LineType.Text:
         WriterlyStaticValidator.validateText(
           lineNumber,
@@ -205,15 +338,34 @@ export default class WriterlyStaticValidator {
           content,
           diagnostics,
         );
+        if (
+          stateBeforeLine.zone === Zone.Attribute &&
+          indent === stateBeforeLine.maxIndent &&
+          this.attributeLikeTextPattern.test(content)
+        ) {
+          diagnostics.push(attributeParsedAsText(lineNumber, indent, content));
+        }
         break;
     }
   }
 
+  private static validateAttribute(
+    lineNumber: number,
+    indent: number,
+    content: string,
+    diagnostics: Diagnostic[],
+  ): void {
+    const key = content.slice(0, content.indexOf("="));
+    if (!this.validAttributeKeyPattern.test(key)) {
+      diagnostics.push(invalidAttributeKey(lineNumber, indent, key));
+    }
+  }
+
   private static validateText(
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     if (!content.startsWith("\t")) return;
     const isolatingMatch = content.match(this.tabIsolatingPattern);
@@ -221,17 +373,17 @@ export default class WriterlyStaticValidator {
       console.error("bug error: tabIsolatingPattern should match string");
       return;
     }
-    diagnostics.push(d10(lineNumber, indent, isolatingMatch[0].length));
+    diagnostics.push(tabsInIndent(lineNumber, indent, isolatingMatch[0].length));
   }
 
   private static validateTag(
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     if (content === "|>") {
-      diagnostics.push(d7(lineNumber, indent, content));
+      diagnostics.push(emptyTag(lineNumber, indent, content));
       return;
     }
 
@@ -241,7 +393,7 @@ export default class WriterlyStaticValidator {
     const tagName = isolatingMatch[2];
 
     if (!this.validTagPattern.test(tagName)) {
-      diagnostics.push(d8(lineNumber, indent, content, numSpaces));
+      diagnostics.push(invalidTagName(lineNumber, indent, content, numSpaces));
     }
   }
 
@@ -249,10 +401,10 @@ export default class WriterlyStaticValidator {
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     if (content.indexOf(" ") > 0) {
-      diagnostics.push(d9(lineNumber, indent, content));
+      diagnostics.push(spacesInCodeBlockInfo(lineNumber, indent, content));
     }
   }
 
@@ -261,13 +413,13 @@ export default class WriterlyStaticValidator {
     lineNumber: number,
     indent: number,
     content: string,
-    diagnostics: vscode.Diagnostic[],
+    diagnostics: Diagnostic[],
   ): void {
     if (
       content.startsWith("```") &&
       indent === stateBeforeLine.codeBlockStartIndent
     ) {
-      diagnostics.push(d4(lineNumber, indent, content));
+      diagnostics.push(nestedCodeBlockOpening(lineNumber, indent, content));
     }
   }
 }
@@ -0,0 +1,196 @@
+import { type Diagnostic, Range } from "vscode-languageserver-types";
+import {
+  createWriterlyDiagnostic,
+  getWriterlyDiagnosticCode,
+  isWriterlyDiagnosticCode,
+  type WriterlyDiagnosticCode,
+} from "./WriterlyDiagnostics";
+import { LineType } from "./WriterlyDocumentWalker";
+import { WriterlyParser, type WriterlyLine } from "./WriterlyParser";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
+
+// "!! writerly-disable-next-line handle-unused, tabs-in-indent"
+const DIRECTIVE_REGEX = /^!!\s*writerly-(disable-next-line|disable)(?=\s|$)/;
+const DIRECTIVE_CODE_REGEX = /[^\s,]+/g;
+
+type SuppressionScope = "nextLine" | "file";
+
+type DirectiveCode = {
+  code: string;
+  range: Range;
+};
+
+type SuppressionDirective = {
+  scope: SuppressionScope;
+  lineNumber: number;
+  range: Range;
+  /** Empty when the directive names no code and suppresses every code. */
+  codes: DirectiveCode[];
+};
+
+/**
+ * Tells whether the diagnostics of a code were computed for the file, so a
+ * directive naming it can be reported as suppressing nothing.
+ */
+export type DiagnosticCodeCheck = (code: WriterlyDiagnosticCode) => boolean;
+
+/*
+ * WriterlySuppressions holds the suppression directives of one document:
+ *
+ *   !! writerly-disable-next-line <code> [<code> ...]
+ *   !! writerly-disable <code> [<code> ...]
+ *
+ * written as `!!` comment lines in the text or attribute zone. The first form
+ * suppresses diagnostics starting on the following line, the second every
+ * diagnostic of the file. Without codes a directive suppresses every code.
+ * Codes are separated by spaces or commas.
+ */
+export class WriterlySuppressions {
+  private constructor(private readonly directives: SuppressionDirective[]) {}
+
+  public static fromDocument(
+    document: WriterlyTextDocument,
+  ): WriterlySuppressions {
+    const directives: SuppressionDirective[] = [];
+    for (const line of WriterlyParser.parse(document).lines) {
+      const directive = parseDirective(line);
+      if (directive) directives.push(directive);
+    }
+    return new WriterlySuppressions(directives);
+  }
+
+  public get isEmpty(): boolean {
+    return this.directives.length === 0;
+  }
+
+  /**
+   * Drops the suppressed diagnostics and appends a `directive-unused` warning
+   * for every directive code that suppressed nothing although its diagnostics
+   * were checked.
+   */
+  public apply(
+    diagnostics: Diagnostic[],
+    isCodeChecked: DiagnosticCodeCheck,
+  ): Diagnostic[] {
+    if (this.directives.length === 0) return diagnostics;
+
+    const usedCodes = new Set<DirectiveCode>();
+    const usedDirectives = new Set<SuppressionDirective>();
+    const kept = diagnostics.filter((diagnostic) => {
+      const code = getWriterlyDiagnosticCode(diagnostic);
+      if (!code || code === "directive-unused") return true;
+
+      let suppressed = false;
+      for (const directive of this.directives) {
+        if (!this.appliesToLine(directive, diagnostic.range.start.line)) {
+          continue;
+        }
+        if (directive.codes.length === 0) {
+          usedDirectives.add(directive);
+          suppressed = true;
+          continue;
+        }
+        for (const directiveCode of directive.codes) {
+          if (directiveCode.code !== code) continue;
+          usedCodes.add(directiveCode);
+          suppressed = true;
+        }
+      }
+      return !suppressed;
+    });
+
+    for (const directive of this.directives) {
+      if (directive.codes.length === 0) {
+        if (!usedDirectives.has(directive)) {
+          kept.push(
+            createWriterlyDiagnostic(
+              directive.range,
+              "Unused writerly-disable directive: no diagnostics are suppressed.",
+              "directive-unused",
+            ),
+          );
+        }
+        continue;
+      }
+
+      for (const directiveCode of directive.codes) {
+        if (usedCodes.has(directiveCode)) continue;
+        const message = this.getUnusedCodeMessage(
+          directiveCode.code,
+          isCodeChecked,
+        );
+        if (message) {
+          kept.push(
+            createWriterlyDiagnostic(
+              directiveCode.range,
+              message,
+              "directive-unused",
+            ),
+          );
+        }
+      }
+    }
+
+    return kept;
+  }
+
+  private appliesToLine(
+    directive: SuppressionDirective,
+    lineNumber: number,
+  ): boolean {
+    return (
+      directive.scope === "file" || directive.lineNumber + 1 === lineNumber
+    );
+  }
+
+  private getUnusedCodeMessage(
+    code: string,
+    isCodeChecked: DiagnosticCodeCheck,
+  ): string | undefined {
+    if (!isWriterlyDiagnosticCode(code)) {
+      return `Unknown diagnostic code '${code}' in writerly-disable directive.`;
+    }
+    if (!isCodeChecked(code)) return undefined;
+    return `Unused writerly-disable directive: no '${code}' diagnostic is suppressed.`;
+  }
+}
+
+function parseDirective(line: WriterlyLine): SuppressionDirective | undefined {
+  if (
+    line.lineType !== LineType.TextZoneComment &&
+    line.lineType !== LineType.AttributeZoneComment
+  ) {
+    return undefined;
+  }
+
+  const match = DIRECTIVE_REGEX.exec(line.content);
+  if (!match) return undefined;
+
+  const codesStart = line.indent + match[0].length;
+  const codesText = line.text.substring(codesStart);
+  const codes: DirectiveCode[] = [];
+  for (const codeMatch of codesText.matchAll(DIRECTIVE_CODE_REGEX)) {
+    const start = codesStart + codeMatch.index!;
+    codes.push({
+      code: codeMatch[0],
+      range: Range.create(
+        line.lineNumber,
+        start,
+        line.lineNumber,
+        start + codeMatch[0].length,
+      ),
+    });
+  }
+
+  return {
+    scope: match[1] === "disable" ? "file" : "nextLine",
+    lineNumber: line.lineNumber,
+    range: Range.create(
+      line.lineNumber,
+      line.indent,
+      line.lineNumber,
+      line.text.trimEnd().length,
+    ),
+    codes,
+  };
+}
@@ -0,0 +1,275 @@
+import {
+  Position,
+  Range,
+  TextEdit,
+  type Diagnostic,
+} from "vscode-languageserver-types";
+import { getWriterlyDiagnosticCode } from "./WriterlyDiagnostics";
+import { LineType, Zone } from "./WriterlyDocumentWalker";
+import {
+  WriterlyParser,
+  type WriterlyLine,
+  type WriterlySyntaxTree,
+} from "./WriterlyParser";
+import WriterlyStaticValidator from "./WriterlyStaticValidator";
+import { WriterlySuppressions } from "./WriterlySuppressions";
+import type { WriterlyTextDocument } from "./WriterlyTextDocument";
+import { rangeUtils } from "./utils/range-utils";
+
+const INDENT_WIDTH = 4;
+const CODE_FENCE = "```";
+
+export type WriterlySyntaxFix = {
+  title: string;
+  edits: TextEdit[];
+};
+
+/*
+ * WriterlySyntaxFixes computes the text edits that repair the diagnostics of
+ * WriterlyStaticValidator:
+ * - indentation: reindent the line to the nearest level its parent allows,
+ *   and the lines indented under it by as much, so the block it opens keeps
+ *   its shape
+ * - tabs in initial whitespace: replace each tab by four spaces
+ * - unclosed code block: insert the closing fence at the opening's indent,
+ *   before the first line that dedents past the opening, or at the end,
+ *   with the document's own line breaks
+ * - spaces in a code block info annotation: remove them
+ * - empty tag: delete the `|>` line when nothing belongs to it
+ */
+export class WriterlySyntaxFixes {
+  public static getFix(
+    document: WriterlyTextDocument,
+    diagnostic: Diagnostic,
+  ): WriterlySyntaxFix | undefined {
+    const tree = WriterlyParser.parse(document);
+    const line = tree.lineAt(diagnostic.range.start.line);
+    if (!line) return undefined;
+
+    switch (getWriterlyDiagnosticCode(diagnostic)) {
+      case "indent-too-large":
+      case "indent-too-low":
+      case "indent-not-multiple-of-4":
+        return this.getReindentFix(tree, line);
+      case "tabs-in-indent":
+        return this.getTabsFix(line);
+      case "code-block-unclosed":
+        return this.getClosingFenceFix(document, tree);
+      case "code-block-info-spaces":
+        return this.getInfoAnnotationFix(line);
+      case "tag-empty":
+        return this.getEmptyTagFix(document, tree, line);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Returns the edits fixing every fixable syntax diagnostic of a document
+   * that no `writerly-disable` directive suppresses. Fixes whose edits would
+   * overlap an earlier fix are left for a second run.
+   */
+  public static getFixAllEdits(document: WriterlyTextDocument): TextEdit[] {
+    const diagnostics = WriterlySuppressions.fromDocument(document).apply(
+      WriterlyStaticValidator.validateDocument(document),
+      () => false,
+    );
+
+    const edits: TextEdit[] = [];
+    for (const diagnostic of diagnostics) {
+      const fix = this.getFix(document, diagnostic);
+      if (!fix) continue;
+      if (fix.edits.some((edit) => this.conflictsWithAny(edit, edits))) {
+        continue;
+      }
+      edits.push(...fix.edits);
+    }
+
+    return edits.sort((a, b) =>
+      rangeUtils.compare(a.range.start, b.range.start),
+    );
+  }
+
+  private static getReindentFix(
+    tree: WriterlySyntaxTree,
+    line: WriterlyLine,
+  ): WriterlySyntaxFix | undefined {
+    if (line.lineType === LineType.CodeBlockClosing) return undefined;
+
+    const target = this.getNearestValidIndent(line);
+    if (target === undefined || target === line.indent) return undefined;
+
+    // the lines indented under the line belong to it and move along
+    const shift = target - line.indent;
+    const block = [line];
+    for (const next of tree.lines.slice(line.lineNumber + 1)) {
+      if (next.content === "") continue;
+      if (next.indent <= line.indent) break;
+      block.push(next);
+    }
+
+    return {
+      title:
+        block.length === 1
+          ? `Reindent to ${target} spaces`
+          : `Reindent to ${target} spaces with the ${block.length - 1} ${
+              block.length === 2 ? "line" : "lines"
+            } under it`,
+      edits: block.map((blockLine) =>
+        TextEdit.replace(
+          Range.create(
+            blockLine.lineNumber,
+            0,
+            blockLine.lineNumber,
+            blockLine.indent,
+          ),
+          " ".repeat(blockLine.indent + shift),
+        ),
+      ),
+    };
+  }
+
+  private static getNearestValidIndent(line: WriterlyLine): number | undefined {
+    const { minIndent, maxIndent, zone } = line.stateBeforeLine;
+    if (line.indent < minIndent) return minIndent;
+    if (zone === Zone.CodeBlock) {
+      return line.indent > maxIndent ? maxIndent : undefined;
+    }
+
+    const lower = line.indent - (line.indent % INDENT_WIDTH);
+    const candidates = [lower, lower + INDENT_WIDTH, lower - INDENT_WIDTH]
+      .filter((indent) => indent >= minIndent && indent <= maxIndent)
+      .sort(
+        (a, b) =>
+          Math.abs(a - line.indent) - Math.abs(b - line.indent) || a - b,
+      );
+    return candidates[0];
+  }
+
+  private static getTabsFix(line: WriterlyLine): WriterlySyntaxFix | undefined {
+    const tabs = line.content.match(/^\t*/)?.[0].length ?? 0;
+    if (tabs === 0) return undefined;
+
+    return {
+      title: "Convert leading tabs to spaces",
+      edits: [
+        TextEdit.replace(
+          Range.create(
+            line.lineNumber,
+            line.indent,
+            line.lineNumber,
+            line.indent + tabs,
+          ),
+          " ".repeat(tabs * INDENT_WIDTH),
+        ),
+      ],
+    };
+  }
+
+  private static getClosingFenceFix(
+    document: WriterlyTextDocument,
+    tree: WriterlySyntaxTree,
+  ): WriterlySyntaxFix | undefined {
+    const { zone, codeBlockStartIndent, codeBlockStartLineNumber } =
+      tree.finalState;
+    if (zone !== Zone.CodeBlock) return undefined;
+
+    const fence = " ".repeat(codeBlockStartIndent) + CODE_FENCE;
+    const lineEnding = document.lineEnding ?? "\n";
+    const title = "Insert closing code fence";
+
+    // the first line dedented past the opening fence cannot belong to the
+    // code block; close it after the last non-empty line before that one
+    let lastCodeLine = codeBlockStartLineNumber;
+    for (const line of tree.lines.slice(codeBlockStartLineNumber + 1)) {
+      if (line.content === "") continue;
+      if (line.indent < codeBlockStartIndent) {
+        return {
+          title,
+          edits: [
+            TextEdit.insert(
+              Position.create(lastCodeLine + 1, 0),
+              `${fence}${lineEnding}`,
+            ),
+          ],
+        };
+      }
+      lastCodeLine = line.lineNumber;
+    }
+
+    const lastLine = document.lineCount - 1;
+    const lastText = document.lineAt(lastLine).text;
+    return {
+      title,
+      edits: [
+        lastText.trim() === ""
+          ? TextEdit.replace(
+              Range.create(lastLine, 0, lastLine, lastText.length),
+              fence,
+            )
+          : TextEdit.insert(
+              Position.create(lastLine, lastText.length),
+              `${lineEnding}${fence}`,
+            ),
+      ],
+    };
+  }
+
+  private static getInfoAnnotationFix(
+    line: WriterlyLine,
+  ): WriterlySyntaxFix | undefined {
+    const info = line.content.slice(CODE_FENCE.length);
+    const strippedInfo = info.replace(/\s+/g, "");
+    if (strippedInfo === info) return undefined;
+
+    const start = line.indent + CODE_FENCE.length;
+    return {
+      title: "Remove spaces from code block info annotation",
+      edits: [
+        TextEdit.replace(
+          Range.create(
+            line.lineNumber,
+            start,
+            line.lineNumber,
+            start + info.length,
+          ),
+          strippedInfo,
+        ),
+      ],
+    };
+  }
+
+  private static getEmptyTagFix(
+    document: WriterlyTextDocument,
+    tree: WriterlySyntaxTree,
+    line: WriterlyLine,
+  ): WriterlySyntaxFix | undefined {
+    const node = tree.nodeAt(line.lineNumber);
+    if (node?.kind !== "tag") return undefined;
+    if (node.attributes.length > 0 || node.children.length > 0) {
+      return undefined;
+    }
+
+    const lineNumber = line.lineNumber;
+    const range =
+      lineNumber + 1 < document.lineCount
+        ? Range.create(lineNumber, 0, lineNumber + 1, 0)
+        : Range.create(
+            Math.max(lineNumber - 1, 0),
+            lineNumber > 0 ? document.lineAt(lineNumber - 1).text.length : 0,
+            lineNumber,
+            line.text.length,
+          );
+    return { title: "Delete empty tag", edits: [TextEdit.del(range)] };
+  }
+
+  private static conflictsWithAny(edit: TextEdit, edits: TextEdit[]): boolean {
+    return edits.some(
+      (other) =>
+        (rangeUtils.compare(edit.range.start, other.range.end) < 0 &&
+          rangeUtils.compare(other.range.start, edit.range.end) < 0) ||
+        (rangeUtils.compare(edit.range.start, other.range.start) === 0 &&
+          rangeUtils.compare(edit.range.end, other.range.end) === 0),
+    );
+  }
+}
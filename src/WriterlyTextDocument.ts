@@ -0,0 +1,39 @@
+/*
+ * The slice of a text document the Writerly walker, parser and validator read.
+ * `vscode.TextDocument` satisfies it as is; the language server adapts its
+ * LSP documents to it and wraps files read from disk in a WriterlyTextSnapshot.
+ *
+ * Parsed trees are cached per document object and version, so an
+ * implementation should hand out the same object for every version of one
+ * open document.
+ */
+export interface WriterlyTextDocument {
+  readonly version: number;
+  readonly lineCount: number;
+  lineAt(line: number): { readonly text: string };
+  /** The line break the document uses, for edits that add lines. */
+  readonly lineEnding?: string;
+}
+
+const LINE_BREAK_REGEX = /\r\n|\r|\n/;
+
+export class WriterlyTextSnapshot implements WriterlyTextDocument {
+  private readonly lines: string[];
+  public readonly lineEnding: string;
+
+  constructor(
+    text: string,
+    public readonly version: number = 0,
+  ) {
+    this.lines = text.split(LINE_BREAK_REGEX);
+    this.lineEnding = LINE_BREAK_REGEX.exec(text)?.[0] ?? "\n";
+  }
+
+  public get lineCount(): number {
+    return this.lines.length;
+  }
+
+  public lineAt(line: number): { readonly text: string } {
+    return { text: this.lines[line] ?? "" };
+  }
+}
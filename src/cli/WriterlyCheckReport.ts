@@ -0,0 +1,176 @@
+import { pathToFileURL } from "url";
+import { DiagnosticSeverity } from "vscode-languageserver-types";
+import {
+  WRITERLY_DIAGNOSTIC_CODES,
+  type WriterlyDiagnosticCode,
+} from "../WriterlyDiagnostics";
+import type {
+  WriterlyCheckDiagnostic,
+  WriterlyCheckResult,
+} from "./WriterlyChecker";
+
+export type WriterlyCheckFormat = "human" | "json" | "sarif";
+
+export const WRITERLY_CHECK_FORMATS: readonly WriterlyCheckFormat[] = [
+  "human",
+  "json",
+  "sarif",
+];
+
+const TOOL_NAME = "writerly-check";
+const TOOL_INFORMATION_URI =
+  "https://github.com/vistuleB/writerly-vscode-extension";
+const SARIF_SCHEMA =
+  "https://json.schemastore.org/sarif-2.1.0.json";
+
+const SEVERITY_NAMES: Record<DiagnosticSeverity, string> = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "info",
+  [DiagnosticSeverity.Hint]: "hint",
+};
+
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "note",
+  [DiagnosticSeverity.Hint]: "note",
+};
+
+export function formatCheckResult(
+  result: WriterlyCheckResult,
+  format: WriterlyCheckFormat,
+  toolVersion: string,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(toJson(result), null, 2);
+    case "sarif":
+      return JSON.stringify(toSarif(result, toolVersion), null, 2);
+    default:
+      return toHuman(result);
+  }
+}
+
+function severityOf(entry: WriterlyCheckDiagnostic): DiagnosticSeverity {
+  return entry.diagnostic.severity ?? DiagnosticSeverity.Error;
+}
+
+/**
+ * One `file:line:column: severity message [code]` line per diagnostic, with
+ * continuation lines of multi-line messages indented, then a summary line.
+ */
+function toHuman(result: WriterlyCheckResult): string {
+  const lines = result.diagnostics.map((entry) => {
+    const { line, character } = entry.diagnostic.range.start;
+    const [firstLine, ...rest] = entry.diagnostic.message
+      .split("\n")
+      .map((messageLine) => messageLine.trim());
+    return [
+      `${entry.file}:${line + 1}:${character + 1}: ${
+        SEVERITY_NAMES[severityOf(entry)]
+      } ${firstLine} [${entry.code}]`,
+      ...rest.map((messageLine) => `    ${messageLine}`),
+    ].join("\n");
+  });
+
+  const fileCount = result.files.length;
+  lines.push(
+    `${plural(result.errorCount, "error")}, ${plural(
+      result.warningCount,
+      "warning",
+    )} in ${plural(fileCount, "Writerly file")}.`,
+  );
+  return lines.join("\n");
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function toJson(result: WriterlyCheckResult): object {
+  return {
+    root: result.rootDir,
+    files: result.files,
+    errorCount: result.errorCount,
+    warningCount: result.warningCount,
+    diagnostics: result.diagnostics.map((entry) => ({
+      file: entry.file,
+      rule: entry.rule,
+      code: entry.code,
+      severity: SEVERITY_NAMES[severityOf(entry)],
+      message: entry.diagnostic.message,
+      range: entry.diagnostic.range,
+    })),
+  };
+}
+
+function toSarif(result: WriterlyCheckResult, toolVersion: string): object {
+  const rules = Object.keys(
+    WRITERLY_DIAGNOSTIC_CODES,
+  ) as WriterlyDiagnosticCode[];
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: toolVersion,
+            informationUri: TOOL_INFORMATION_URI,
+            rules: rules.map((code) => ({
+              id: code,
+              shortDescription: {
+                text: WRITERLY_DIAGNOSTIC_CODES[code].description,
+              },
+              properties: { category: WRITERLY_DIAGNOSTIC_CODES[code].category },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          ROOT: { uri: `${pathToFileURL(result.rootDir).toString()}/` },
+        },
+        results: result.diagnostics.map((entry) => {
+          const { start, end } = entry.diagnostic.range;
+          return {
+            ruleId: entry.code,
+            ruleIndex: rules.indexOf(entry.code),
+            level: SARIF_LEVELS[severityOf(entry)],
+            message: { text: entry.diagnostic.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: {
+                    uri: toUriReference(entry.file),
+                    uriBaseId: "ROOT",
+                  },
+                  // SARIF regions are 1-based; an empty range still has to
+                  // cover a column
+                  region: {
+                    startLine: start.line + 1,
+                    startColumn: start.character + 1,
+                    endLine: end.line + 1,
+                    endColumn: Math.max(
+                      end.character + 1,
+                      start.line === end.line ? start.character + 2 : 1,
+                    ),
+                  },
+                },
+              },
+            ],
+          };
+        }),
+      },
+    ],
+  };
+}
+
+/**
+ * Turns a `/`-separated relative path into a relative URI reference. Writerly
+ * paths often have `#` segments, which would otherwise start a fragment.
+ */
+function toUriReference(relativePath: string): string {
+  return relativePath.split("/").map(encodeURIComponent).join("/");
+}
@@ -0,0 +1,221 @@
+import * as path from "path";
+import {
+  DiagnosticSeverity,
+  type Diagnostic,
+} from "vscode-languageserver-types";
+import {
+  applyDiagnosticSeverities,
+  getDiagnosticCategory,
+  getWriterlyDiagnosticCode,
+  type WriterlyDiagnosticCategory,
+  type WriterlyDiagnosticCode,
+  type WriterlyDiagnosticSeverities,
+} from "../WriterlyDiagnostics";
+import type { HandleGraph } from "../WriterlyProtocol";
+import {
+  WriterlyTextSnapshot,
+  type WriterlyTextDocument,
+} from "../WriterlyTextDocument";
+import { WriterlyAssemblyValidation } from "../server/WriterlyAssemblyValidation";
+import { WriterlyHandleGraph } from "../server/WriterlyHandleGraph";
+import { WriterlyHandleIndex } from "../server/WriterlyHandleIndex";
+import { WriterlySchemas } from "../server/WriterlySchemas";
+import { WriterlyWorkspace } from "../server/WriterlyWorkspace";
+
+export type WriterlyCheckRule = WriterlyDiagnosticCategory;
+
+export type WriterlyCheckDiagnostic = {
+  /** Path relative to the checked directory, with "/" separators. */
+  file: string;
+  rule: WriterlyCheckRule;
+  code: WriterlyDiagnosticCode;
+  diagnostic: Diagnostic;
+};
+
+export type WriterlyCheckOptions = {
+  unusedHandleWarnings: boolean;
+  missingFileWarnings: boolean;
+  /** Severity overrides by code, as in `writerly.diagnostics.severity`. */
+  severities?: WriterlyDiagnosticSeverities;
+  /** Allowed handle decorators, as in `writerly.allowedHandleDecorators`. */
+  allowedDecorators?: string[];
+};
+
+export type WriterlyCheckResult = {
+  rootDir: string;
+  files: string[];
+  diagnostics: WriterlyCheckDiagnostic[];
+  errorCount: number;
+  warningCount: number;
+};
+
+/*
+ * WriterlyChecker runs the language server's checks over a whole directory
+ * without an editor: syntax diagnostics from WriterlyStaticValidator, handle
+ * diagnostics and missing-file warnings from WriterlyHandleIndex, and tag
+ * schema diagnostics from WriterlySchemas, filtered by the files'
+ * `writerly-disable` directives. Unreadable schema files are reported too.
+ * Every Writerly file below the directory is indexed before any file is
+ * validated, so handles resolve against complete document trees, scoped
+ * exactly as in the editor.
+ */
+export class WriterlyChecker {
+  private readonly workspace = new WriterlyWorkspace();
+  private readonly handleIndex = new WriterlyHandleIndex(this.workspace);
+  private readonly schemas = new WriterlySchemas(this.workspace);
+  private readonly handleGraph = new WriterlyHandleGraph(
+    this.workspace,
+    this.handleIndex,
+  );
+
+  constructor(
+    private readonly rootDir: string,
+    private readonly options: WriterlyCheckOptions,
+  ) {}
+
+  public async check(): Promise<WriterlyCheckResult> {
+    const rootDir = path.resolve(this.rootDir);
+    this.workspace.setFolders([
+      { name: path.basename(rootDir), fsPath: rootDir },
+    ]);
+    await this.workspace.refresh();
+    this.handleIndex.setAllowedDecorators(this.options.allowedDecorators ?? []);
+    this.handleIndex.refreshWriterlyContainers();
+    await this.schemas.refresh();
+
+    const fsPaths = this.workspace.getWriterlyFiles().sort();
+    const documents = new Map<string, WriterlyTextDocument>();
+    const syntaxDiagnostics = new Map<string, Diagnostic[]>();
+    for (const fsPath of fsPaths) {
+      const document = new WriterlyTextSnapshot(
+        await this.workspace.readFile(fsPath),
+      );
+      documents.set(fsPath, document);
+      syntaxDiagnostics.set(fsPath, [
+        ...this.handleIndex.indexDocument(fsPath, document),
+        ...this.schemas.validateDocument(
+          fsPath,
+          document,
+          this.handleIndex.getHandleOccurrences(fsPath).definitions,
+        ),
+      ]);
+    }
+
+    const assemblyValidation = new WriterlyAssemblyValidation(
+      this.workspace,
+      this.handleIndex,
+      {
+        readDocument: async (fsPath) =>
+          documents.get(fsPath) ??
+          new WriterlyTextSnapshot(await this.workspace.readFile(fsPath)),
+      },
+    );
+    for (const rootDir of this.workspace.getTopmostWriterlyRoots()) {
+      const results = await assemblyValidation.validateTree(rootDir);
+      for (const [fsPath, fileDiagnostics] of results) {
+        syntaxDiagnostics.get(fsPath)?.push(...fileDiagnostics);
+      }
+    }
+
+    const diagnostics: WriterlyCheckDiagnostic[] = [];
+    for (const schemaFsPath of this.schemas.getSchemaFiles()) {
+      this.addDiagnostics(
+        diagnostics,
+        schemaFsPath,
+        this.schemas.getSchemaFileDiagnostics(schemaFsPath),
+      );
+    }
+    for (const [fsPath, document] of documents) {
+      const fileDiagnostics = [
+        ...(syntaxDiagnostics.get(fsPath) ?? []),
+        ...this.handleIndex.validateDocument(
+          fsPath,
+          this.options.unusedHandleWarnings,
+        ),
+      ];
+      if (this.options.missingFileWarnings) {
+        fileDiagnostics.push(
+          ...(await this.handleIndex.collectMissingFileDiagnostics(
+            fsPath,
+            document,
+          )),
+        );
+      }
+
+      this.addDiagnostics(
+        diagnostics,
+        fsPath,
+        this.handleIndex.applySuppressions(fsPath, fileDiagnostics, (code) =>
+          this.isDiagnosticCodeChecked(fsPath, code),
+        ),
+      );
+    }
+
+    diagnostics.sort(
+      (a, b) =>
+        (a.file < b.file ? -1 : a.file > b.file ? 1 : 0) ||
+        a.diagnostic.range.start.line - b.diagnostic.range.start.line ||
+        a.diagnostic.range.start.character -
+          b.diagnostic.range.start.character,
+    );
+
+    return {
+      rootDir,
+      files: fsPaths.map((fsPath) => this.workspace.asRelativePath(fsPath)),
+      diagnostics,
+      errorCount: diagnostics.filter(
+        ({ diagnostic }) => diagnostic.severity === DiagnosticSeverity.Error,
+      ).length,
+      warningCount: diagnostics.filter(
+        ({ diagnostic }) => diagnostic.severity === DiagnosticSeverity.Warning,
+      ).length,
+    };
+  }
+
+  /**
+   * Returns the handle reference graph of every document tree below the
+   * directory. Call after check(), which indexes the files.
+   */
+  public getHandleGraphs(): HandleGraph[] {
+    return this.handleGraph.getGraphs();
+  }
+
+  private addDiagnostics(
+    diagnostics: WriterlyCheckDiagnostic[],
+    fsPath: string,
+    fileDiagnostics: Diagnostic[],
+  ): void {
+    const file = this.workspace.asRelativePath(fsPath);
+    const reported = applyDiagnosticSeverities(
+      fileDiagnostics,
+      this.options.severities ?? {},
+    );
+    for (const diagnostic of reported) {
+      const code = getWriterlyDiagnosticCode(diagnostic);
+      // every check tags its diagnostics with a code; report nothing else
+      if (!code) continue;
+      diagnostics.push({
+        file,
+        rule: getDiagnosticCategory(code),
+        code,
+        diagnostic,
+      });
+    }
+  }
+
+  private isDiagnosticCodeChecked(
+    fsPath: string,
+    code: WriterlyDiagnosticCode,
+  ): boolean {
+    if (this.options.severities?.[code] === "off") return false;
+    if (code === "handle-unused") return this.options.unusedHandleWarnings;
+    switch (getDiagnosticCategory(code)) {
+      case "files":
+        return this.options.missingFileWarnings;
+      case "schema":
+        return this.schemas.getSchema(fsPath) !== undefined;
+      default:
+        return true;
+    }
+  }
+}
@@ -0,0 +1,185 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import {
+  isWriterlyDiagnosticCode,
+  WRITERLY_DIAGNOSTIC_SEVERITY_LEVELS,
+  type WriterlyDiagnosticSeverityLevel,
+} from "../WriterlyDiagnostics";
+import {
+  formatHandleGraphs,
+  HANDLE_GRAPH_FORMATS,
+  type HandleGraphFormat,
+} from "../WriterlyHandleGraphExport";
+import {
+  formatCheckResult,
+  WRITERLY_CHECK_FORMATS,
+  type WriterlyCheckFormat,
+} from "./WriterlyCheckReport";
+import { WriterlyChecker, type WriterlyCheckOptions } from "./WriterlyChecker";
+
+const USAGE = `Usage: writerly-check [options] <directory>
+
+Validates every Writerly file below <directory> and exits with status 1 when
+any error is found.
+
+Options:
+  --format <human|json|sarif>   output format (default: human)
+  --output <file>               write the report to <file> instead of stdout
+  --graph <file>                also write the handle reference graph of every
+                                document tree to <file>, as Graphviz DOT for
+                                a .dot file or JSON for a .json file
+  --no-unused-warnings          do not warn about unused handle definitions
+  --no-missing-file-warnings    do not warn about missing local files
+  --severity <code>=<level>     override the severity of a diagnostic code;
+                                level is error, warning, info or off
+                                (repeatable)
+  --allowed-decorator <name>    allow a handle decorator, without its '#';
+                                once given, other decorators are warned
+                                about (repeatable)
+  -h, --help                    show this help`;
+
+type CliArguments = {
+  directory: string;
+  format: WriterlyCheckFormat;
+  output?: string;
+  graph?: { file: string; format: HandleGraphFormat };
+  options: WriterlyCheckOptions;
+};
+
+class UsageError extends Error {}
+
+function parseArguments(argv: string[]): CliArguments | undefined {
+  let directory: string | undefined;
+  let format: WriterlyCheckFormat = "human";
+  let output: string | undefined;
+  let graph: CliArguments["graph"];
+  const options: WriterlyCheckOptions = {
+    unusedHandleWarnings: true,
+    missingFileWarnings: true,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "-h" || arg === "--help") return undefined;
+
+    if (arg === "--format" || arg.startsWith("--format=")) {
+      const value = arg.includes("=") ? arg.split("=")[1] : argv[++i];
+      if (!WRITERLY_CHECK_FORMATS.includes(value as WriterlyCheckFormat)) {
+        throw new UsageError(`Unknown format '${value ?? ""}'.`);
+      }
+      format = value as WriterlyCheckFormat;
+    } else if (arg === "--output" || arg.startsWith("--output=")) {
+      output = arg.includes("=") ? arg.split("=")[1] : argv[++i];
+      if (!output) throw new UsageError("--output needs a file name.");
+    } else if (arg === "--graph" || arg.startsWith("--graph=")) {
+      const file = arg.includes("=") ? arg.split("=")[1] : argv[++i];
+      if (!file) throw new UsageError("--graph needs a file name.");
+      const format = path.extname(file).slice(1) as HandleGraphFormat;
+      if (!HANDLE_GRAPH_FORMATS.includes(format)) {
+        throw new UsageError(
+          `Cannot tell the graph format of '${file}'; use a .dot or .json file.`,
+        );
+      }
+      graph = { file, format };
+    } else if (arg === "--no-unused-warnings") {
+      options.unusedHandleWarnings = false;
+    } else if (arg === "--no-missing-file-warnings") {
+      options.missingFileWarnings = false;
+    } else if (arg === "--severity" || arg.startsWith("--severity=")) {
+      const value = arg.includes("=")
+        ? arg.slice(arg.indexOf("=") + 1)
+        : argv[++i];
+      const [code, level] = (value ?? "").split("=");
+      if (!isWriterlyDiagnosticCode(code)) {
+        throw new UsageError(`Unknown diagnostic code '${code ?? ""}'.`);
+      }
+      if (
+        !WRITERLY_DIAGNOSTIC_SEVERITY_LEVELS.includes(
+          level as WriterlyDiagnosticSeverityLevel,
+        )
+      ) {
+        throw new UsageError(`Unknown severity '${level ?? ""}' for ${code}.`);
+      }
+      options.severities = {
+        ...options.severities,
+        [code]: level as WriterlyDiagnosticSeverityLevel,
+      };
+    } else if (
+      arg === "--allowed-decorator" ||
+      arg.startsWith("--allowed-decorator=")
+    ) {
+      const value = arg.includes("=")
+        ? arg.slice(arg.indexOf("=") + 1)
+        : argv[++i];
+      if (!value) throw new UsageError("--allowed-decorator needs a name.");
+      options.allowedDecorators = [...(options.allowedDecorators ?? []), value];
+    } else if (arg.startsWith("-")) {
+      throw new UsageError(`Unknown option '${arg}'.`);
+    } else if (directory === undefined) {
+      directory = arg;
+    } else {
+      throw new UsageError("Only one directory can be checked at a time.");
+    }
+  }
+
+  if (directory === undefined) throw new UsageError("No directory given.");
+  return { directory, format, output, graph, options };
+}
+
+function readToolVersion(): string {
+  try {
+    const packageJson = path.join(__dirname, "..", "..", "package.json");
+    return JSON.parse(fs.readFileSync(packageJson, "utf8")).version ?? "";
+  } catch {
+    return "";
+  }
+}
+
+async function main(): Promise<number> {
+  let args: CliArguments | undefined;
+  try {
+    args = parseArguments(process.argv.slice(2));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!args) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (!fs.statSync(args.directory, { throwIfNoEntry: false })?.isDirectory()) {
+    console.error(`Not a directory: ${args.directory}`);
+    return 2;
+  }
+
+  const checker = new WriterlyChecker(args.directory, args.options);
+  const result = await checker.check();
+  const report = formatCheckResult(result, args.format, readToolVersion());
+  if (args.output) {
+    fs.writeFileSync(args.output, `${report}\n`);
+  } else {
+    console.log(report);
+  }
+  if (args.graph) {
+    const graphs = formatHandleGraphs(
+      checker.getHandleGraphs(),
+      args.graph.format,
+    );
+    fs.writeFileSync(args.graph.file, `${graphs}\n`);
+  }
+
+  return result.errorCount > 0 ? 1 : 0;
+}
+
+main().then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error("writerly-check failed:", error);
+    process.exitCode = 2;
+  },
+);
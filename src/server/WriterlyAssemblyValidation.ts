@@ -0,0 +1,90 @@
+import type { Diagnostic } from "vscode-languageserver-types";
+import {
+  WriterlyAssemblyValidator,
+  type AssemblyValidationSource,
+} from "../WriterlyAssemblyValidator";
+import {
+  getAssemblyOrder,
+  isCommentedPath,
+} from "../WriterlyDocumentAssembly";
+import { isPathUnderDirectory } from "../WriterlyDocumentTrees";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import type { WriterlyHandleIndex } from "./WriterlyHandleIndex";
+import type { WriterlyWorkspace } from "./WriterlyWorkspace";
+
+type FSPath = string;
+
+/**
+ * What WriterlyAssemblyValidation needs from its caller: the current contents
+ * of a file, open or on disk.
+ */
+export interface AssemblyValidationHost {
+  readDocument(fsPath: FSPath): Promise<WriterlyTextDocument>;
+}
+
+/*
+ * WriterlyAssemblyValidation runs WriterlyAssemblyValidator over the document
+ * trees of the workspace. A tree is everything below a topmost root
+ * directory; its files outside `#` paths are assembled in writerly.gleam's
+ * order. Files under `#` paths are not assembled and get no diagnostics.
+ */
+export class WriterlyAssemblyValidation {
+  constructor(
+    private readonly workspace: WriterlyWorkspace,
+    private readonly handleIndex: WriterlyHandleIndex,
+    private readonly host: AssemblyValidationHost,
+  ) {}
+
+  /**
+   * Returns the root directory of the document tree `fsPath` is in, or
+   * undefined when it is in none.
+   */
+  public getRoot(fsPath: FSPath): FSPath | undefined {
+    return this.workspace
+      .getTopmostWriterlyRoots()
+      .find((rootDir) => isPathUnderDirectory(fsPath, rootDir));
+  }
+
+  /**
+   * Returns the assembly diagnostics of every file of the document tree below
+   * `rootDir`, with an empty list for the files without any.
+   */
+  public async validateTree(
+    rootDir: FSPath,
+  ): Promise<Map<FSPath, Diagnostic[]>> {
+    const files = this.handleIndex
+      .getIndexedFiles()
+      .filter((fsPath) => isPathUnderDirectory(fsPath, rootDir))
+      .sort();
+    const result = new Map<FSPath, Diagnostic[]>(
+      files.map((fsPath) => [fsPath, []]),
+    );
+
+    const order = getAssemblyOrder(
+      rootDir,
+      files.filter((fsPath) => !isCommentedPath(fsPath)),
+    );
+    // writerly.gleam refuses such a tree outright; there is nothing to check
+    if (order.kind !== "ok") return result;
+
+    const sources: AssemblyValidationSource[] = [];
+    for (const file of order.files) {
+      try {
+        sources.push({
+          fsPath: file.fsPath,
+          depth: file.depth,
+          document: await this.host.readDocument(file.fsPath),
+        });
+      } catch (error) {
+        console.error(`Failed to read ${file.fsPath}:`, error);
+        return result;
+      }
+    }
+
+    const diagnostics = WriterlyAssemblyValidator.validateDocumentTree(sources);
+    for (const [fsPath, fileDiagnostics] of diagnostics) {
+      result.set(fsPath, fileDiagnostics);
+    }
+    return result;
+  }
+}
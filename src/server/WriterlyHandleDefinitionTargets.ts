@@ -0,0 +1,112 @@
+import { Range, type Position } from "vscode-languageserver-types";
+import { isInAccessibleHashIsland } from "../WriterlyDocumentTrees";
+import {
+  WriterlyParser,
+  type WriterlySyntaxTree,
+  type WriterlyTagNode,
+} from "../WriterlyParser";
+import type { HandleDefinitionTarget } from "../WriterlyProtocol";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+
+type FSPath = string;
+
+const ATTRIBUTE_INDENT = 4;
+
+/**
+ * What WriterlyHandleDefinitionTargets needs from the language server:
+ * current document contents (open or on disk), the files of a document tree,
+ * the URI the client knows a file by, and the path shown to users for it.
+ */
+export interface HandleDefinitionTargetsHost {
+  readDocument(fsPath: FSPath): Promise<WriterlyTextDocument>;
+  getDocumentTreeFiles(fsPath: FSPath): FSPath[];
+  getDocumentUri(fsPath: FSPath): string;
+  getDisplayPath(fsPath: FSPath): string;
+}
+
+/*
+ * WriterlyHandleDefinitionTargets lists the tags a `handle=` line can be
+ * added to for the create-definition quick fix of an undefined handle: every
+ * tag of the document tree in a hash island the usage's file can see. The
+ * tags enclosing the usage come first, innermost first, then the rest of its
+ * file and the other files of the tree. Each target carries the edit that
+ * inserts the attribute line below the tag line, one indentation step deeper,
+ * ending in the line break the document uses.
+ */
+export class WriterlyHandleDefinitionTargets {
+  constructor(private readonly host: HandleDefinitionTargetsHost) {}
+
+  public async getTargets(
+    fsPath: FSPath,
+    handleName: string,
+    position: Position,
+  ): Promise<HandleDefinitionTarget[]> {
+    const targets: HandleDefinitionTarget[] = [];
+    const otherFiles = this.host
+      .getDocumentTreeFiles(fsPath)
+      .filter(
+        (other) =>
+          other !== fsPath && isInAccessibleHashIsland(fsPath, other),
+      );
+
+    for (const targetFsPath of [fsPath, ...otherFiles]) {
+      let document: WriterlyTextDocument;
+      try {
+        document = await this.host.readDocument(targetFsPath);
+      } catch (error) {
+        console.error(`Failed to read ${targetFsPath}:`, error);
+        continue;
+      }
+
+      const tree = WriterlyParser.parse(document);
+      let tags = tree.getAllTags();
+      if (targetFsPath === fsPath) {
+        const enclosingTags = tree.getTagPathAt(position.line).reverse();
+        tags = [
+          ...enclosingTags,
+          ...tags.filter((tag) => !enclosingTags.includes(tag)),
+        ];
+      }
+
+      for (const tag of tags) {
+        targets.push(
+          this.createTarget(targetFsPath, document, tree, tag, handleName),
+        );
+      }
+    }
+    return targets;
+  }
+
+  private createTarget(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    tree: WriterlySyntaxTree,
+    tag: WriterlyTagNode,
+    handleName: string,
+  ): HandleDefinitionTarget {
+    const line = tag.range.start.line;
+    const lineEnding = document.lineEnding ?? "\n";
+    const attributeLine = `${" ".repeat(tag.indent + ATTRIBUTE_INDENT)}handle=${handleName}`;
+
+    // a tag on the last line has no line below it to insert before
+    const isLastLine = line + 1 >= document.lineCount;
+    const lineEnd = document.lineAt(line).text.length;
+    const edit = isLastLine
+      ? {
+          range: Range.create(line, lineEnd, line, lineEnd),
+          newText: `${lineEnding}${attributeLine}`,
+        }
+      : {
+          range: Range.create(line + 1, 0, line + 1, 0),
+          newText: `${attributeLine}${lineEnding}`,
+        };
+
+    return {
+      uri: this.host.getDocumentUri(fsPath),
+      displayPath: this.host.getDisplayPath(fsPath),
+      line,
+      tagPath: tree.getTagPathAt(line).map((pathTag) => pathTag.name),
+      edit,
+    };
+  }
+}
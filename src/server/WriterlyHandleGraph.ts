@@ -0,0 +1,107 @@
+import * as path from "path";
+import { URI } from "vscode-uri";
+import { isPathUnderDirectory } from "../WriterlyDocumentTrees";
+import type {
+  HandleGraph,
+  HandleGraphEdge,
+  HandleGraphNode,
+} from "../WriterlyProtocol";
+import type { WriterlyHandleIndex } from "./WriterlyHandleIndex";
+import type { WriterlyWorkspace } from "./WriterlyWorkspace";
+
+type FSPath = string;
+
+/*
+ * WriterlyHandleGraph builds the file-level graph of handle references of a
+ * document tree from the handle index: one node per Writerly file, and an edge
+ * from a file to every other file holding a definition its usages resolve to,
+ * weighted by the number of those usages. Usages that resolve inside their
+ * own file are counted on the node instead; usages that do not resolve to a
+ * single definition are left out, as they are for go to definition.
+ *
+ * Nodes are named by their path inside the topmost root directory of the
+ * tree, so the graph reads the same on every machine.
+ */
+export class WriterlyHandleGraph {
+  constructor(
+    private readonly workspace: WriterlyWorkspace,
+    private readonly handleIndex: WriterlyHandleIndex,
+  ) {}
+
+  /**
+   * Returns the graph of the document tree `fsPath` belongs to, or undefined
+   * when the file is not in any.
+   */
+  public getGraph(fsPath: FSPath): HandleGraph | undefined {
+    const root = this.workspace
+      .getTopmostWriterlyRoots()
+      .find((rootDir) => isPathUnderDirectory(fsPath, rootDir));
+    return root === undefined ? undefined : this.createGraph(root);
+  }
+
+  /**
+   * Returns the graph of every document tree of the workspace, sorted by the
+   * path of their root directories.
+   */
+  public getGraphs(): HandleGraph[] {
+    return this.workspace
+      .getTopmostWriterlyRoots()
+      .sort()
+      .map((root) => this.createGraph(root));
+  }
+
+  private createGraph(root: FSPath): HandleGraph {
+    const files = this.handleIndex
+      .getIndexedFiles()
+      .filter((fsPath) => isPathUnderDirectory(fsPath, root))
+      .sort();
+    const toId = (fsPath: FSPath) =>
+      path.relative(root, fsPath).split(path.sep).join("/");
+
+    const nodes: HandleGraphNode[] = [];
+    const edges = new Map<string, HandleGraphEdge>();
+    for (const fsPath of files) {
+      const node: HandleGraphNode = {
+        id: toId(fsPath),
+        definitionCount:
+          this.handleIndex.getHandleOccurrences(fsPath).definitions.length,
+        internalUsageCount: 0,
+      };
+      nodes.push(node);
+
+      for (const usage of this.handleIndex.getResolvedUsages(fsPath)) {
+        if (usage.definitionFsPath === fsPath) {
+          node.internalUsageCount++;
+          continue;
+        }
+
+        const to = toId(usage.definitionFsPath);
+        const key = `${node.id}\n${to}`;
+        const edge = edges.get(key) ?? {
+          from: node.id,
+          to,
+          weight: 0,
+          handles: [],
+        };
+        edge.weight++;
+        if (!edge.handles.includes(usage.handleName)) {
+          edge.handles.push(usage.handleName);
+        }
+        edges.set(key, edge);
+      }
+    }
+
+    return {
+      name: this.workspace.getDisplayPath(root),
+      rootUri: URI.file(root).toString(),
+      nodes,
+      edges: [...edges.values()]
+        .map((edge) => ({ ...edge, handles: edge.handles.sort() }))
+        .sort((a, b) => compareIds(a.from, b.from) || compareIds(a.to, b.to)),
+    };
+  }
+}
+
+function compareIds(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,210 @@
+import {
+  MarkupKind,
+  type Hover,
+  type Position,
+  type Range,
+} from "vscode-languageserver-types";
+import { getHashIsland } from "../WriterlyDocumentTrees";
+import { WriterlyParser } from "../WriterlyParser";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import type {
+  HandleCandidate,
+  HandleCandidateStatus,
+  HandleDescription,
+  WriterlyHandleIndex,
+} from "./WriterlyHandleIndex";
+
+type FSPath = string;
+
+const CONTEXT_LINES = 2;
+
+/**
+ * What WriterlyHandleHover needs from the language server: current document
+ * contents (open or on disk) and the path shown to users for a file.
+ */
+export interface HandleHoverHost {
+  readDocument(fsPath: FSPath): Promise<WriterlyTextDocument>;
+  getDisplayPath(fsPath: FSPath): string;
+}
+
+/*
+ * WriterlyHandleHover answers hovers on handle usages and definitions. A
+ * usage that resolves shows where its definition lives: the file, line and
+ * enclosing tags, with a few lines of text around it. A usage that resolves
+ * ambiguously or only to definitions in hash islands its file cannot see
+ * lists every candidate instead, each with the reason it is or is not the one
+ * the usage gets. A definition shows how many usages refer to it. Both list
+ * the decorators the definition carries.
+ */
+export class WriterlyHandleHover {
+  constructor(
+    private readonly handleIndex: WriterlyHandleIndex,
+    private readonly host: HandleHoverHost,
+  ) {}
+
+  public async getHover(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): Promise<Hover | undefined> {
+    const description = this.handleIndex.describeHandleAt(
+      fsPath,
+      document,
+      position,
+    );
+    if (!description) return undefined;
+
+    const sections =
+      description.kind === "definition"
+        ? this.describeDefinition(fsPath, description)
+        : await this.describeUsage(fsPath, description);
+
+    return {
+      contents: { kind: MarkupKind.Markdown, value: sections.join("\n\n") },
+      range: description.range,
+    };
+  }
+
+  private async describeUsage(
+    fsPath: FSPath,
+    description: HandleDescription,
+  ): Promise<string[]> {
+    const title = `**Handle** \`${description.handleName}\``;
+    switch (description.resolution) {
+      case "notFound":
+        return [title, "No definition in this document tree."];
+      case "ok": {
+        const resolved = description.candidates.find(
+          (candidate) => candidate.status === "resolved",
+        )!;
+        return [
+          title,
+          ...this.describeDecorators(description),
+          ...(await this.describeLocation(resolved)),
+        ];
+      }
+      case "multiple":
+        return [
+          title,
+          "No single definition is visible from here:",
+          this.describeCandidates(fsPath, description.candidates),
+        ];
+      case "inaccessible":
+        return [
+          title,
+          `Every definition lies in a hash island not visible from ${this.describeIsland(fsPath)}:`,
+          this.describeCandidates(fsPath, description.candidates),
+        ];
+    }
+  }
+
+  private describeDefinition(
+    fsPath: FSPath,
+    description: HandleDescription,
+  ): string[] {
+    const { usageCount } = description;
+    const sections = [
+      `**Handle definition** \`${description.handleName}\``,
+      ...this.describeDecorators(description),
+      `${usageCount} ${usageCount === 1 ? "usage" : "usages"} in this document tree.`,
+    ];
+
+    const others = description.candidates.filter(
+      (candidate) =>
+        candidate.fsPath !== fsPath ||
+        candidate.range.start.line !== description.range.start.line,
+    );
+    if (others.length > 0) {
+      sections.push(
+        "Also defined at:",
+        this.describeCandidates(fsPath, others),
+      );
+    }
+    return sections;
+  }
+
+  private describeDecorators(description: HandleDescription): string[] {
+    if (description.decorators.length === 0) return [];
+
+    const decorators = description.decorators.map(
+      (decorator) => `\`#${decorator}\``,
+    );
+    return [`Decorators: ${decorators.join(" ")}`];
+  }
+
+  private async describeLocation(candidate: HandleCandidate): Promise<string[]> {
+    const sections = [`Defined in ${this.formatLocation(candidate)}`];
+
+    let document: WriterlyTextDocument;
+    try {
+      document = await this.host.readDocument(candidate.fsPath);
+    } catch {
+      return sections;
+    }
+
+    const line = candidate.range.start.line;
+    const tagPath = WriterlyParser.parse(document)
+      .getTagPathAt(line)
+      .map((tag) => tag.name);
+    if (tagPath.length > 0) {
+      sections.push(`Inside \`${tagPath.join(" > ")}\``);
+    }
+    sections.push(this.getContext(document, candidate.range));
+    return sections;
+  }
+
+  private getContext(document: WriterlyTextDocument, range: Range): string {
+    const first = Math.max(0, range.start.line - CONTEXT_LINES);
+    const last = Math.min(
+      document.lineCount - 1,
+      range.start.line + CONTEXT_LINES,
+    );
+    const lines: string[] = [];
+    for (let line = first; line <= last; line++) {
+      lines.push(document.lineAt(line).text);
+    }
+    // a fence longer than any backtick run in the text keeps it intact
+    const longestRun = Math.max(
+      0,
+      ...lines.flatMap((text) => text.match(/`+/g) ?? []).map((run) => run.length),
+    );
+    const fence = "`".repeat(Math.max(3, longestRun + 1));
+    return [`${fence}writerly`, ...lines, fence].join("\n");
+  }
+
+  private describeCandidates(
+    fsPath: FSPath,
+    candidates: HandleCandidate[],
+  ): string {
+    return candidates
+      .map(
+        (candidate) =>
+          `- ${this.formatLocation(candidate)}: ${this.describeStatus(fsPath, candidate)}`,
+      )
+      .join("\n");
+  }
+
+  private describeStatus(fsPath: FSPath, candidate: HandleCandidate): string {
+    const island = this.describeIsland(candidate.fsPath);
+    const reasons: Record<HandleCandidateStatus, string> = {
+      resolved: "the definition used here",
+      duplicate: `defined more than once in ${island}, so none of them is used`,
+      shadowed:
+        "visible from here, but a definition in a nearer hash island takes precedence",
+      inaccessible: `${island} is not visible from ${this.describeIsland(fsPath)}`,
+    };
+    return reasons[candidate.status];
+  }
+
+  private describeIsland(fsPath: FSPath): string {
+    const island = getHashIsland(fsPath);
+    if (island === undefined) return "the shared part of the document tree";
+
+    return `hash island \`${this.host.getDisplayPath(island)}\``;
+  }
+
+  private formatLocation(candidate: HandleCandidate): string {
+    const displayPath = this.host.getDisplayPath(candidate.fsPath);
+    return `\`${displayPath}:${candidate.range.start.line + 1}\``;
+  }
+}
@@ -0,0 +1,2510 @@
+import * as path from "path";
+import {
+  AnnotatedTextEdit,
+  ChangeAnnotation,
+  CodeAction,
+  CodeActionKind,
+  CodeLens,
+  CompletionItem,
+  CompletionItemKind,
+  Diagnostic,
+  DocumentLink,
+  Location,
+  Position,
+  Range,
+  TextDocumentEdit,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver-types";
+import { URI } from "vscode-uri";
+import {
+  createWriterlyDiagnostic,
+  getWriterlyDiagnosticCode,
+  type WriterlyDiagnosticCode,
+} from "../WriterlyDiagnostics";
+import { LineType } from "../WriterlyDocumentWalker";
+import {
+  WriterlyParser,
+  type WriterlyAttributeNode,
+  type WriterlyLine,
+  type WriterlySyntaxTree,
+} from "../WriterlyParser";
+import type { WriterlyHandleNameDiagnosticData } from "../WriterlySchema";
+import WriterlyStaticValidator from "../WriterlyStaticValidator";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import {
+  getHashIslandDepth,
+  getDocumentTreeKeys,
+  isInAccessibleHashIsland,
+  isInSameHashIsland,
+  isInSameWriterlyDocumentTree,
+  isPathUnderDirectory,
+  steinbergerDistance,
+} from "../WriterlyDocumentTrees";
+import { WriterlyPathResolver } from "../WriterlyPathResolver";
+import {
+  CREATE_HANDLE_DEFINITION_COMMAND,
+  OPEN_LOCATION_COMMAND,
+  SHOW_REFERENCES_COMMAND,
+} from "../WriterlyProtocol";
+import {
+  WriterlySuppressions,
+  type DiagnosticCodeCheck,
+} from "../WriterlySuppressions";
+import { rangeUtils } from "../utils/range-utils";
+import { stringUtils } from "../utils/string-utils";
+import type { WriterlyWorkspace } from "./WriterlyWorkspace";
+
+/*
+ * WriterlyHandleIndex owns the handle facts of every indexed Writerly file and
+ * answers every handle question the language server is asked. It holds no
+ * connection, timers or open-document bookkeeping; WriterlyLanguageServer
+ * decides when documents are (re)indexed and where results are sent.
+ *
+ * Maintained state:
+ * - definitionsByFile: source-of-truth cache for handle definitions parsed
+ *   from each indexed Writerly file.
+ * - handleLinks: maps each file path to the handle usages extracted from that
+ *   file. Each usage stores the handle name, source file path, and current
+ *   validation state. This is the source-of-truth cache for usages.
+ * - definitions: derived map from handle name to all indexed definitions.
+ *   Updated for the handles a re-indexed document defined before or defines
+ *   now, and rebuilt from definitionsByFile when document trees change.
+ * - usageCounts: derived map from handle name to usage counts per document
+ *   tree, so unused-handle diagnostics run against a complete current usage
+ *   index. A re-indexed document's old usages are taken out and its new ones
+ *   added; it is rebuilt from handleLinks when document trees change.
+ * - lineFacts: per-line syntax diagnostics, handle definitions and usages,
+ *   keyed by the identity of the parser's line records. Records of lines an
+ *   edit did not touch survive re-parsing, so reindexing a document only
+ *   extracts facts for the re-walked region.
+ * - titledTags: the tags with a `title=` attribute in each file, for
+ *   workspace symbol search.
+ * - writerlyContainers: stores directories that directly contain .wly files.
+ *   Broad document-tree membership
+ *   ignores hash-commented path segments; handle lookup and duplicate
+ *   diagnostics then apply hash-island scoping within that tree.
+ *
+ * Answers provided:
+ * - syntax diagnostics from WriterlyStaticValidator while indexing documents
+ * - invalid handle names, unresolved usages, duplicate definitions, optionally
+ *   unused definitions, and missing-file warnings for path-bearing attributes
+ * - document links for >>handle usages, resolved lazily to their definition
+ * - definitions: a usage resolves to its unambiguous definition, a definition
+ *   lists its usages in the current document tree
+ * - references: the usages, and optionally the definitions, of the handle
+ *   under the cursor in the current document tree, plus "N references" code
+ *   lenses above definitions
+ * - rename edits for handle attribute definitions, in-text definitions, and
+ *   usages across the current document tree, and for the decorators of
+ *   in-text definitions; handle renames to invalid names, or to names already
+ *   defined where the renamed handle is visible, are refused
+ * - visible handle names for completion after >>, and the decorators used in
+ *   the document tree for completion in in-text definitions
+ * - unknown-decorator warnings when allowed decorators are set
+ * - the unused definitions of a file, for bulk removal
+ * - how the handle under the cursor resolves and why, for hovers
+ * - go-to-definition quick fixes for ambiguous usages; "did you mean" and
+ *   create-definition quick fixes for undefined usages
+ */
+
+enum ValidationState {
+  UNKNOWN = "unknown",
+  OK = "ok",
+  ERROR = "error",
+}
+
+const MAX_HANDLE_SUGGESTIONS = 3;
+
+type FSPath = string;
+type HandleName = string;
+type DocumentTreeKey = string;
+type UsageCounts = Map<HandleName, Map<DocumentTreeKey, number>>;
+
+type MissingFileValidationCache = {
+  fileExists: Map<string, Promise<boolean>>;
+  localPathExists: Map<string, Promise<boolean>>;
+  possibleFilePaths: Map<string, Promise<string[]>>;
+  possibleDirPaths: Map<string, Promise<string[]>>;
+};
+
+type HandleDefinition = {
+  fsPath: FSPath;
+  range: Range;
+  decorators: HandleDecorator[];
+};
+
+/** Where a definition is; enough to tell definitions apart. */
+type DefinitionSite = Pick<HandleDefinition, "fsPath" | "range">;
+
+type HandleLink = {
+  range: Range;
+  handleName: HandleName;
+  fsPath: FSPath;
+  validated: ValidationState;
+  suppressDiagnostics: boolean;
+};
+
+type HandleDiagnosticData = {
+  handleName: HandleName;
+};
+
+type HandleLinkData = {
+  handleName: HandleName;
+  fsPath: FSPath;
+};
+
+type ReferenceCodeLensData = {
+  handleName: HandleName;
+  fsPath: FSPath;
+};
+
+type ParsedDocumentFacts = {
+  definitions: Map<HandleName, HandleDefinition[]>;
+  handleLinks: HandleLink[];
+  titledTags: TitledTag[];
+};
+
+type LineFacts = {
+  lineNumber: number;
+  diagnostics: Diagnostic[];
+  definitions: HandleAtPosition[];
+  handleLinks: HandleLink[];
+};
+
+export type HandleAtPosition = {
+  handleName: HandleName;
+  range: Range;
+  /** The decorators of an in-text definition such as `#name#wide##<<`. */
+  decorators?: HandleDecorator[];
+};
+
+/**
+ * A tag with a `title=` attribute, listed by workspace symbol search.
+ */
+export type TitledTag = {
+  tagName: string;
+  title: string;
+  /** The `|> name` part of the tag line. */
+  range: Range;
+};
+
+export type HandleDecorator = {
+  /** The decorator without its leading `#`. */
+  name: string;
+  range: Range;
+};
+
+export type HandleUsage = {
+  fsPath: FSPath;
+  range: Range;
+  handleName: HandleName;
+};
+
+/**
+ * A usage that resolves to a single definition, with the file that
+ * definition is in.
+ */
+export type ResolvedHandleUsage = HandleUsage & {
+  definitionFsPath: FSPath;
+};
+
+export type FileReference = {
+  attributeKey: string;
+  filePath: string;
+  range: Range;
+};
+
+/**
+ * How a definition relates to a usage in a given file:
+ * - resolved: the definition the usage resolves to
+ * - duplicate: defined more than once in its own hash island
+ * - shadowed: visible, but a definition in a nearer island takes precedence
+ * - inaccessible: in a hash island the file cannot see
+ */
+export type HandleCandidateStatus =
+  | "resolved"
+  | "duplicate"
+  | "shadowed"
+  | "inaccessible";
+
+export type HandleCandidate = {
+  fsPath: FSPath;
+  range: Range;
+  status: HandleCandidateStatus;
+};
+
+export type HandleDescription = {
+  handleName: HandleName;
+  /** The range of the hovered handle name. */
+  range: Range;
+  kind: "usage" | "definition";
+  resolution: HandleResolution["kind"];
+  /** Every definition of the handle in the document tree. */
+  candidates: HandleCandidate[];
+  usageCount: number;
+  /**
+   * The decorators of the hovered definition, or of the definition a usage
+   * resolves to.
+   */
+  decorators: string[];
+};
+
+/**
+ * The answer to a rename request: the edits, with a label the refactor
+ * preview shows for them, or why the rename is refused.
+ */
+export type HandleRename =
+  | { kind: "edits"; label: string; edit: WorkspaceEdit }
+  | { kind: "refused"; message: string };
+
+const RENAME_ANNOTATION_ID = "writerly.rename";
+
+/**
+ * Marks every edit of a rename as needing confirmation under its label, so
+ * that clients show all affected files in their refactor preview before
+ * applying it. `getVersion` gives the version of an open document, or null.
+ */
+export function toConfirmedRenameEdit(
+  rename: Extract<HandleRename, { kind: "edits" }>,
+  getVersion: (uri: string) => number | null,
+): WorkspaceEdit {
+  return {
+    documentChanges: Object.entries(rename.edit.changes ?? {}).map(
+      ([uri, edits]) =>
+        TextDocumentEdit.create(
+          { uri, version: getVersion(uri) },
+          edits.map((edit) =>
+            AnnotatedTextEdit.replace(
+              edit.range,
+              edit.newText,
+              RENAME_ANNOTATION_ID,
+            ),
+          ),
+        ),
+    ),
+    changeAnnotations: {
+      [RENAME_ANNOTATION_ID]: ChangeAnnotation.create(rename.label, true),
+    },
+  };
+}
+
+export type DefinitionTargets = {
+  locations: Location[];
+  message?: string;
+};
+
+type HandleResolution =
+  | { kind: "ok"; definition: HandleDefinition }
+  | { kind: "notFound" }
+  | { kind: "multiple"; definitions: HandleDefinition[] }
+  | { kind: "inaccessible"; definitions: HandleDefinition[] };
+
+const HANDLE_CHARS: string = "\\p{L}\\p{N}\\p{M}_.:'\\-\\^";
+const HANDLE_END_CHARS: string = "\\p{L}\\p{N}\\p{M}_'\\^";
+const HANDLE_REGEX_STRING: string = `(?:[${HANDLE_CHARS}]*[${HANDLE_END_CHARS}])`;
+const HANDLE_DEF_RENAME_REGEX = new RegExp(
+  `^\\s*(?:!!\\s*)?handle=\\s*(${HANDLE_REGEX_STRING})(#|\\s|$)`,
+  "u",
+);
+const USAGE_REGEX = new RegExp(`>>(${HANDLE_REGEX_STRING})`, "gu");
+const LOOSE_HANDLE_VALUE_REGEX = /^[^\s#|]+/u;
+const ATTRIBUTE_KEY_REGEX = /^[A-Za-z0-9_.:-]+$/;
+
+// Decorator chars are HANDLE_CHARS minus '.' and '^'
+const HANDLE_DECORATOR_CHARS: string = "\\p{L}\\p{N}\\p{M}_:'\\-";
+const HANDLE_DECORATOR_REGEX_STRING: string = `#[${HANDLE_DECORATOR_CHARS}]+`;
+const HANDLE_DECORATORS_REGEX_STRING: string = `(?:${HANDLE_DECORATOR_REGEX_STRING})*`;
+// Matches "#handleName[decorators]##<<" or "handleName##<<" at start of content or after space, '{', '(', or '['.
+// "#name#wide#no", the decorator being typed last
+const DECORATOR_PREFIX_REGEX = new RegExp(
+  `#${HANDLE_REGEX_STRING}${HANDLE_DECORATORS_REGEX_STRING}#([${HANDLE_DECORATOR_CHARS}]*)$`,
+  "u",
+);
+const IN_TEXT_DEF_REGEX = new RegExp(
+  `(?:#(${HANDLE_REGEX_STRING})(${HANDLE_DECORATORS_REGEX_STRING})##<<|(?:^|[ {(\\[])(${HANDLE_REGEX_STRING})##<<)`,
+  "gu",
+);
+const MISSING_FILE_WARNING_ATTRIBUTE_NAMES = new Set([
+  "original",
+  "poster",
+  "cover",
+  "image",
+  "thumbnail",
+  "preview",
+  "logo",
+  "icon",
+  "favicon",
+  "background",
+  "file",
+  "source",
+]);
+const URI_SCHEME_REGEX = /^[a-z][a-z0-9+.-]*:/i;
+
+export class WriterlyHandleIndex {
+  private definitions: Map<HandleName, HandleDefinition[]> = new Map();
+  private definitionsByFile: Map<FSPath, Map<HandleName, HandleDefinition[]>> =
+    new Map();
+  private writerlyContainers: FSPath[] = [];
+  private handleLinks: Map<FSPath, HandleLink[]> = new Map();
+  private titledTags: Map<FSPath, TitledTag[]> = new Map();
+  private lineFacts = new WeakMap<WriterlyLine["identity"], LineFacts>();
+  private usageCounts: UsageCounts = new Map();
+  private suppressions: Map<FSPath, WriterlySuppressions> = new Map();
+  private allowedDecorators: ReadonlySet<string> = new Set();
+
+  private readonly pathResolver: WriterlyPathResolver;
+
+  constructor(private readonly workspace: WriterlyWorkspace) {
+    this.pathResolver = new WriterlyPathResolver(workspace);
+  }
+
+  /**
+   * Forgets every indexed fact. Called by WriterlyLanguageServer before it
+   * re-indexes the workspace.
+   */
+  public reset(): void {
+    WriterlyParser.reset();
+    this.lineFacts = new WeakMap();
+    this.definitions.clear();
+    this.definitionsByFile.clear();
+    this.handleLinks.clear();
+    this.titledTags.clear();
+    this.usageCounts.clear();
+    this.suppressions.clear();
+    this.writerlyContainers = [];
+  }
+
+  /**
+   * Sets the decorators in-text definitions may carry. With none set, every
+   * decorator is allowed.
+   */
+  public setAllowedDecorators(decorators: readonly string[]): void {
+    this.allowedDecorators = new Set(decorators);
+  }
+
+  public refreshWriterlyContainers(): void {
+    this.writerlyContainers = this.workspace.getWriterlyContainers();
+    this.rebuildHandleIndexes();
+  }
+
+  public getIndexedFiles(): FSPath[] {
+    return [...this.handleLinks.keys()];
+  }
+
+  /**
+   * Re-extracts the handle facts of one document and returns its syntax
+   * diagnostics.
+   */
+  public indexDocument(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    const parsedFacts = this.walkDocument(fsPath, document, diagnostics);
+    const previousDefinitions = this.definitionsByFile.get(fsPath);
+    const previousLinks = this.handleLinks.get(fsPath) ?? [];
+    this.definitionsByFile.set(fsPath, parsedFacts.definitions);
+    this.handleLinks.set(fsPath, parsedFacts.handleLinks);
+    this.titledTags.set(fsPath, parsedFacts.titledTags);
+    this.suppressions.set(fsPath, WriterlySuppressions.fromDocument(document));
+
+    const handleNames = new Set([
+      ...(previousDefinitions?.keys() ?? []),
+      ...parsedFacts.definitions.keys(),
+    ]);
+    for (const handleName of handleNames) {
+      this.updateDefinitions(
+        handleName,
+        fsPath,
+        parsedFacts.definitions.get(handleName) ?? [],
+      );
+    }
+    for (const link of previousLinks) {
+      if (link.suppressDiagnostics) continue;
+      this.addUsageCount(link.handleName, fsPath, -1);
+    }
+    for (const link of parsedFacts.handleLinks) {
+      if (link.suppressDiagnostics) continue;
+      this.addUsageCount(link.handleName, fsPath, 1);
+    }
+    return diagnostics;
+  }
+
+  /**
+   * Returns the handle diagnostics of an indexed file against the current
+   * index: invalid, unresolved, ambiguous and duplicate handles, and unused
+   * definitions when asked for.
+   */
+  public validateDocument(
+    fsPath: FSPath,
+    validateUnusedHandles: boolean,
+  ): Diagnostic[] {
+    const diagnostics: Diagnostic[] = [];
+    this.validateHandleUsage(this.handleLinks.get(fsPath) ?? [], diagnostics);
+    this.validateHandleDefinitions(fsPath, diagnostics, validateUnusedHandles);
+    this.validateDecorators(fsPath, diagnostics);
+    return diagnostics;
+  }
+
+  /**
+   * Applies the file's `writerly-disable` directives to its combined syntax,
+   * handle and missing-file diagnostics.
+   */
+  public applySuppressions(
+    fsPath: FSPath,
+    diagnostics: Diagnostic[],
+    isCodeChecked: DiagnosticCodeCheck,
+  ): Diagnostic[] {
+    const suppressions = this.suppressions.get(fsPath);
+    return suppressions
+      ? suppressions.apply(diagnostics, isCodeChecked)
+      : diagnostics;
+  }
+
+  public removeFile(fsPath: FSPath): void {
+    this.definitionsByFile.delete(fsPath);
+    this.handleLinks.delete(fsPath);
+    this.titledTags.delete(fsPath);
+    this.suppressions.delete(fsPath);
+    this.refreshWriterlyContainers();
+  }
+
+  public renameFile(oldPath: FSPath, newPath: FSPath): void {
+    const definitionsByHandle = this.definitionsByFile.get(oldPath);
+    if (definitionsByHandle) {
+      const renamedDefinitions = new Map<HandleName, HandleDefinition[]>();
+      for (const [handleName, definitions] of definitionsByHandle) {
+        renamedDefinitions.set(
+          handleName,
+          definitions.map((definition) => ({
+            ...definition,
+            fsPath: newPath,
+          })),
+        );
+      }
+      this.definitionsByFile.delete(oldPath);
+      this.definitionsByFile.set(newPath, renamedDefinitions);
+    }
+
+    const handleLinks = this.handleLinks.get(oldPath);
+    if (handleLinks) {
+      for (const link of handleLinks) {
+        link.fsPath = newPath;
+      }
+      this.handleLinks.delete(oldPath);
+      this.handleLinks.set(newPath, handleLinks);
+    }
+
+    const titledTags = this.titledTags.get(oldPath);
+    if (titledTags) {
+      this.titledTags.delete(oldPath);
+      this.titledTags.set(newPath, titledTags);
+    }
+
+    const suppressions = this.suppressions.get(oldPath);
+    if (suppressions) {
+      this.suppressions.delete(oldPath);
+      this.suppressions.set(newPath, suppressions);
+    }
+
+    this.refreshWriterlyContainers();
+  }
+
+  public isInSameDocumentTree(
+    currentFsPath: string,
+    definitionFsPath: string,
+  ): boolean {
+    if (currentFsPath === definitionFsPath) {
+      return true;
+    }
+
+    return isInSameWriterlyDocumentTree(
+      currentFsPath,
+      definitionFsPath,
+      this.writerlyContainers,
+    );
+  }
+
+  private walkDocument(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    diagnostics: Diagnostic[],
+  ): ParsedDocumentFacts {
+    const handleLinks: HandleLink[] = [];
+    const definitions = new Map<HandleName, HandleDefinition[]>();
+    const tree = WriterlyParser.parse(document);
+
+    for (const line of tree.lines) {
+      const facts = this.getLineFacts(tree, line, fsPath);
+      diagnostics.push(...facts.diagnostics);
+
+      for (const { handleName, range, decorators } of facts.definitions) {
+        this.addDefinition(definitions, handleName, {
+          fsPath,
+          range,
+          decorators: decorators ?? [],
+        });
+      }
+
+      for (const link of facts.handleLinks) {
+        link.fsPath = fsPath;
+        link.validated = ValidationState.UNKNOWN;
+        handleLinks.push(link);
+      }
+    }
+
+    WriterlyStaticValidator.validateTree(document, tree, diagnostics);
+
+    const titledTags: TitledTag[] = [];
+    for (const tag of tree.getAllTags()) {
+      const title = tree.getAttribute(tag, "title")?.value.trim();
+      if (!title) continue;
+      titledTags.push({
+        tagName: tag.name,
+        title,
+        range: Range.create(
+          tag.range.start.line,
+          tag.indent,
+          tag.nameRange.end.line,
+          tag.nameRange.end.character,
+        ),
+      });
+    }
+
+    return { definitions, handleLinks, titledTags };
+  }
+
+  /**
+   * Returns the syntax diagnostics, handle definitions and handle usages of one
+   * line. The parser keeps the records of lines an edit did not affect, so
+   * facts cached for such a record only need moving when lines above it were
+   * inserted or removed.
+   */
+  private getLineFacts(
+    tree: WriterlySyntaxTree,
+    line: WriterlyLine,
+    fsPath: FSPath,
+  ): LineFacts {
+    const cached = this.lineFacts.get(line.identity);
+    const facts = cached
+      ? this.moveLineFacts(cached, line.lineNumber)
+      : this.extractLineFacts(tree, line, fsPath);
+    this.lineFacts.set(line.identity, facts);
+    return facts;
+  }
+
+  private extractLineFacts(
+    tree: WriterlySyntaxTree,
+    line: WriterlyLine,
+    fsPath: FSPath,
+  ): LineFacts {
+    const { lineType, lineNumber, indent, content } = line;
+    const facts: LineFacts = {
+      lineNumber,
+      diagnostics: [],
+      definitions: [],
+      handleLinks: [],
+    };
+
+    WriterlyStaticValidator.validateLine(
+      line.stateBeforeLine,
+      lineType,
+      line.stateAfterLine,
+      lineNumber,
+      indent,
+      content,
+      facts.diagnostics,
+    );
+
+    if (lineType === LineType.Attribute) {
+      const node = tree.nodeAt(lineNumber);
+      const definition =
+        node?.kind === "attribute"
+          ? this.extractHandleDefinition(node)
+          : undefined;
+      if (definition) facts.definitions.push(definition);
+    }
+
+    if (lineType === LineType.Text) {
+      facts.definitions.push(
+        ...this.extractInTextHandleDefinitions(content, lineNumber, indent),
+      );
+    }
+
+    if (this.shouldProcessUsageInLine(lineType)) {
+      facts.handleLinks.push(
+        ...this.extractHandleUsage(
+          content,
+          lineNumber,
+          indent,
+          fsPath,
+          this.isCommentLine(lineType),
+        ),
+      );
+    }
+
+    return facts;
+  }
+
+  /**
+   * Returns cached facts moved to `lineNumber`. The facts are copied rather
+   * than moved in place, since diagnostics and usages handed out before the
+   * edit may still be in use.
+   */
+  private moveLineFacts(facts: LineFacts, lineNumber: number): LineFacts {
+    const delta = lineNumber - facts.lineNumber;
+    if (delta === 0) return facts;
+
+    return {
+      lineNumber,
+      diagnostics: facts.diagnostics.map((diagnostic) => ({
+        ...diagnostic,
+        range: rangeUtils.moveLines(diagnostic.range, delta),
+      })),
+      definitions: facts.definitions.map((definition) => ({
+        handleName: definition.handleName,
+        range: rangeUtils.moveLines(definition.range, delta),
+        decorators: definition.decorators?.map((decorator) => ({
+          name: decorator.name,
+          range: rangeUtils.moveLines(decorator.range, delta),
+        })),
+      })),
+      handleLinks: facts.handleLinks.map((link) => ({
+        ...link,
+        range: rangeUtils.moveLines(link.range, delta),
+      })),
+    };
+  }
+
+  private shouldProcessUsageInLine(lineType: LineType): boolean {
+    return (
+      lineType !== LineType.CodeBlockLine &&
+      lineType !== LineType.Tag &&
+      lineType !== LineType.CodeBlockClosing
+    );
+  }
+
+  private isCommentLine(lineType: LineType): boolean {
+    return (
+      lineType === LineType.AttributeZoneComment ||
+      lineType === LineType.TextZoneComment
+    );
+  }
+
+  private createMissingFileValidationCache(): MissingFileValidationCache {
+    return {
+      fileExists: new Map(),
+      localPathExists: new Map(),
+      possibleFilePaths: new Map(),
+      possibleDirPaths: new Map(),
+    };
+  }
+
+  /**
+   * Returns warnings for path-bearing attributes whose local file does not
+   * exist, or that resolve into another document tree although a closer
+   * directory of the same name exists.
+   */
+  public async collectMissingFileDiagnostics(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+  ): Promise<Diagnostic[]> {
+    const diagnostics: Diagnostic[] = [];
+    const cache = this.createMissingFileValidationCache();
+
+    for (const reference of this.getFileReferences(document)) {
+      const diagnostic = await this.getMissingFileAttributeDiagnostic(
+        fsPath,
+        reference,
+        cache,
+      );
+      if (diagnostic) diagnostics.push(diagnostic);
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Returns the local file paths written as values of path-bearing attributes
+   * (`src`, `*src`, `image`, `poster`, ...), the references missing-file
+   * validation checks.
+   */
+  public getFileReferences(document: WriterlyTextDocument): FileReference[] {
+    const references: FileReference[] = [];
+    const attributes = WriterlyParser.parse(document).getAllAttributes();
+
+    for (const attribute of attributes) {
+      const reference = this.getFileReference(attribute);
+      if (reference) references.push(reference);
+    }
+
+    return references;
+  }
+
+  private getFileReference(
+    attribute: WriterlyAttributeNode,
+  ): FileReference | undefined {
+    if (!ATTRIBUTE_KEY_REGEX.test(attribute.key)) return undefined;
+    if (!this.shouldWarnForMissingFileAttribute(attribute.key)) return undefined;
+
+    const value = attribute.value.trim();
+    if (!this.shouldCheckMissingFileValue(value)) return undefined;
+
+    const valueStart = attribute.valueRange.start;
+    return {
+      attributeKey: attribute.key,
+      filePath: value,
+      range: Range.create(
+        valueStart,
+        rangeUtils.translate(valueStart, 0, value.length),
+      ),
+    };
+  }
+
+  private shouldWarnForMissingFileAttribute(attributeName: string): boolean {
+    const normalized = attributeName.toLowerCase();
+    return (
+      normalized.endsWith("src") ||
+      MISSING_FILE_WARNING_ATTRIBUTE_NAMES.has(normalized)
+    );
+  }
+
+  private shouldCheckMissingFileValue(value: string): boolean {
+    return (
+      value.length > 0 &&
+      !/\s/.test(value) &&
+      !value.startsWith("#") &&
+      !URI_SCHEME_REGEX.test(value)
+    );
+  }
+
+  private async getMissingFileAttributeDiagnostic(
+    fsPath: FSPath,
+    reference: FileReference,
+    cache: MissingFileValidationCache,
+  ): Promise<Diagnostic | undefined> {
+    const misdirectedWarning = await this.getSpokenForDirectoryReferenceWarning(
+      fsPath,
+      reference.filePath,
+      cache,
+    );
+    if (misdirectedWarning) {
+      return createWriterlyDiagnostic(
+        reference.range,
+        misdirectedWarning,
+        "file-outside-closer-directory",
+      );
+    }
+
+    const exists = await this.localFileReferenceExists(reference.filePath, cache);
+    if (exists) return undefined;
+    return createWriterlyDiagnostic(
+      reference.range,
+      `Local file not found: ${reference.filePath}`,
+      "file-not-found",
+    );
+  }
+
+  private async localFileReferenceExists(
+    filePath: string,
+    cache: MissingFileValidationCache,
+  ): Promise<boolean> {
+    if (path.isAbsolute(filePath)) {
+      return this.cachedLocalPathExists(filePath, cache);
+    }
+
+    let cached = cache.fileExists.get(filePath);
+    if (!cached) {
+      cached = this.pathResolver.fileExists(filePath);
+      cache.fileExists.set(filePath, cached);
+    }
+    return cached;
+  }
+
+  private async getSpokenForDirectoryReferenceWarning(
+    fsPath: FSPath,
+    filePath: string,
+    cache: MissingFileValidationCache,
+  ): Promise<string | undefined> {
+    if (path.isAbsolute(filePath)) return undefined;
+
+    const { dirPath, fileName } = this.splitReferencePath(filePath);
+    if (!dirPath || !fileName) return undefined;
+
+    const matchingFiles = await this.cachedPossibleFilePaths(filePath, cache);
+    if (matchingFiles.length !== 1) return undefined;
+
+    const resolvedFile = matchingFiles[0];
+    const resolvedDir = path.dirname(resolvedFile);
+    const matchingDirs = await this.cachedPossibleDirPaths(
+      dirPath,
+      fsPath,
+      cache,
+    );
+    if (matchingDirs.length <= 1) return undefined;
+
+    const topmostRoots = this.getTopmostWriterlyRoots();
+    const originRoot =
+      this.getClosestContainingDirectory(fsPath, topmostRoots) ??
+      path.dirname(fsPath);
+    if (
+      !this.isDirectoryCloserToAnotherTopmostRoot(
+        resolvedDir,
+        originRoot,
+        topmostRoots,
+      )
+    ) {
+      return undefined;
+    }
+
+    const resolvedDistance = steinbergerDistance(originRoot, resolvedDir);
+    const closerDirs = matchingDirs.filter(
+      (dir) =>
+        path.resolve(dir) !== path.resolve(resolvedDir) &&
+        steinbergerDistance(originRoot, dir) < resolvedDistance,
+    );
+    const closestDirs = this.getClosestDirectoriesBySteinbergerDistance(
+      closerDirs,
+      originRoot,
+    );
+    if (closestDirs.length !== 1) return undefined;
+
+    const closestDir = closestDirs[0];
+    if (await this.cachedLocalPathExists(path.join(closestDir, fileName), cache)) {
+      return undefined;
+    }
+
+    return `File reference resolves to ${this.workspace.getDisplayPath(
+      resolvedFile,
+    )}, but ${dirPath} also matches closer directory ${this.workspace.getDisplayPath(
+      closestDir,
+    )} in this document tree and that directory does not contain ${fileName}.`;
+  }
+
+  private splitReferencePath(filePath: string): {
+    dirPath: string;
+    fileName: string;
+  } {
+    const segments = filePath.split("/");
+    const fileName = segments.pop() || "";
+    return { dirPath: segments.join("/"), fileName };
+  }
+
+  private async localPathExists(fsPath: string): Promise<boolean> {
+    return (await this.workspace.stat(fsPath)) !== undefined;
+  }
+
+  private cachedLocalPathExists(
+    fsPath: string,
+    cache: MissingFileValidationCache,
+  ): Promise<boolean> {
+    let cached = cache.localPathExists.get(fsPath);
+    if (!cached) {
+      cached = this.localPathExists(fsPath);
+      cache.localPathExists.set(fsPath, cached);
+    }
+    return cached;
+  }
+
+  private cachedPossibleFilePaths(
+    filePath: string,
+    cache: MissingFileValidationCache,
+  ): Promise<string[]> {
+    let cached = cache.possibleFilePaths.get(filePath);
+    if (!cached) {
+      cached = this.pathResolver.resolvePossibleFilePaths(filePath);
+      cache.possibleFilePaths.set(filePath, cached);
+    }
+    return cached;
+  }
+
+  private cachedPossibleDirPaths(
+    dirPath: string,
+    rootRelativeTo: string,
+    cache: MissingFileValidationCache,
+  ): Promise<string[]> {
+    const cacheKey = `${rootRelativeTo}\n${dirPath}`;
+    let cached = cache.possibleDirPaths.get(cacheKey);
+    if (!cached) {
+      cached = this.pathResolver.resolvePossibleDirPaths(dirPath, {
+        rootRelativeTo,
+      });
+      cache.possibleDirPaths.set(cacheKey, cached);
+    }
+    return cached;
+  }
+
+  private getTopmostWriterlyRoots(): string[] {
+    return this.writerlyContainers.filter(
+      (container) =>
+        !this.writerlyContainers.some(
+          (candidateParent) =>
+            candidateParent !== container &&
+            isPathUnderDirectory(container, candidateParent),
+        ),
+    );
+  }
+
+  private getClosestContainingDirectory(
+    fsPath: string,
+    directories: readonly string[],
+  ): string | undefined {
+    return directories
+      .filter((directory) => isPathUnderDirectory(fsPath, directory))
+      .sort((a, b) => b.length - a.length)[0];
+  }
+
+  private isDirectoryCloserToAnotherTopmostRoot(
+    directory: string,
+    originRoot: string,
+    topmostRoots: readonly string[],
+  ): boolean {
+    const originDistance = steinbergerDistance(originRoot, directory);
+    return topmostRoots.some(
+      (root) =>
+        root !== originRoot &&
+        steinbergerDistance(root, directory) < originDistance,
+    );
+  }
+
+  private getClosestDirectoriesBySteinbergerDistance(
+    directories: string[],
+    originRoot: string,
+  ): string[] {
+    if (directories.length === 0) return [];
+
+    const ranked = directories.map((directory) => ({
+      directory,
+      distance: steinbergerDistance(originRoot, directory),
+    }));
+    const bestDistance = Math.min(
+      ...ranked.map((candidate) => candidate.distance),
+    );
+    return ranked
+      .filter((candidate) => candidate.distance === bestDistance)
+      .map((candidate) => candidate.directory);
+  }
+
+  private extractHandleDefinition(
+    attribute: WriterlyAttributeNode,
+  ): HandleAtPosition | undefined {
+    if (attribute.key !== "handle") return undefined;
+
+    const handleName = attribute.value.match(LOOSE_HANDLE_VALUE_REGEX)?.[0];
+    if (!handleName) return undefined;
+
+    const start = attribute.valueRange.start;
+    const range = Range.create(
+      start,
+      rangeUtils.translate(start, 0, handleName.length),
+    );
+    return { handleName, range };
+  }
+
+  private extractInTextHandleDefinitions(
+    content: string,
+    lineNumber: number,
+    indent: number,
+  ): HandleAtPosition[] {
+    const definitions: HandleAtPosition[] = [];
+    IN_TEXT_DEF_REGEX.lastIndex = 0;
+    let match;
+    while ((match = IN_TEXT_DEF_REGEX.exec(content)) !== null) {
+      const handleName = match[1] ?? match[3];
+      const handleNameStart = match.index + match[0].indexOf(handleName);
+      const range = Range.create(
+        lineNumber,
+        indent + handleNameStart,
+        lineNumber,
+        indent + handleNameStart + handleName.length,
+      );
+
+      const decorators: HandleDecorator[] = [];
+      // "#wide#note" follows the name directly
+      let decoratorStart = indent + handleNameStart + handleName.length;
+      for (const name of (match[2] ?? "").split("#").slice(1)) {
+        decorators.push({
+          name,
+          range: Range.create(
+            lineNumber,
+            decoratorStart + 1,
+            lineNumber,
+            decoratorStart + 1 + name.length,
+          ),
+        });
+        decoratorStart += 1 + name.length;
+      }
+      definitions.push({ handleName, range, decorators });
+    }
+    return definitions;
+  }
+
+  private addDefinition(
+    definitionsByHandle: Map<HandleName, HandleDefinition[]>,
+    handleName: HandleName,
+    definition: HandleDefinition,
+  ): void {
+    const definitions = definitionsByHandle.get(handleName) || [];
+    definitions.push(definition);
+    definitionsByHandle.set(handleName, definitions);
+  }
+
+  private extractHandleUsage(
+    content: string,
+    lineNumber: number,
+    indent: number,
+    fsPath: string,
+    suppressDiagnostics = false,
+  ): HandleLink[] {
+    const links: HandleLink[] = [];
+    let usageMatch;
+    USAGE_REGEX.lastIndex = 0;
+
+    while ((usageMatch = USAGE_REGEX.exec(content)) !== null) {
+      const handleName = usageMatch[1];
+      const matchStart = usageMatch.index;
+      const range = Range.create(
+        lineNumber,
+        indent + matchStart,
+        lineNumber,
+        indent + matchStart + usageMatch[0].length,
+      );
+
+      links.push({
+        range,
+        handleName,
+        fsPath,
+        validated: ValidationState.UNKNOWN,
+        suppressDiagnostics,
+      });
+    }
+
+    return links;
+  }
+
+  private validateHandleUsage(
+    handleLinks: HandleLink[],
+    diagnostics: Diagnostic[] = [],
+  ): void {
+    const strictRegex = new RegExp(`^${HANDLE_REGEX_STRING}$`, "u");
+
+    for (const link of handleLinks) {
+      const handleName = link.handleName;
+      const currentFsPath = link.fsPath;
+
+      if (!handleName || !currentFsPath) continue;
+      if (link.suppressDiagnostics) {
+        link.validated = ValidationState.OK;
+        continue;
+      }
+
+      // if it doesn't match the strict regex, underline it in red immediately.
+      if (!strictRegex.test(handleName)) {
+        link.validated = ValidationState.ERROR;
+        diagnostics.push(
+          createWriterlyDiagnostic(
+            link.range,
+            `Invalid handle name: '${handleName}'. Handles may contain letters, numbers, marks, dots, underscores, hyphens, colons, apostrophes, and carets, and must end with a letter, number, mark, underscore, apostrophe, or caret.`,
+            "handle-invalid-name",
+            { handleName },
+          ),
+        );
+        continue; // Skip tree lookup for invalid names
+      }
+
+      const resolution = this.resolveDefinitionForHandle(
+        handleName,
+        currentFsPath,
+      );
+
+      if (resolution.kind === "ok") {
+        // exactly one definition found in this logical tree
+        link.validated = ValidationState.OK;
+      } else {
+        // zero or multiple definitions found
+        link.validated = ValidationState.ERROR;
+        const diagnostic = this.createDiagnosticForUsage(
+          link,
+          handleName,
+          resolution,
+        );
+
+        if (diagnostic) {
+          diagnostics.push(diagnostic);
+        }
+      }
+    }
+  }
+
+  private createDiagnosticForUsage(
+    link: HandleLink,
+    handleName: string,
+    resolution: HandleResolution,
+  ): Diagnostic | null {
+    if (resolution.kind === "ok") {
+      return null; // No error
+    }
+
+    let message: string;
+    let code: WriterlyDiagnosticCode;
+    if (resolution.kind === "notFound") {
+      message = `Handle '${handleName}' not found`;
+      code = "handle-undefined";
+    } else if (resolution.kind === "inaccessible") {
+      const locationInfo = this.formatDefinitionLocations(
+        resolution.definitions,
+      );
+      message = `Handle '${handleName}' is defined only in inaccessible commented-out fragments: \n ${locationInfo}`;
+      code = "handle-inaccessible";
+    } else {
+      const locationInfo = this.formatDefinitionLocations(
+        resolution.definitions,
+      );
+      message = `Handle '${handleName}' has multiple definitions (${resolution.definitions.length} found): \n ${locationInfo}`;
+      code = "handle-ambiguous";
+    }
+
+    const data: HandleDiagnosticData = { handleName };
+    return createWriterlyDiagnostic(link.range, message, code, data);
+  }
+
+  private formatDefinitionLocations(definitions: HandleDefinition[]): string {
+    return definitions
+      .map((def) => {
+        const relativePath = this.workspace.getDisplayPath(def.fsPath);
+        const lineNumber = def.range.start.line + 1;
+        return `${relativePath}:${lineNumber}`;
+      })
+      .join("\n ");
+  }
+
+  private getDefinitions(handleName: string): HandleDefinition[] {
+    return this.definitions.get(handleName) || [];
+  }
+
+  private findDefinitionsInDocumentTree(
+    handleName: string,
+    currentFsPath: string,
+  ): HandleDefinition[] {
+    return this.getDefinitions(handleName).filter((def) =>
+      this.isInSameDocumentTree(currentFsPath, def.fsPath),
+    );
+  }
+
+  private findDefinitionsInAccessibleIslands(
+    handleName: string,
+    currentFsPath: string,
+  ): HandleDefinition[] {
+    return this.findDefinitionsInDocumentTree(handleName, currentFsPath).filter(
+      (def) => isInAccessibleHashIsland(currentFsPath, def.fsPath),
+    );
+  }
+
+  private findDefinitionsInSameIsland(
+    handleName: string,
+    currentFsPath: string,
+  ): HandleDefinition[] {
+    return this.findDefinitionsInDocumentTree(handleName, currentFsPath).filter(
+      (def) => isInSameHashIsland(currentFsPath, def.fsPath),
+    );
+  }
+
+  private findDefinitionsInInaccessibleIslands(
+    handleName: string,
+    currentFsPath: string,
+  ): HandleDefinition[] {
+    return this.findDefinitionsInDocumentTree(handleName, currentFsPath).filter(
+      (def) => !isInAccessibleHashIsland(currentFsPath, def.fsPath),
+    );
+  }
+
+  private resolveDefinitionForHandle(
+    handleName: string,
+    currentFsPath: string,
+  ): HandleResolution {
+    const accessibleDefinitions = this.findDefinitionsInAccessibleIslands(
+      handleName,
+      currentFsPath,
+    );
+    const goodDefinitions = accessibleDefinitions.filter(
+      (def) => !this.isDefinitionAmbiguous(handleName, def),
+    );
+    const nearestGoodDefinitions =
+      this.getNearestIslandDefinitions(goodDefinitions);
+
+    if (nearestGoodDefinitions.length === 1) {
+      return { kind: "ok", definition: nearestGoodDefinitions[0] };
+    }
+
+    if (accessibleDefinitions.length > 0) {
+      return {
+        kind: "multiple",
+        definitions: this.dedupeDefinitions(accessibleDefinitions),
+      };
+    }
+
+    const inaccessibleDefinitions = this.findDefinitionsInInaccessibleIslands(
+      handleName,
+      currentFsPath,
+    );
+    if (inaccessibleDefinitions.length > 0) {
+      return {
+        kind: "inaccessible",
+        definitions: this.dedupeDefinitions(inaccessibleDefinitions),
+      };
+    }
+
+    return { kind: "notFound" };
+  }
+
+  private isDefinitionAmbiguous(
+    handleName: string,
+    definition: HandleDefinition,
+  ): boolean {
+    return (
+      this.dedupeDefinitions(
+        this.findDefinitionsInSameIsland(handleName, definition.fsPath),
+      ).length > 1
+    );
+  }
+
+  private getNearestIslandDefinitions(
+    definitions: HandleDefinition[],
+  ): HandleDefinition[] {
+    if (definitions.length <= 1) return definitions;
+
+    const maxDepth = Math.max(
+      ...definitions.map((def) => getHashIslandDepth(def.fsPath)),
+    );
+    return definitions.filter(
+      (def) => getHashIslandDepth(def.fsPath) === maxDepth,
+    );
+  }
+
+  // language feature answers
+
+  /**
+   * Returns the document links of an indexed file, leaving out usages that
+   * failed validation, or undefined when the file was never indexed.
+   */
+  public getDocumentLinks(fsPath: FSPath): DocumentLink[] | undefined {
+    const links = this.handleLinks.get(fsPath);
+    if (links === undefined) return undefined;
+
+    return links
+      .filter((link) => link.validated !== ValidationState.ERROR)
+      .map((link) => {
+        const data: HandleLinkData = {
+          handleName: link.handleName,
+          fsPath: link.fsPath,
+        };
+        return DocumentLink.create(link.range, undefined, data);
+      });
+  }
+
+  public resolveDocumentLink(link: DocumentLink): DocumentLink {
+    const data = link.data as HandleLinkData | undefined;
+    const handleName = data?.handleName;
+    const currentFsPath = data?.fsPath;
+
+    if (!handleName || !currentFsPath) {
+      return link;
+    }
+
+    const resolution = this.resolveDefinitionForHandle(
+      handleName,
+      currentFsPath,
+    );
+
+    if (resolution.kind !== "ok") {
+      return link;
+    }
+
+    const definition = resolution.definition;
+    link.target = this.attachPositionToUri(
+      definition.fsPath,
+      definition.range.start,
+    );
+    return link;
+  }
+
+  public getCodeActions(
+    fsPath: FSPath,
+    diagnostics: Diagnostic[],
+  ): CodeAction[] {
+    const actions: CodeAction[] = [];
+
+    const ambiguousUsageDiagnostics = diagnostics.filter(
+      (diagnostic) =>
+        getWriterlyDiagnosticCode(diagnostic) === "handle-ambiguous",
+    );
+
+    for (const diagnostic of ambiguousUsageDiagnostics) {
+      const handleName = (diagnostic.data as HandleDiagnosticData | undefined)
+        ?.handleName;
+      if (!handleName) continue;
+      const validDefinitions = this.findDefinitionsInSameIsland(
+        handleName,
+        fsPath,
+      );
+
+      validDefinitions.forEach((def, _index) => {
+        const action = this.createGoToDefinitionAction(def);
+        action.diagnostics = [diagnostic];
+        actions.push(action);
+      });
+    }
+
+    const undefinedUsageDiagnostics = diagnostics.filter(
+      (diagnostic) =>
+        getWriterlyDiagnosticCode(diagnostic) === "handle-undefined",
+    );
+
+    for (const diagnostic of undefinedUsageDiagnostics) {
+      const handleName = (diagnostic.data as HandleDiagnosticData | undefined)
+        ?.handleName;
+      if (!handleName) continue;
+
+      // the diagnostic covers the usage including its ">>"
+      const nameRange = Range.create(
+        rangeUtils.translate(diagnostic.range.start, 0, 2),
+        diagnostic.range.end,
+      );
+      this.getHandleSuggestions(handleName, fsPath).forEach(
+        (suggestion, index) => {
+          const action = CodeAction.create(
+            `Did you mean '${suggestion}'?`,
+            {
+              changes: {
+                [URI.file(fsPath).toString()]: [
+                  TextEdit.replace(nameRange, suggestion),
+                ],
+              },
+            },
+            CodeActionKind.QuickFix,
+          );
+          action.diagnostics = [diagnostic];
+          action.isPreferred = index === 0;
+          actions.push(action);
+        },
+      );
+
+      const action = CodeAction.create(
+        `Create handle definition for '${handleName}'...`,
+        {
+          title: "Create handle definition",
+          command: CREATE_HANDLE_DEFINITION_COMMAND,
+          arguments: [
+            URI.file(fsPath).toString(),
+            handleName,
+            diagnostic.range.start,
+          ],
+        },
+        CodeActionKind.QuickFix,
+      );
+      action.diagnostics = [diagnostic];
+      actions.push(action);
+    }
+
+    const handleNameDiagnostics = diagnostics.filter(
+      (diagnostic) =>
+        getWriterlyDiagnosticCode(diagnostic) === "schema-handle-name",
+    );
+
+    for (const diagnostic of handleNameDiagnostics) {
+      const data = diagnostic.data as
+        | WriterlyHandleNameDiagnosticData
+        | undefined;
+      if (!data?.suggestedName) continue;
+
+      const rename = this.renameHandle(
+        fsPath,
+        data.handleName,
+        data.suggestedName,
+      );
+      if (rename.kind !== "edits") continue;
+
+      const action = CodeAction.create(
+        `Rename '${data.handleName}' to '${data.suggestedName}'`,
+        rename.edit,
+        CodeActionKind.QuickFix,
+      );
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      actions.push(action);
+    }
+
+    return actions;
+  }
+
+  /**
+   * Returns the handle names visible from a file that are closest to an
+   * undefined one by edit distance, nearest first. Names more than a third
+   * of their length away are left out.
+   */
+  private getHandleSuggestions(
+    handleName: HandleName,
+    fsPath: FSPath,
+  ): HandleName[] {
+    const suggestions: { name: HandleName; distance: number }[] = [];
+    for (const [name, defs] of this.definitions) {
+      const distance = stringUtils.editDistance(handleName, name);
+      const maxDistance = Math.max(1, Math.floor(name.length / 3));
+      if (distance > maxDistance) continue;
+      if (!this.isHandleVisibleFromFile(name, defs, fsPath)) continue;
+      suggestions.push({ name, distance });
+    }
+
+    return suggestions
+      .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+      .slice(0, MAX_HANDLE_SUGGESTIONS)
+      .map((suggestion) => suggestion.name);
+  }
+
+  /**
+   * Resolves F12 on a handle: a definition lists its usages in the current
+   * document tree, a usage jumps to its unambiguous definition.
+   */
+  public getDefinitionTargets(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): DefinitionTargets | undefined {
+    const definition = this.getDefinitionAtPosition(document, position);
+    if (definition) {
+      const usages = this.getUsagesInDocumentTree(
+        definition.handleName,
+        fsPath,
+      );
+      if (usages.length === 0) {
+        return {
+          locations: [this.createLocation(fsPath, definition.range)],
+          message:
+            "no handle usages found in current document tree for this handle",
+        };
+      }
+
+      return {
+        locations: usages.map((handleUsage) =>
+          this.createLocation(handleUsage.fsPath, handleUsage.range),
+        ),
+      };
+    }
+
+    const usage = this.getUsageOnLine(document, position);
+    const target = usage
+      ? this.getDefinitionForHandle(usage.handleName, fsPath)
+      : undefined;
+    return target ? { locations: [target] } : undefined;
+  }
+
+  /**
+   * Resolves Shift+F12 on a handle definition or usage: the usages in the
+   * current document tree that resolve to the definition, hash islands
+   * included, and the definition itself when `includeDeclaration` is set. On
+   * a usage that resolves to no single definition, the usages of the handle
+   * that do not either.
+   */
+  public getReferences(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+    includeDeclaration: boolean,
+  ): Location[] | undefined {
+    const definition = this.getDefinitionAtPosition(document, position);
+    if (definition) {
+      const locations = includeDeclaration
+        ? [this.createLocation(fsPath, definition.range)]
+        : [];
+      locations.push(
+        ...this.getUsageLocations(definition.handleName, fsPath, {
+          fsPath,
+          range: definition.range,
+        }),
+      );
+      return locations;
+    }
+
+    const usage = this.getUsageOnLine(document, position);
+    if (!usage) return undefined;
+
+    const resolution = this.resolveDefinitionForHandle(usage.handleName, fsPath);
+    if (resolution.kind !== "ok") {
+      return this.getUsageLocations(usage.handleName, fsPath, undefined);
+    }
+    const locations = includeDeclaration
+      ? [
+          this.createLocation(
+            resolution.definition.fsPath,
+            resolution.definition.range,
+          ),
+        ]
+      : [];
+    locations.push(
+      ...this.getUsageLocations(
+        usage.handleName,
+        fsPath,
+        resolution.definition,
+      ),
+    );
+    return locations;
+  }
+
+  /**
+   * Returns one code lens per handle definition of an indexed file. The
+   * reference count is filled in by resolveReferenceCodeLens.
+   */
+  public getReferenceCodeLenses(fsPath: FSPath): CodeLens[] {
+    return this.getHandleOccurrences(fsPath).definitions.map(
+      ({ handleName, range }) =>
+        CodeLens.create(range, {
+          handleName,
+          fsPath,
+        } satisfies ReferenceCodeLensData),
+    );
+  }
+
+  public resolveReferenceCodeLens(codeLens: CodeLens): CodeLens {
+    const { handleName, fsPath } = codeLens.data as ReferenceCodeLensData;
+    const locations = this.getUsageLocations(handleName, fsPath, {
+      fsPath,
+      range: codeLens.range,
+    });
+    codeLens.command = {
+      title:
+        locations.length === 1 ? "1 reference" : `${locations.length} references`,
+      command: SHOW_REFERENCES_COMMAND,
+      arguments: [URI.file(fsPath).toString(), codeLens.range.start, locations],
+    };
+    return codeLens;
+  }
+
+  public prepareRename(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): { range: Range; placeholder: string } | undefined {
+    const handle = this.getHandleAtPosition(document, position);
+    if (handle) {
+      return { range: handle.range, placeholder: handle.handleName };
+    }
+
+    const decorator = this.getDecoratorAtPosition(document, position);
+    if (decorator) {
+      return { range: decorator.range, placeholder: decorator.name };
+    }
+
+    return undefined;
+  }
+
+  public getRenameEdits(
+    originFsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+    newName: string,
+  ): HandleRename | undefined {
+    const handle = this.getHandleAtPosition(document, position);
+    if (!handle) {
+      const decorator = this.getDecoratorAtPosition(document, position);
+      if (!decorator) return undefined;
+
+      return this.renameDecorator(originFsPath, decorator.name, newName);
+    }
+    return this.renameHandle(originFsPath, handle.handleName, newName);
+  }
+
+  /**
+   * Renames the decorator `oldName` to `newName` throughout the document tree
+   * of `originFsPath`, unless the new name is invalid or already used there.
+   */
+  private renameDecorator(
+    originFsPath: FSPath,
+    oldName: string,
+    newName: string,
+  ): HandleRename {
+    if (!new RegExp(`^[${HANDLE_DECORATOR_CHARS}]+$`, "u").test(newName)) {
+      return {
+        kind: "refused",
+        message: `'${newName}' is not a valid decorator name.`,
+      };
+    }
+    if (newName !== oldName) {
+      const conflicts = this.getDecoratorsInDocumentTree(originFsPath).filter(
+        (decorator) => decorator.name === newName,
+      );
+      if (conflicts.length > 0) {
+        const locations = [
+          ...new Set(
+            conflicts.map(
+              (decorator) =>
+                `${this.workspace.getDisplayPath(decorator.fsPath)}:${decorator.range.start.line + 1}`,
+            ),
+          ),
+        ];
+        return {
+          kind: "refused",
+          message: `Cannot rename '#${oldName}' to '#${newName}': '#${newName}' is already used in this document tree, at ${locations.join(", ")}.`,
+        };
+      }
+    }
+
+    return {
+      kind: "edits",
+      label: `Rename decorator '#${oldName}' to '#${newName}'`,
+      edit: this.getDecoratorRenameEdits(originFsPath, oldName, newName),
+    };
+  }
+
+  /**
+   * Renames the handle `oldName` to `newName` throughout the document tree of
+   * `originFsPath`, unless the new name is invalid or collides with another
+   * definition.
+   */
+  private renameHandle(
+    originFsPath: FSPath,
+    oldName: HandleName,
+    newName: string,
+  ): HandleRename {
+    if (!new RegExp(`^${HANDLE_REGEX_STRING}$`, "u").test(newName)) {
+      return {
+        kind: "refused",
+        message: `'${newName}' is not a valid handle name.`,
+      };
+    }
+    const conflicts = this.findRenameConflicts(originFsPath, oldName, newName);
+    if (conflicts.length > 0) {
+      const locations = conflicts.map(
+        (def) =>
+          `${this.workspace.getDisplayPath(def.fsPath)}:${def.range.start.line + 1}`,
+      );
+      return {
+        kind: "refused",
+        message: `Cannot rename '${oldName}' to '${newName}': '${newName}' is already defined where it would collide with '${oldName}', at ${locations.join(", ")}.`,
+      };
+    }
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+
+    const escapedName = oldName.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const exactMatchRegex = new RegExp(`^${escapedName}$`, "u");
+
+    for (const [fsPath, links] of this.handleLinks) {
+      if (!this.isInSameDocumentTree(originFsPath, fsPath)) {
+        continue;
+      }
+
+      const edits: TextEdit[] = [];
+
+      for (const link of links) {
+        if (link.handleName && exactMatchRegex.test(link.handleName)) {
+          const nameRange = Range.create(
+            link.range.start.line,
+            link.range.start.character + 2,
+            link.range.end.line,
+            link.range.end.character,
+          );
+          edits.push(TextEdit.replace(nameRange, newName));
+        }
+      }
+
+      const defs = this.definitions.get(oldName);
+      if (defs) {
+        for (const def of defs) {
+          if (def.fsPath === fsPath) {
+            edits.push(TextEdit.replace(def.range, newName));
+          }
+        }
+      }
+
+      if (edits.length > 0) {
+        changes[URI.file(fsPath).toString()] = edits;
+      }
+    }
+
+    return {
+      kind: "edits",
+      label: `Rename handle '${oldName}' to '${newName}'`,
+      edit: { changes },
+    };
+  }
+
+  /**
+   * Returns the definitions of `newName` in the document tree a rename of
+   * `oldName` would collide with: those in a hash island a definition or
+   * usage of `oldName` can see, and those in an island that can see a
+   * definition of `oldName`. Renaming onto them would create duplicate
+   * definitions, or change what existing usages resolve to.
+   */
+  private findRenameConflicts(
+    originFsPath: FSPath,
+    oldName: HandleName,
+    newName: HandleName,
+  ): HandleDefinition[] {
+    if (newName === oldName) return [];
+
+    const renamedDefinitionFiles = this.findDefinitionsInDocumentTree(
+      oldName,
+      originFsPath,
+    ).map((def) => def.fsPath);
+    const renamedUsageFiles = this.getUsagesInDocumentTree(
+      oldName,
+      originFsPath,
+    ).map((usage) => usage.fsPath);
+
+    return this.dedupeDefinitions(
+      this.findDefinitionsInDocumentTree(newName, originFsPath).filter(
+        (existing) =>
+          renamedDefinitionFiles.some((fsPath) =>
+            isInAccessibleHashIsland(existing.fsPath, fsPath),
+          ) ||
+          [...renamedDefinitionFiles, ...renamedUsageFiles].some((fsPath) =>
+            isInAccessibleHashIsland(fsPath, existing.fsPath),
+          ),
+      ),
+    );
+  }
+
+  public getCompletionItems(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): CompletionItem[] | undefined {
+    // 1. Check if we are actually after a '>>'
+    const linePrefix = document
+      .lineAt(position.line)
+      .text.substring(0, position.character);
+    const decoratorMatch = DECORATOR_PREFIX_REGEX.exec(linePrefix);
+    if (
+      decoratorMatch &&
+      WriterlyParser.parse(document).lineTypeAt(position.line) === LineType.Text
+    ) {
+      return this.getDecoratorCompletionItems(
+        fsPath,
+        Range.create(
+          position.line,
+          position.character - decoratorMatch[1].length,
+          position.line,
+          position.character,
+        ),
+      );
+    }
+    if (!linePrefix.endsWith(">>")) {
+      return undefined;
+    }
+
+    const completionItems: CompletionItem[] = [];
+
+    for (const [handleName, defs] of this.definitions) {
+      if (!this.isHandleVisibleFromFile(handleName, defs, fsPath)) {
+        continue;
+      }
+      completionItems.push(this.createHandleCompletionItem(handleName));
+    }
+
+    return completionItems;
+  }
+
+  private getDecoratorCompletionItems(
+    fsPath: FSPath,
+    range: Range,
+  ): CompletionItem[] {
+    const useCounts = new Map<string, number>();
+    for (const decorator of this.allowedDecorators) useCounts.set(decorator, 0);
+    for (const { name } of this.getDecoratorsInDocumentTree(fsPath)) {
+      useCounts.set(name, (useCounts.get(name) ?? 0) + 1);
+    }
+
+    return [...useCounts].map(([name, count]) => {
+      const item = CompletionItem.create(name);
+      item.kind = CompletionItemKind.EnumMember;
+      item.detail =
+        count === 1
+          ? "Handle decorator, used once in this document tree"
+          : `Handle decorator, used ${count} times in this document tree`;
+      item.textEdit = TextEdit.replace(range, name);
+      return item;
+    });
+  }
+
+  /**
+   * Returns the decorators of every in-text definition in the document tree,
+   * with the file each one is in.
+   */
+  private getDecoratorsInDocumentTree(
+    currentFsPath: FSPath,
+  ): (HandleDecorator & { fsPath: FSPath })[] {
+    const decorators: (HandleDecorator & { fsPath: FSPath })[] = [];
+    for (const [fsPath, definitionsByHandle] of this.definitionsByFile) {
+      if (!this.isInSameDocumentTree(currentFsPath, fsPath)) continue;
+      for (const defs of definitionsByHandle.values()) {
+        for (const def of defs) {
+          for (const decorator of def.decorators) {
+            decorators.push({ ...decorator, fsPath });
+          }
+        }
+      }
+    }
+    return decorators;
+  }
+
+  private getDecoratorRenameEdits(
+    originFsPath: FSPath,
+    oldName: string,
+    newName: string,
+  ): WorkspaceEdit {
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const decorator of this.getDecoratorsInDocumentTree(originFsPath)) {
+      if (decorator.name !== oldName) continue;
+
+      const uri = URI.file(decorator.fsPath).toString();
+      changes[uri] = [
+        ...(changes[uri] ?? []),
+        TextEdit.replace(decorator.range, newName),
+      ];
+    }
+    return { changes };
+  }
+
+  private validateDecorators(fsPath: FSPath, diagnostics: Diagnostic[]): void {
+    if (this.allowedDecorators.size === 0) return;
+
+    const allowed = [...this.allowedDecorators]
+      .map((decorator) => `#${decorator}`)
+      .join(", ");
+    for (const defs of this.definitionsByFile.get(fsPath)?.values() ?? []) {
+      for (const def of defs) {
+        for (const decorator of def.decorators) {
+          if (this.allowedDecorators.has(decorator.name)) continue;
+          diagnostics.push(
+            createWriterlyDiagnostic(
+              decorator.range,
+              `Unknown handle decorator '#${decorator.name}'. Allowed decorators: ${allowed}.`,
+              "handle-unknown-decorator",
+              { decorator: decorator.name },
+            ),
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Returns the tags with a `title=` attribute indexed for one file, in
+   * source order.
+   */
+  public getTitledTags(fsPath: FSPath): TitledTag[] {
+    return this.titledTags.get(fsPath) ?? [];
+  }
+
+  /**
+   * Returns the handle definitions and usages indexed for one file, each in
+   * source order.
+   */
+  public getHandleOccurrences(
+    fsPath: FSPath,
+  ): { definitions: HandleAtPosition[]; usages: HandleAtPosition[] } {
+    const definitions: HandleAtPosition[] = [];
+    for (const [handleName, defs] of this.definitionsByFile.get(fsPath) ?? []) {
+      for (const def of defs) definitions.push({ handleName, range: def.range });
+    }
+    definitions.sort((a, b) => rangeUtils.compare(a.range.start, b.range.start));
+
+    const usages = (this.handleLinks.get(fsPath) ?? []).map((link) => ({
+      handleName: link.handleName,
+      range: link.range,
+    }));
+
+    return { definitions, usages };
+  }
+
+  /**
+   * Returns the definitions of one file that get an unused-handle warning, in
+   * source order, leaving out those its `writerly-disable` directives
+   * suppress.
+   */
+  public getUnusedDefinitions(fsPath: FSPath): HandleAtPosition[] {
+    const diagnostics: Diagnostic[] = [];
+    this.validateHandleDefinitions(fsPath, diagnostics, true);
+
+    return this.applySuppressions(fsPath, diagnostics, () => false)
+      .filter(
+        (diagnostic) => getWriterlyDiagnosticCode(diagnostic) === "handle-unused",
+      )
+      .map((diagnostic) => ({
+        handleName: (diagnostic.data as HandleDiagnosticData).handleName,
+        range: diagnostic.range,
+      }))
+      .sort((a, b) => rangeUtils.compare(a.range.start, b.range.start));
+  }
+
+  /**
+   * Returns the usages indexed for one file that resolve to a single
+   * definition, in source order. Usages that resolve to no definition, or to
+   * several, are left out.
+   */
+  public getResolvedUsages(fsPath: FSPath): ResolvedHandleUsage[] {
+    const usages: ResolvedHandleUsage[] = [];
+    for (const link of this.handleLinks.get(fsPath) ?? []) {
+      const resolution = this.resolveDefinitionForHandle(
+        link.handleName,
+        fsPath,
+      );
+      if (resolution.kind !== "ok") continue;
+
+      usages.push({
+        fsPath,
+        range: link.range,
+        handleName: link.handleName,
+        definitionFsPath: resolution.definition.fsPath,
+      });
+    }
+    return usages;
+  }
+
+  /**
+   * Returns the handle under the cursor with its usages in the current
+   * document tree, sorted by file and position.
+   */
+  public getHandleUsagesAt(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): { handleName: HandleName; usages: HandleUsage[] } | undefined {
+    const handle = this.getHandleAtPosition(document, position);
+    if (!handle) return undefined;
+
+    return {
+      handleName: handle.handleName,
+      usages: this.getUsagesInDocumentTree(handle.handleName, fsPath),
+    };
+  }
+
+  /**
+   * Describes the handle under the cursor for hovers: how it resolves from
+   * this file and why each of its definitions in the document tree is or is
+   * not the one it resolves to.
+   */
+  public describeHandleAt(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleDescription | undefined {
+    const definition = this.getDefinitionAtPosition(document, position);
+    const handle = definition ?? this.getUsageOnLine(document, position);
+    if (!handle) return undefined;
+
+    const { handleName } = handle;
+    const accessibleDefinitions = this.findDefinitionsInAccessibleIslands(
+      handleName,
+      fsPath,
+    );
+    const nearestGoodDefinitions = this.getNearestIslandDefinitions(
+      accessibleDefinitions.filter(
+        (def) => !this.isDefinitionAmbiguous(handleName, def),
+      ),
+    );
+    const getStatus = (def: HandleDefinition): HandleCandidateStatus => {
+      if (!isInAccessibleHashIsland(fsPath, def.fsPath)) return "inaccessible";
+      if (this.isDefinitionAmbiguous(handleName, def)) return "duplicate";
+      if (
+        !nearestGoodDefinitions.some((nearest) =>
+          this.isSameDefinition(nearest, def),
+        )
+      ) {
+        return "shadowed";
+      }
+      return "resolved";
+    };
+
+    const resolution = this.resolveDefinitionForHandle(handleName, fsPath);
+    const decorators = definition
+      ? definition.decorators ?? []
+      : resolution.kind === "ok"
+        ? resolution.definition.decorators
+        : [];
+
+    return {
+      handleName,
+      range: handle.range,
+      kind: definition ? "definition" : "usage",
+      resolution: resolution.kind,
+      candidates: this.dedupeDefinitions(
+        this.findDefinitionsInDocumentTree(handleName, fsPath),
+      ).map((def) => ({
+        fsPath: def.fsPath,
+        range: def.range,
+        status: getStatus(def),
+      })),
+      usageCount: this.getUsagesInDocumentTree(handleName, fsPath).length,
+      decorators: decorators.map((decorator) => decorator.name),
+    };
+  }
+
+  private createGoToDefinitionAction(definition: HandleDefinition): CodeAction {
+    const relativePath = this.workspace.getDisplayPath(definition.fsPath);
+    const lineNumber = definition.range.start.line + 1;
+    const action = CodeAction.create(
+      `Go to definition in ${relativePath}:${lineNumber}`,
+      CodeActionKind.QuickFix,
+    );
+    const selectionStart = rangeUtils.translate(definition.range.start, 0, 7);
+
+    action.command = {
+      title: `Go to ${relativePath}:${lineNumber}`,
+      command: OPEN_LOCATION_COMMAND,
+      arguments: [
+        URI.file(definition.fsPath).toString(),
+        Range.create(selectionStart, selectionStart),
+      ],
+    };
+
+    return action;
+  }
+
+  private isHandleVisibleFromFile(
+    handleName: HandleName,
+    definitions: HandleDefinition[],
+    fsPath: string,
+  ): boolean {
+    return (
+      definitions.length > 0 &&
+      this.resolveDefinitionForHandle(handleName, fsPath).kind === "ok"
+    );
+  }
+
+  private createHandleCompletionItem(handleName: string): CompletionItem {
+    const item = CompletionItem.create(handleName);
+    item.kind = CompletionItemKind.Reference;
+    item.insertText = handleName;
+    return item;
+  }
+
+  private getUsagesInDocumentTree(
+    handleName: HandleName,
+    currentFsPath: FSPath,
+  ): HandleUsage[] {
+    const usages: HandleUsage[] = [];
+
+    for (const [fsPath, links] of this.handleLinks) {
+      if (!this.isInSameDocumentTree(currentFsPath, fsPath)) continue;
+
+      for (const link of links) {
+        if (link.handleName !== handleName) continue;
+        usages.push({
+          fsPath,
+          range: link.range,
+          handleName,
+        });
+      }
+    }
+
+    return usages.sort(
+      (a, b) =>
+        this.workspace
+          .getDisplayPath(a.fsPath)
+          .localeCompare(this.workspace.getDisplayPath(b.fsPath), undefined, {
+            numeric: true,
+            sensitivity: "base",
+          }) ||
+        a.range.start.line - b.range.start.line ||
+        a.range.start.character - b.range.start.character,
+    );
+  }
+
+  /**
+   * Returns the locations of the names of the usages that resolve to
+   * `definition` in the document tree of `currentFsPath`, without `>>`.
+   * Without a definition, the usages there that resolve to no single
+   * definition.
+   */
+  private getUsageLocations(
+    handleName: HandleName,
+    currentFsPath: FSPath,
+    definition: DefinitionSite | undefined,
+  ): Location[] {
+    return this.getUsagesInDocumentTree(handleName, currentFsPath)
+      .filter((usage) => {
+        const resolution = this.resolveDefinitionForHandle(
+          handleName,
+          usage.fsPath,
+        );
+        return definition
+          ? resolution.kind === "ok" &&
+              this.isSameDefinition(resolution.definition, definition)
+          : resolution.kind !== "ok";
+      })
+      .map((usage) =>
+        this.createLocation(
+          usage.fsPath,
+          Range.create(
+            rangeUtils.translate(usage.range.start, 0, 2),
+            usage.range.end,
+          ),
+        ),
+      );
+  }
+
+  private getDefinitionOnLine(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleAtPosition | undefined {
+    const line = document.lineAt(position.line);
+    const match = line.text.match(HANDLE_DEF_RENAME_REGEX);
+
+    if (!match) return undefined;
+
+    const lineType = WriterlyParser.parse(document).lineTypeAt(position.line);
+    if (
+      lineType !== LineType.Attribute &&
+      lineType !== LineType.AttributeZoneComment
+    )
+      return undefined;
+
+    const fullMatchText = match[0]; // e.g., "  handle=my_name"
+    const handleName = match[1]; // e.g., "my_name"
+
+    // 1. get the start of the whole "handle=name" block
+    const matchStart = match.index || 0;
+
+    // 2. find the name within THAT specific match block, not the whole line
+    const nameOffsetInMatch = fullMatchText.indexOf(handleName);
+
+    const absoluteNameStart = matchStart + nameOffsetInMatch;
+
+    const range = Range.create(
+      position.line,
+      absoluteNameStart,
+      position.line,
+      absoluteNameStart + handleName.length,
+    );
+
+    return { handleName, range };
+  }
+
+  private getInTextDefinitionOnLine(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleAtPosition | undefined {
+    return this.getInTextDefinitionsOnLine(document, position.line).find(
+      (definition) => rangeUtils.contains(definition.range, position),
+    );
+  }
+
+  private getInTextDefinitionsOnLine(
+    document: WriterlyTextDocument,
+    lineNumber: number,
+  ): HandleAtPosition[] {
+    const line = WriterlyParser.parse(document).lineAt(lineNumber);
+    if (line?.lineType !== LineType.Text) return [];
+
+    return this.extractInTextHandleDefinitions(
+      line.content,
+      lineNumber,
+      line.indent,
+    );
+  }
+
+  private getDecoratorAtPosition(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleDecorator | undefined {
+    return this.getInTextDefinitionsOnLine(document, position.line)
+      .flatMap((definition) => definition.decorators ?? [])
+      .find((decorator) => rangeUtils.contains(decorator.range, position));
+  }
+
+  private getUsageOnLine(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleAtPosition | undefined {
+    const lineType = WriterlyParser.parse(document).lineTypeAt(position.line);
+    if (lineType === undefined || !this.shouldProcessUsageInLine(lineType)) {
+      return undefined;
+    }
+
+    const line = document.lineAt(position.line).text;
+    let usageMatch;
+    USAGE_REGEX.lastIndex = 0;
+
+    while ((usageMatch = USAGE_REGEX.exec(line)) !== null) {
+      const matchStart = usageMatch.index;
+      const matchEnd = matchStart + usageMatch[0].length;
+
+      if (position.character >= matchStart && position.character <= matchEnd) {
+        const handleName = usageMatch[1];
+        const range = Range.create(
+          position.line,
+          matchStart + 2,
+          position.line,
+          matchEnd,
+        );
+        return { handleName, range };
+      }
+    }
+
+    return undefined;
+  }
+
+  private getHandleAtPosition(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleAtPosition | undefined {
+    return (
+      this.getDefinitionAtPosition(document, position) ??
+      this.getUsageOnLine(document, position)
+    );
+  }
+
+  private getDefinitionAtPosition(
+    document: WriterlyTextDocument,
+    position: Position,
+  ): HandleAtPosition | undefined {
+    const attributeDefinition = this.getDefinitionOnLine(document, position);
+    if (
+      attributeDefinition &&
+      rangeUtils.contains(attributeDefinition.range, position)
+    ) {
+      return attributeDefinition;
+    }
+
+    const inTextDefinition = this.getInTextDefinitionOnLine(document, position);
+    if (
+      inTextDefinition &&
+      rangeUtils.contains(inTextDefinition.range, position)
+    ) {
+      return inTextDefinition;
+    }
+
+    return undefined;
+  }
+
+  private getDefinitionForHandle(
+    handleName: string,
+    currentFsPath: string,
+  ): Location | undefined {
+    const resolution = this.resolveDefinitionForHandle(
+      handleName,
+      currentFsPath,
+    );
+
+    // only provide definition for single, unambiguous handles
+    if (resolution.kind !== "ok") {
+      return undefined;
+    }
+
+    const definition = resolution.definition;
+    return this.createLocation(definition.fsPath, definition.range);
+  }
+
+  private createLocation(fsPath: FSPath, range: Range): Location {
+    return Location.create(URI.file(fsPath).toString(), range);
+  }
+
+  private attachPositionToUri(fsPath: FSPath, position: Position): string {
+    const line = position.line + 1;
+    const character = position.character + 1;
+    const fragment = `${line},${character}`;
+    return URI.file(fsPath).with({ fragment }).toString();
+  }
+
+  private validateHandleDefinitions(
+    currentFsPath: FSPath,
+    diagnostics: Diagnostic[],
+    validateUnusedHandles: boolean,
+  ): void {
+    const strictRegex = new RegExp(`^(${HANDLE_REGEX_STRING})$`, "u");
+
+    this.definitions.forEach((defs, handleName) => {
+      const localDefs = defs.filter((d) => d.fsPath === currentFsPath);
+      if (localDefs.length === 0) return;
+
+      if (!strictRegex.test(handleName)) {
+        this.addInvalidHandleDefinitionDiagnostics(
+          handleName,
+          localDefs,
+          diagnostics,
+        );
+        return;
+      }
+
+      const treeDefs = this.findDefinitionsInSameIsland(
+        handleName,
+        currentFsPath,
+      );
+      const uniqueTreeDefs = this.dedupeDefinitions(treeDefs);
+      if (uniqueTreeDefs.length > 1) {
+        this.addDuplicateHandleDefinitionDiagnostics(
+          handleName,
+          localDefs,
+          uniqueTreeDefs,
+          diagnostics,
+        );
+        return;
+      }
+
+      if (validateUnusedHandles) {
+        if (this.getUsageCountInDocumentTree(handleName, currentFsPath) === 0) {
+          this.addUnusedHandleDefinitionDiagnostics(
+            handleName,
+            localDefs,
+            diagnostics,
+          );
+        }
+      }
+    });
+  }
+
+  private addInvalidHandleDefinitionDiagnostics(
+    handleName: HandleName,
+    definitions: HandleDefinition[],
+    diagnostics: Diagnostic[],
+  ): void {
+    definitions.forEach((definition) => {
+      diagnostics.push(
+        createWriterlyDiagnostic(
+          definition.range,
+          `Invalid handle name: '${handleName}'.`,
+          "handle-invalid-name",
+          { handleName },
+        ),
+      );
+    });
+  }
+
+  private addDuplicateHandleDefinitionDiagnostics(
+    handleName: HandleName,
+    definitions: HandleDefinition[],
+    conflictingDefinitions: HandleDefinition[],
+    diagnostics: Diagnostic[],
+  ): void {
+    const locationInfo = this.formatDefinitionLocations(
+      conflictingDefinitions,
+    );
+    definitions.forEach((definition) => {
+      diagnostics.push(
+        createWriterlyDiagnostic(
+          definition.range,
+          `Handle '${handleName}' is defined in multiple places (${conflictingDefinitions.length}) in this document tree:\n ${locationInfo}`,
+          "handle-duplicate-definition",
+          { handleName },
+        ),
+      );
+    });
+  }
+
+  private addUnusedHandleDefinitionDiagnostics(
+    handleName: HandleName,
+    definitions: HandleDefinition[],
+    diagnostics: Diagnostic[],
+  ): void {
+    definitions.forEach((definition) => {
+      diagnostics.push(
+        createWriterlyDiagnostic(
+          definition.range,
+          `Unused handle: '${handleName}' is defined but never used.`,
+          "handle-unused",
+          { handleName },
+        ),
+      );
+    });
+  }
+
+  private dedupeDefinitions(
+    definitions: HandleDefinition[],
+  ): HandleDefinition[] {
+    return definitions.filter(
+      (definition, index, allDefinitions) =>
+        index ===
+        allDefinitions.findIndex((candidate) =>
+          this.isSameDefinition(candidate, definition),
+        ),
+    );
+  }
+
+  private isSameDefinition(a: DefinitionSite, b: DefinitionSite): boolean {
+    return (
+      a.fsPath === b.fsPath &&
+      a.range.start.line === b.range.start.line &&
+      a.range.start.character === b.range.start.character
+    );
+  }
+
+  private getDocumentTreeKeys(fsPath: string): DocumentTreeKey[] {
+    return getDocumentTreeKeys(fsPath, this.writerlyContainers);
+  }
+
+  private getUsageCountInDocumentTree(
+    handleName: string,
+    fsPath: string,
+  ): number {
+    const countsByTree = this.usageCounts.get(handleName);
+    if (!countsByTree) return 0;
+
+    return this.getDocumentTreeKeys(fsPath).reduce(
+      (sum, treeKey) => sum + (countsByTree.get(treeKey) || 0),
+      0,
+    );
+  }
+
+  private rebuildHandleIndexes(): void {
+    this.definitions.clear();
+    for (const definitionsByHandle of this.definitionsByFile.values()) {
+      for (const [handleName, definitions] of definitionsByHandle) {
+        const globalDefinitions = this.definitions.get(handleName) ?? [];
+        globalDefinitions.push(...definitions);
+        this.definitions.set(handleName, globalDefinitions);
+      }
+    }
+
+    this.usageCounts.clear();
+    for (const links of this.handleLinks.values()) {
+      for (const link of links) {
+        if (link.suppressDiagnostics) continue;
+        this.addUsageCount(link.handleName, link.fsPath, 1);
+      }
+    }
+  }
+
+  /**
+   * Replaces the definitions of one handle in one file, where that file's
+   * definitions were listed before.
+   */
+  private updateDefinitions(
+    handleName: HandleName,
+    fsPath: FSPath,
+    fileDefinitions: HandleDefinition[],
+  ): void {
+    const previous = this.definitions.get(handleName) ?? [];
+    const position = previous.findIndex((def) => def.fsPath === fsPath);
+    const others = previous.filter((def) => def.fsPath !== fsPath);
+    const index = position === -1 ? others.length : position;
+    const definitions = [
+      ...others.slice(0, index),
+      ...fileDefinitions,
+      ...others.slice(index),
+    ];
+    if (definitions.length > 0) {
+      this.definitions.set(handleName, definitions);
+    } else {
+      this.definitions.delete(handleName);
+    }
+  }
+
+  private addUsageCount(handleName: string, fsPath: string, count: number) {
+    let countsByTree = this.usageCounts.get(handleName);
+    if (!countsByTree) {
+      countsByTree = new Map();
+      this.usageCounts.set(handleName, countsByTree);
+    }
+
+    for (const treeKey of this.getDocumentTreeKeys(fsPath)) {
+      const current = (countsByTree.get(treeKey) || 0) + count;
+      if (current > 0) {
+        countsByTree.set(treeKey, current);
+      } else {
+        countsByTree.delete(treeKey);
+      }
+    }
+    if (countsByTree.size === 0) this.usageCounts.delete(handleName);
+  }
+}
@@ -0,0 +1,1275 @@
+import * as path from "path";
+import {
+  CodeActionKind,
+  CodeLensRefreshRequest,
+  DidChangeConfigurationNotification,
+  FileChangeType,
+  LSPErrorCodes,
+  ResponseError,
+  TextDocumentSyncKind,
+  TextDocuments,
+  type CompletionItem,
+  type Connection,
+  type Diagnostic,
+  type FileOperationRegistrationOptions,
+  type InitializeParams,
+  type InitializeResult,
+  type WorkspaceEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Range } from "vscode-languageserver-types";
+import { URI } from "vscode-uri";
+import {
+  applyDiagnosticSeverities,
+  getDiagnosticCategory,
+  toDiagnosticSeverities,
+  type WriterlyDiagnosticCode,
+} from "../WriterlyDiagnostics";
+import { WriterlyDocumentSymbols } from "../WriterlyDocumentSymbols";
+import { isPathUnderDirectory } from "../WriterlyDocumentTrees";
+import { isWriterlyFilePath } from "../WriterlyFileExtensions";
+import type { WriterlyWorkspaceFolder } from "../WriterlyFileSystem";
+import { PATH_COMPLETION_TRIGGER_CHARACTERS } from "../WriterlyPathCompletionContext";
+import {
+  DEFAULT_WRITERLY_SETTINGS,
+  HANDLE_DEFINITION_TARGETS_REQUEST,
+  HANDLE_GRAPH_REQUEST,
+  HANDLE_USAGES_REQUEST,
+  LANGUAGE_SERVER_NAME,
+  UNUSED_HANDLES_REQUEST,
+  type HandleDefinitionTargetsParams,
+  type HandleDefinitionTargetsResult,
+  type HandleGraphParams,
+  type HandleGraphResult,
+  type HandleUsagesParams,
+  type HandleUsagesResult,
+  type UnusedHandlesParams,
+  type UnusedHandlesResult,
+  type WriterlySettings,
+} from "../WriterlyProtocol";
+import {
+  WriterlyTextSnapshot,
+  type WriterlyTextDocument,
+} from "../WriterlyTextDocument";
+import { WriterlyAssemblyValidation } from "./WriterlyAssemblyValidation";
+import { WriterlyHandleDefinitionTargets } from "./WriterlyHandleDefinitionTargets";
+import { WriterlyHandleGraph } from "./WriterlyHandleGraph";
+import { WriterlyHandleHover } from "./WriterlyHandleHover";
+import {
+  toConfirmedRenameEdit,
+  WriterlyHandleIndex,
+  type HandleRename,
+} from "./WriterlyHandleIndex";
+import { WriterlyPathCompletion } from "./WriterlyPathCompletion";
+import { WriterlySchemaCompletion } from "./WriterlySchemaCompletion";
+import { WriterlySchemas } from "./WriterlySchemas";
+import {
+  WriterlySyntaxCodeActions,
+  WRITERLY_FIX_ALL_KIND,
+} from "./WriterlySyntaxCodeActions";
+import { WriterlyUnusedHandles } from "./WriterlyUnusedHandles";
+import { WriterlyWorkspace } from "./WriterlyWorkspace";
+import { WriterlyWorkspaceSymbols } from "./WriterlyWorkspaceSymbols";
+
+type FSPath = string;
+
+const OPEN_DOCUMENT_PROCESSING_DELAY_MS = 250;
+const LINE_BREAK_SUFFIX_REGEX = /\r?\n$|\r$/;
+const ALL_FILES_OPERATION_FILTER: FileOperationRegistrationOptions = {
+  filters: [{ scheme: "file", pattern: { glob: "**/*" } }],
+};
+
+/*
+ * WriterlyLanguageServer connects the Writerly language features to an LSP
+ * client. It tracks the documents the client has open, keeps the workspace
+ * index current from file events, decides when documents are (re)indexed and
+ * validated, and publishes the diagnostics of the handle index and of the
+ * missing-file checks as one set per document, with the document's
+ * `writerly-disable` directives and the severities of
+ * `writerly.diagnostics.severity` applied. Documents governed by a
+ * `writerly.schema.json` are also checked against that tag schema, and the
+ * schema files themselves get a diagnostic when they cannot be read.
+ *
+ * Scheduling:
+ * - on start-up every Writerly file in the workspace is indexed, then the open
+ *   documents are validated, including unused-handle warnings
+ * - an edited document is re-indexed right away; open documents of the same
+ *   document tree are revalidated 300ms after the last edit, and the client
+ *   is asked to refresh reference code lenses
+ * - a newly opened document is processed 250ms after it was opened, and all
+ *   open documents are revalidated a second later
+ * - missing-file warnings are collected 750ms after the last re-index, and
+ *   re-collected for every open document a second after asset files change
+ */
+export class WriterlyLanguageServer {
+  private readonly documents = new TextDocuments(TextDocument);
+  private readonly workspace = new WriterlyWorkspace();
+  private readonly handleIndex = new WriterlyHandleIndex(this.workspace);
+  private readonly pathCompletion = new WriterlyPathCompletion(this.workspace);
+  private readonly workspaceSymbols = new WriterlyWorkspaceSymbols(
+    this.workspace,
+    this.handleIndex,
+  );
+  private readonly handleGraph = new WriterlyHandleGraph(
+    this.workspace,
+    this.handleIndex,
+  );
+  private readonly schemas = new WriterlySchemas(this.workspace);
+  private readonly schemaCompletion = new WriterlySchemaCompletion(
+    this.schemas,
+  );
+  private readonly handleHover = new WriterlyHandleHover(this.handleIndex, {
+    readDocument: (fsPath) => this.readDocument(fsPath),
+    getDisplayPath: (fsPath) => this.workspace.getDisplayPath(fsPath),
+  });
+  private readonly syntaxCodeActions = new WriterlySyntaxCodeActions({
+    readDocument: (fsPath) => this.readDocument(fsPath),
+    getDocumentTreeFiles: (fsPath) => this.getDocumentTreeFiles(fsPath),
+    getDocumentUri: (fsPath) => this.getDocumentUri(fsPath),
+  });
+  private readonly handleDefinitionTargets =
+    new WriterlyHandleDefinitionTargets({
+      readDocument: (fsPath) => this.readDocument(fsPath),
+      getDocumentTreeFiles: (fsPath) => this.getDocumentTreeFiles(fsPath),
+      getDocumentUri: (fsPath) => this.getDocumentUri(fsPath),
+      getDisplayPath: (fsPath) => this.workspace.getDisplayPath(fsPath),
+    });
+  private readonly unusedHandles = new WriterlyUnusedHandles(this.handleIndex, {
+    readDocument: (fsPath) => this.readDocument(fsPath),
+    getDocumentUri: (fsPath) => this.getDocumentUri(fsPath),
+    getDisplayPath: (fsPath) => this.workspace.getDisplayPath(fsPath),
+  });
+  private readonly assemblyValidation = new WriterlyAssemblyValidation(
+    this.workspace,
+    this.handleIndex,
+    { readDocument: (fsPath) => this.readDocument(fsPath) },
+  );
+  private writerlyDocuments = new WeakMap<TextDocument, WriterlyTextDocument>();
+  private justOpenedUris = new Set<string>();
+  private settings: WriterlySettings = DEFAULT_WRITERLY_SETTINGS;
+  private hasConfigurationCapability = false;
+  private hasWorkspaceFolderCapability = false;
+  private hasCodeLensRefreshCapability = false;
+  private hasChangeAnnotationCapability = false;
+  private isInitialized = false;
+  private handleDiagnostics = new Map<FSPath, Diagnostic[]>();
+  private missingFileDiagnostics = new Map<FSPath, Diagnostic[]>();
+  private assemblyDiagnostics = new Map<FSPath, Diagnostic[]>();
+  // roots of the document trees waiting for assembly validation
+  private pendingAssemblyRoots = new Set<FSPath>();
+  // files whose handles were validated, mapped to whether unused handles were
+  private handleValidations = new Map<FSPath, boolean>();
+  private revalidateTimer: NodeJS.Timeout | undefined;
+  private missingFileRevalidateTimer: NodeJS.Timeout | undefined;
+  private missingFileValidationTimer: NodeJS.Timeout | undefined;
+  private assemblyValidationTimer: NodeJS.Timeout | undefined;
+  private openDocumentProcessingTimer: NodeJS.Timeout | undefined;
+  private pendingOpenDocumentUri: string | undefined;
+  private openDocumentRevalidationTimer: NodeJS.Timeout | undefined;
+  private loadFilesTimer: NodeJS.Timeout | undefined;
+  private pendingMissingFileDocuments = new Map<FSPath, WriterlyTextDocument>();
+
+  constructor(private readonly connection: Connection) {
+    connection.onInitialize((params) => this.onInitialize(params));
+    connection.onInitialized(() => this.onInitialized());
+    connection.onDidChangeConfiguration((params) =>
+      this.onDidChangeConfiguration(params.settings),
+    );
+    connection.onDidChangeWatchedFiles(async (params) => {
+      for (const change of params.changes) {
+        await this.onDidChangeWatchedFile(change.uri, change.type);
+      }
+    });
+    connection.workspace.onDidRenameFiles(async (params) => {
+      for (const file of params.files) {
+        await this.onDidRename(this.toFsPath(file.oldUri), this.toFsPath(file.newUri));
+      }
+    });
+    connection.workspace.onDidDeleteFiles(async (params) => {
+      for (const file of params.files) {
+        await this.onDidDelete(this.toFsPath(file.uri));
+      }
+    });
+    connection.workspace.onDidCreateFiles(async (params) => {
+      for (const file of params.files) {
+        await this.onDidCreate(this.toFsPath(file.uri));
+      }
+    });
+
+    this.documents.onDidOpen((event) => this.onDidOpen(event.document));
+    this.documents.onDidChangeContent((event) =>
+      this.onDidChange(event.document),
+    );
+
+    connection.onDocumentLinks((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!document || !isWriterlyFilePath(fsPath)) return null;
+
+      const links = this.handleIndex.getDocumentLinks(fsPath);
+      if (links !== undefined) return links;
+
+      this.processDocument(fsPath, this.toWriterlyDocument(document));
+      return this.handleIndex.getDocumentLinks(fsPath) ?? null;
+    });
+    connection.onDocumentLinkResolve((link) =>
+      this.handleIndex.resolveDocumentLink(link),
+    );
+    connection.onCodeAction(async (params) => {
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      const document = this.documents.get(params.textDocument.uri);
+      const { diagnostics, only } = params.context;
+      const actions =
+        !only || only.includes(CodeActionKind.QuickFix)
+          ? this.handleIndex.getCodeActions(fsPath, diagnostics)
+          : [];
+      if (document && isWriterlyFilePath(fsPath)) {
+        actions.push(
+          ...this.syntaxCodeActions.getCodeActions(
+            fsPath,
+            this.toWriterlyDocument(document),
+            diagnostics,
+            only,
+          ),
+        );
+      }
+      return actions;
+    });
+    connection.onCodeActionResolve((action) =>
+      this.syntaxCodeActions.isFixAllAction(action)
+        ? this.syntaxCodeActions.resolveCodeAction(action)
+        : action,
+    );
+    connection.onReferences((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!document || !isWriterlyFilePath(fsPath)) return null;
+      if (!this.isInitialized) return null;
+
+      return (
+        this.handleIndex.getReferences(
+          fsPath,
+          this.toWriterlyDocument(document),
+          params.position,
+          params.context.includeDeclaration,
+        ) ?? null
+      );
+    });
+    connection.onDocumentSymbol((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!document || !isWriterlyFilePath(fsPath)) return null;
+
+      return WriterlyDocumentSymbols.getDocumentSymbols(
+        this.toWriterlyDocument(document),
+      );
+    });
+    connection.onWorkspaceSymbol((params) => {
+      if (!this.isInitialized) return null;
+      return this.workspaceSymbols.getSymbols(params.query);
+    });
+    connection.onCodeLens((params) => {
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!isWriterlyFilePath(fsPath)) return null;
+      if (!this.isInitialized) return null;
+      return this.handleIndex.getReferenceCodeLenses(fsPath);
+    });
+    connection.onCodeLensResolve((codeLens) =>
+      this.handleIndex.resolveReferenceCodeLens(codeLens),
+    );
+    connection.onHover(async (params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!document || !isWriterlyFilePath(fsPath)) return null;
+      if (!this.isInitialized) return null;
+
+      return (
+        (await this.handleHover.getHover(
+          fsPath,
+          this.toWriterlyDocument(document),
+          params.position,
+        )) ?? null
+      );
+    });
+    connection.onDefinition((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!document || !isWriterlyFilePath(fsPath)) return null;
+      if (!this.isInitialized) return null;
+
+      const targets = this.handleIndex.getDefinitionTargets(
+        fsPath,
+        this.toWriterlyDocument(document),
+        params.position,
+      );
+      if (!targets) return null;
+      if (targets.message) {
+        void connection.window.showInformationMessage(targets.message);
+      }
+      return targets.locations;
+    });
+    connection.onPrepareRename((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      if (!document) return null;
+
+      return (
+        this.handleIndex.prepareRename(
+          this.toWriterlyDocument(document),
+          params.position,
+        ) ?? null
+      );
+    });
+    connection.onRenameRequest((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      if (!document) return null;
+
+      const rename = this.handleIndex.getRenameEdits(
+        this.toFsPath(params.textDocument.uri),
+        this.toWriterlyDocument(document),
+        params.position,
+        params.newName,
+      );
+      if (!rename) return null;
+      if (rename.kind === "refused") {
+        return new ResponseError(LSPErrorCodes.RequestFailed, rename.message);
+      }
+      return this.toConfirmedRenameEdit(rename);
+    });
+    connection.onCompletion((params) => {
+      const document = this.documents.get(params.textDocument.uri);
+      const fsPath = this.toFsPath(params.textDocument.uri);
+      if (!document || !isWriterlyFilePath(fsPath)) return null;
+
+      const writerlyDocument = this.toWriterlyDocument(document);
+      const handleItems = this.handleIndex.getCompletionItems(
+        fsPath,
+        writerlyDocument,
+        params.position,
+      );
+      const pathItems = this.pathCompletion.getCompletionItems(
+        fsPath,
+        writerlyDocument,
+        params.position,
+      );
+      const schemaItems = this.schemaCompletion.getCompletionItems(
+        fsPath,
+        writerlyDocument,
+        params.position,
+      );
+      if (!handleItems && !pathItems && !schemaItems) return null;
+      return [
+        ...(handleItems ?? []),
+        ...(pathItems ?? []),
+        ...(schemaItems ?? []),
+      ];
+    });
+    connection.onCompletionResolve((item: CompletionItem) =>
+      this.pathCompletion.isPathCompletionItem(item)
+        ? this.pathCompletion.resolveCompletionItem(item)
+        : item,
+    );
+    connection.onRequest(
+      HANDLE_USAGES_REQUEST,
+      (params: HandleUsagesParams) => this.getHandleUsages(params),
+    );
+    connection.onRequest(
+      HANDLE_DEFINITION_TARGETS_REQUEST,
+      (params: HandleDefinitionTargetsParams) =>
+        this.getHandleDefinitionTargets(params),
+    );
+    connection.onRequest(HANDLE_GRAPH_REQUEST, (params: HandleGraphParams) =>
+      this.getHandleGraph(params),
+    );
+    connection.onRequest(
+      UNUSED_HANDLES_REQUEST,
+      (params: UnusedHandlesParams) => this.getUnusedHandles(params),
+    );
+  }
+
+  public listen(): void {
+    this.documents.listen(this.connection);
+    this.connection.listen();
+  }
+
+  private onInitialize(params: InitializeParams): InitializeResult {
+    const capabilities = params.capabilities;
+    this.hasConfigurationCapability = !!capabilities.workspace?.configuration;
+    this.hasWorkspaceFolderCapability =
+      !!capabilities.workspace?.workspaceFolders;
+    this.hasCodeLensRefreshCapability =
+      !!capabilities.workspace?.codeLens?.refreshSupport;
+    this.hasChangeAnnotationCapability =
+      !!capabilities.workspace?.workspaceEdit?.documentChanges &&
+      !!capabilities.workspace.workspaceEdit.changeAnnotationSupport;
+
+    this.workspace.setFolders(this.getInitialWorkspaceFolders(params));
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        documentLinkProvider: { resolveProvider: true },
+        definitionProvider: true,
+        hoverProvider: true,
+        referencesProvider: true,
+        documentSymbolProvider: true,
+        workspaceSymbolProvider: true,
+        codeLensProvider: { resolveProvider: true },
+        renameProvider: { prepareProvider: true },
+        completionProvider: {
+          // '>' triggers handle completion once the second '>' is typed, '#'
+          // decorator completion in in-text definitions
+          triggerCharacters: [">", "#", ...PATH_COMPLETION_TRIGGER_CHARACTERS],
+          resolveProvider: true,
+        },
+        codeActionProvider: {
+          codeActionKinds: [CodeActionKind.QuickFix, WRITERLY_FIX_ALL_KIND],
+          resolveProvider: true,
+        },
+        workspace: {
+          workspaceFolders: { supported: true, changeNotifications: true },
+          fileOperations: {
+            didCreate: ALL_FILES_OPERATION_FILTER,
+            didRename: ALL_FILES_OPERATION_FILTER,
+            didDelete: ALL_FILES_OPERATION_FILTER,
+          },
+        },
+      },
+      serverInfo: { name: LANGUAGE_SERVER_NAME },
+    };
+  }
+
+  private getInitialWorkspaceFolders(
+    params: InitializeParams,
+  ): WriterlyWorkspaceFolder[] {
+    if (params.workspaceFolders) {
+      return params.workspaceFolders.map((folder) => ({
+        name: folder.name,
+        fsPath: this.toFsPath(folder.uri),
+      }));
+    }
+
+    if (params.rootUri) {
+      const fsPath = this.toFsPath(params.rootUri);
+      return [{ name: path.basename(fsPath), fsPath }];
+    }
+
+    return [];
+  }
+
+  private onInitialized(): void {
+    if (this.hasConfigurationCapability) {
+      void this.connection.client.register(
+        DidChangeConfigurationNotification.type,
+        { section: "writerly" },
+      );
+    }
+    if (this.hasWorkspaceFolderCapability) {
+      this.connection.workspace.onDidChangeWorkspaceFolders(() => {
+        void this.onDidChangeWorkspaceFolders();
+      });
+    }
+
+    void this.initializeAsync();
+  }
+
+  private async onDidChangeWorkspaceFolders(): Promise<void> {
+    const folders = await this.connection.workspace.getWorkspaceFolders();
+    this.workspace.setFolders(
+      (folders ?? []).map((folder) => ({
+        name: folder.name,
+        fsPath: this.toFsPath(folder.uri),
+      })),
+    );
+    await this.reset();
+  }
+
+  /**
+   * Performs a deep reset of the server's state and re-indexes the workspace.
+   */
+  private async reset(): Promise<void> {
+    this.handleIndex.reset();
+    this.writerlyDocuments = new WeakMap();
+    this.isInitialized = false;
+    for (const fsPath of new Set([
+      ...this.handleDiagnostics.keys(),
+      ...this.missingFileDiagnostics.keys(),
+      ...this.assemblyDiagnostics.keys(),
+      ...this.schemas.getSchemaFiles(),
+    ])) {
+      this.sendDiagnostics(fsPath, []);
+    }
+    this.handleDiagnostics.clear();
+    this.missingFileDiagnostics.clear();
+    this.assemblyDiagnostics.clear();
+    this.pendingAssemblyRoots.clear();
+    this.pendingMissingFileDocuments.clear();
+    this.pendingOpenDocumentUri = undefined;
+
+    for (const timer of [
+      this.revalidateTimer,
+      this.missingFileRevalidateTimer,
+      this.missingFileValidationTimer,
+      this.assemblyValidationTimer,
+      this.openDocumentProcessingTimer,
+      this.openDocumentRevalidationTimer,
+      this.loadFilesTimer,
+    ]) {
+      if (timer) clearTimeout(timer);
+    }
+    this.revalidateTimer = undefined;
+    this.missingFileRevalidateTimer = undefined;
+    this.missingFileValidationTimer = undefined;
+    this.assemblyValidationTimer = undefined;
+    this.openDocumentProcessingTimer = undefined;
+    this.openDocumentRevalidationTimer = undefined;
+    this.loadFilesTimer = undefined;
+
+    await this.initializeAsync();
+  }
+
+  private async initializeAsync(): Promise<void> {
+    try {
+      this.settings = await this.loadSettings();
+      this.handleIndex.setAllowedDecorators(
+        this.settings.allowedHandleDecorators,
+      );
+      await this.workspace.refresh();
+      this.handleIndex.refreshWriterlyContainers();
+      this.pathCompletion.loadFiles();
+      await this.schemas.refresh();
+      for (const schemaFsPath of this.schemas.getSchemaFiles()) {
+        this.publishSchemaFileDiagnostics(schemaFsPath);
+      }
+      await this.processAllDocuments();
+
+      const openWriterlyDocuments: [FSPath, WriterlyTextDocument][] = [];
+      for (const [fsPath, document] of this.getOpenWriterlyDocuments()) {
+        if (await this.shouldIndexOpenDocument(fsPath)) {
+          openWriterlyDocuments.push([fsPath, document]);
+          this.processDocument(fsPath, document);
+        }
+      }
+
+      this.isInitialized = true;
+
+      for (const [fsPath, document] of openWriterlyDocuments) {
+        this.processDocument(fsPath, document, false, true);
+      }
+
+      this.refreshCodeLenses();
+      this.scheduleOpenDocumentRevalidation();
+    } catch (error) {
+      console.error("WriterlyLanguageServer initialization failed:", error);
+    }
+  }
+
+  private async processAllDocuments(): Promise<void> {
+    for (const fsPath of this.workspace.getWriterlyFiles()) {
+      await this.processFile(fsPath);
+    }
+  }
+
+  private async loadSettings(): Promise<WriterlySettings> {
+    if (!this.hasConfigurationCapability) return this.settings;
+
+    const configuration = await this.connection.workspace.getConfiguration(
+      "writerly",
+    );
+    return this.toSettings(configuration);
+  }
+
+  private toSettings(configuration: unknown): WriterlySettings {
+    const values = (
+      typeof configuration === "object" && configuration !== null
+        ? configuration
+        : {}
+    ) as Partial<WriterlySettings> & {
+      diagnostics?: { severity?: unknown };
+    };
+    return {
+      enableUnusedHandleWarnings:
+        values.enableUnusedHandleWarnings ??
+        DEFAULT_WRITERLY_SETTINGS.enableUnusedHandleWarnings,
+      enableMissingFileWarnings:
+        values.enableMissingFileWarnings ??
+        DEFAULT_WRITERLY_SETTINGS.enableMissingFileWarnings,
+      allowedHandleDecorators: Array.isArray(values.allowedHandleDecorators)
+        ? values.allowedHandleDecorators.filter(
+            (decorator) => typeof decorator === "string",
+          )
+        : DEFAULT_WRITERLY_SETTINGS.allowedHandleDecorators,
+      diagnosticSeverities: toDiagnosticSeverities(
+        values.diagnostics?.severity,
+      ),
+    };
+  }
+
+  private async onDidChangeConfiguration(settings: unknown): Promise<void> {
+    const previous = this.settings;
+    this.settings = this.hasConfigurationCapability
+      ? await this.loadSettings()
+      : this.toSettings(
+          typeof settings === "object" &&
+            settings !== null &&
+            "writerly" in settings
+            ? settings.writerly
+            : undefined,
+        );
+
+    this.handleIndex.setAllowedDecorators(
+      this.settings.allowedHandleDecorators,
+    );
+
+    if (
+      previous.enableUnusedHandleWarnings !==
+        this.settings.enableUnusedHandleWarnings ||
+      previous.enableMissingFileWarnings !==
+        this.settings.enableMissingFileWarnings ||
+      previous.allowedHandleDecorators.join("\n") !==
+        this.settings.allowedHandleDecorators.join("\n")
+    ) {
+      // Re-validate all open documents to add/remove the warnings immediately
+      for (const [fsPath, document] of this.getOpenWriterlyDocuments()) {
+        this.processDocument(fsPath, document);
+      }
+    } else if (
+      JSON.stringify(previous.diagnosticSeverities) !==
+      JSON.stringify(this.settings.diagnosticSeverities)
+    ) {
+      const fsPaths = new Set([
+        ...this.handleDiagnostics.keys(),
+        ...this.missingFileDiagnostics.keys(),
+        ...this.assemblyDiagnostics.keys(),
+      ]);
+      fsPaths.forEach((fsPath) => this.publishDiagnostics(fsPath));
+      this.schemas
+        .getSchemaFiles()
+        .forEach((fsPath) => this.publishSchemaFileDiagnostics(fsPath));
+    }
+  }
+
+  private async shouldIndexOpenDocument(fsPath: FSPath): Promise<boolean> {
+    if (!isWriterlyFilePath(fsPath)) return false;
+    if (!this.workspace.isInWorkspace(fsPath)) return false;
+    if (await this.workspace.stat(fsPath)) {
+      return true;
+    }
+
+    this.deleteFile(fsPath);
+    return false;
+  }
+
+  private scheduleOpenDocumentRevalidation(): void {
+    if (this.openDocumentRevalidationTimer) {
+      clearTimeout(this.openDocumentRevalidationTimer);
+    }
+
+    this.openDocumentRevalidationTimer = setTimeout(() => {
+      void this.revalidateOpenDocuments();
+    }, 1000);
+  }
+
+  private async revalidateOpenDocuments(): Promise<void> {
+    this.openDocumentRevalidationTimer = undefined;
+
+    const openWriterlyDocuments: [FSPath, WriterlyTextDocument][] = [];
+    for (const [fsPath, document] of this.getOpenWriterlyDocuments()) {
+      if (await this.shouldIndexOpenDocument(fsPath)) {
+        openWriterlyDocuments.push([fsPath, document]);
+      }
+    }
+
+    for (const [fsPath, document] of openWriterlyDocuments) {
+      this.processDocument(fsPath, document, false, true);
+    }
+  }
+
+  private onDidChange(document: TextDocument): void {
+    // TextDocuments reports the initial content of an opened document as a
+    // change too; opening is handled by onDidOpen.
+    if (this.justOpenedUris.delete(document.uri)) return;
+
+    const fsPath = this.toFsPath(document.uri);
+    if (!isWriterlyFilePath(fsPath)) return;
+    this.processDocument(fsPath, this.toWriterlyDocument(document));
+  }
+
+  private onDidOpen(document: TextDocument): void {
+    this.justOpenedUris.add(document.uri);
+
+    if (!this.isInitialized) return;
+    if (!isWriterlyFilePath(this.toFsPath(document.uri))) return;
+    this.scheduleOpenDocumentProcessing(document.uri);
+    this.scheduleOpenDocumentRevalidation();
+  }
+
+  private scheduleOpenDocumentProcessing(uri: string): void {
+    this.pendingOpenDocumentUri = uri;
+    if (this.openDocumentProcessingTimer) {
+      clearTimeout(this.openDocumentProcessingTimer);
+    }
+
+    this.openDocumentProcessingTimer = setTimeout(() => {
+      void this.processPendingOpenDocument();
+    }, OPEN_DOCUMENT_PROCESSING_DELAY_MS);
+  }
+
+  private async processPendingOpenDocument(): Promise<void> {
+    this.openDocumentProcessingTimer = undefined;
+    const uri = this.pendingOpenDocumentUri;
+    this.pendingOpenDocumentUri = undefined;
+    if (!uri) return;
+
+    const document = this.documents.get(uri);
+    if (!document) return;
+
+    const fsPath = this.toFsPath(uri);
+    if (!(await this.shouldIndexOpenDocument(fsPath))) return;
+
+    this.processDocument(fsPath, this.toWriterlyDocument(document));
+  }
+
+  private async onDidChangeWatchedFile(
+    uri: string,
+    type: FileChangeType,
+  ): Promise<void> {
+    const fsPath = this.toFsPath(uri);
+
+    if (type === FileChangeType.Created) {
+      await this.workspace.addPath(fsPath);
+    } else if (type === FileChangeType.Deleted) {
+      this.workspace.removePath(fsPath);
+    }
+
+    if (type !== FileChangeType.Changed) {
+      this.scheduleLoadFiles();
+    }
+
+    if (WriterlySchemas.isSchemaFilePath(fsPath)) {
+      await this.onDidChangeSchemaFile(fsPath);
+      return;
+    }
+
+    if (!isWriterlyFilePath(fsPath)) {
+      this.triggerMissingFileRevalidation(fsPath);
+      return;
+    }
+
+    if (type === FileChangeType.Created) {
+      await this.createFile(fsPath);
+    } else if (type === FileChangeType.Deleted) {
+      this.deleteFile(fsPath);
+    } else {
+      await this.processFile(fsPath);
+    }
+  }
+
+  private async onDidRename(oldPath: FSPath, newPath: FSPath): Promise<void> {
+    this.workspace.removePath(oldPath);
+    await this.workspace.addPath(newPath);
+    this.scheduleLoadFiles();
+    for (const fsPath of [oldPath, newPath]) {
+      if (WriterlySchemas.isSchemaFilePath(fsPath)) {
+        await this.onDidChangeSchemaFile(fsPath);
+      }
+    }
+
+    if (isWriterlyFilePath(oldPath) && isWriterlyFilePath(newPath)) {
+      this.renameFile(oldPath, newPath);
+    } else if (isWriterlyFilePath(oldPath)) {
+      this.deleteFile(oldPath);
+    } else if (isWriterlyFilePath(newPath)) {
+      await this.createFile(newPath);
+    }
+  }
+
+  private async onDidDelete(fsPath: FSPath): Promise<void> {
+    this.workspace.removePath(fsPath);
+    this.scheduleLoadFiles();
+    if (WriterlySchemas.isSchemaFilePath(fsPath)) {
+      await this.onDidChangeSchemaFile(fsPath);
+    }
+
+    if (isWriterlyFilePath(fsPath)) {
+      this.deleteFile(fsPath);
+    }
+  }
+
+  private async onDidCreate(fsPath: FSPath): Promise<void> {
+    await this.workspace.addPath(fsPath);
+    this.scheduleLoadFiles();
+    if (WriterlySchemas.isSchemaFilePath(fsPath)) {
+      await this.onDidChangeSchemaFile(fsPath);
+    }
+
+    if (isWriterlyFilePath(fsPath)) {
+      await this.createFile(fsPath);
+    }
+  }
+
+  /**
+   * Reloads a created, changed or deleted schema file and revalidates the open
+   * documents, since any of them may be governed by it.
+   */
+  private async onDidChangeSchemaFile(fsPath: FSPath): Promise<void> {
+    await this.schemas.reload(fsPath);
+    this.publishSchemaFileDiagnostics(fsPath);
+    if (!this.isInitialized) return;
+
+    for (const [openFsPath, document] of this.getOpenWriterlyDocuments()) {
+      this.processDocument(openFsPath, document, false, true);
+    }
+  }
+
+  /**
+   * Rebuilds the path completion tree, debounced to avoid jitter during bulk
+   * file operations.
+   */
+  private scheduleLoadFiles(): void {
+    if (this.loadFilesTimer) clearTimeout(this.loadFilesTimer);
+
+    this.loadFilesTimer = setTimeout(() => {
+      this.loadFilesTimer = undefined;
+      this.pathCompletion.loadFiles();
+    }, 300);
+  }
+
+  private renameFile(oldPath: FSPath, newPath: FSPath): void {
+    this.handleIndex.renameFile(oldPath, newPath);
+  }
+
+  private deleteFile(fsPath: FSPath): void {
+    this.handleIndex.removeFile(fsPath);
+    this.handleDiagnostics.delete(fsPath);
+    this.missingFileDiagnostics.delete(fsPath);
+    this.assemblyDiagnostics.delete(fsPath);
+    this.handleValidations.delete(fsPath);
+    this.pendingMissingFileDocuments.delete(fsPath);
+    this.sendDiagnostics(fsPath, []);
+
+    if (this.isInitialized) {
+      this.triggerTreeRevalidation(fsPath);
+      this.queueAssemblyValidation(fsPath);
+    }
+  }
+
+  private async createFile(fsPath: FSPath): Promise<void> {
+    this.handleIndex.refreshWriterlyContainers();
+    await this.processFile(fsPath);
+  }
+
+  private async processFile(fsPath: FSPath): Promise<void> {
+    if (!isWriterlyFilePath(fsPath)) return;
+
+    try {
+      const document = await this.readDocument(fsPath);
+      this.processDocument(fsPath, document);
+    } catch (error) {
+      console.error(`Failed to process document ${fsPath}:`, error);
+    }
+  }
+
+  private processDocument(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    triggerRevalidation: boolean = true,
+    validateUnusedHandles: boolean = false,
+  ): void {
+    const diagnostics = [
+      ...this.handleIndex.indexDocument(fsPath, document),
+      ...this.schemas.validateDocument(
+        fsPath,
+        document,
+        this.handleIndex.getHandleOccurrences(fsPath).definitions,
+      ),
+    ];
+
+    if (this.isInitialized) {
+      const validateUnused =
+        validateUnusedHandles && this.settings.enableUnusedHandleWarnings;
+      diagnostics.push(
+        ...this.handleIndex.validateDocument(fsPath, validateUnused),
+      );
+      this.handleValidations.set(fsPath, validateUnused);
+
+      if (triggerRevalidation) {
+        this.triggerTreeRevalidation(fsPath);
+      }
+    }
+
+    this.handleDiagnostics.set(fsPath, diagnostics);
+    this.publishDiagnostics(fsPath);
+    if (this.isInitialized) {
+      this.queueMissingFileValidation(fsPath, document);
+      this.queueAssemblyValidation(fsPath);
+    }
+  }
+
+  /**
+   * Revalidates the assembled document tree of a changed file once changes
+   * pause. The whole tree is read, so this waits longer than the checks of
+   * single files.
+   */
+  private queueAssemblyValidation(fsPath: FSPath, delayMs = 750): void {
+    const rootDir = this.assemblyValidation.getRoot(fsPath);
+    if (!rootDir) return;
+
+    this.pendingAssemblyRoots.add(rootDir);
+    if (this.assemblyValidationTimer) {
+      clearTimeout(this.assemblyValidationTimer);
+    }
+    this.assemblyValidationTimer = setTimeout(() => {
+      void this.runPendingAssemblyValidation();
+    }, delayMs);
+  }
+
+  private async runPendingAssemblyValidation(): Promise<void> {
+    const rootDirs = [...this.pendingAssemblyRoots];
+    this.pendingAssemblyRoots.clear();
+    this.assemblyValidationTimer = undefined;
+
+    for (const rootDir of rootDirs) {
+      const results = await this.assemblyValidation.validateTree(rootDir);
+      for (const fsPath of this.assemblyDiagnostics.keys()) {
+        if (isPathUnderDirectory(fsPath, rootDir) && !results.has(fsPath)) {
+          results.set(fsPath, []);
+        }
+      }
+
+      for (const [fsPath, diagnostics] of results) {
+        const previous = this.assemblyDiagnostics.get(fsPath) ?? [];
+        if (previous.length === 0 && diagnostics.length === 0) continue;
+
+        if (diagnostics.length > 0) {
+          this.assemblyDiagnostics.set(fsPath, diagnostics);
+        } else {
+          this.assemblyDiagnostics.delete(fsPath);
+        }
+        this.publishDiagnostics(fsPath);
+      }
+    }
+  }
+
+  private queueMissingFileValidation(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    delayMs = 750,
+  ): void {
+    if (!isWriterlyFilePath(fsPath)) return;
+    if (!this.settings.enableMissingFileWarnings) {
+      if (this.missingFileDiagnostics.delete(fsPath)) {
+        this.publishDiagnostics(fsPath);
+      }
+      return;
+    }
+
+    this.pendingMissingFileDocuments.set(fsPath, document);
+    if (this.missingFileValidationTimer) {
+      clearTimeout(this.missingFileValidationTimer);
+    }
+    this.missingFileValidationTimer = setTimeout(() => {
+      void this.runPendingMissingFileValidation();
+    }, delayMs);
+  }
+
+  private async runPendingMissingFileValidation(): Promise<void> {
+    const documents = [...this.pendingMissingFileDocuments];
+    this.pendingMissingFileDocuments.clear();
+    this.missingFileValidationTimer = undefined;
+
+    if (!this.settings.enableMissingFileWarnings) {
+      const fsPaths = [...this.missingFileDiagnostics.keys()];
+      this.missingFileDiagnostics.clear();
+      fsPaths.forEach((fsPath) => this.publishDiagnostics(fsPath));
+      return;
+    }
+
+    for (const [fsPath, document] of documents) {
+      const diagnostics = await this.handleIndex.collectMissingFileDiagnostics(
+        fsPath,
+        document,
+      );
+      this.missingFileDiagnostics.set(fsPath, diagnostics);
+      this.publishDiagnostics(fsPath);
+    }
+  }
+
+  private triggerTreeRevalidation(originFsPath: FSPath): void {
+    if (this.revalidateTimer) {
+      clearTimeout(this.revalidateTimer);
+    }
+
+    this.revalidateTimer = setTimeout(() => {
+      this.revalidateTimer = undefined;
+
+      // we only update diagnostics for open documents; closed documents are
+      // validated when the user opens them. triggerRevalidation is false to
+      // prevent infinite loops
+      for (const [fsPath, document] of this.getOpenWriterlyDocuments()) {
+        if (this.handleIndex.isInSameDocumentTree(originFsPath, fsPath)) {
+          this.processDocument(fsPath, document, false, true);
+        }
+      }
+      this.refreshCodeLenses();
+    }, 300);
+  }
+
+  /**
+   * Asks the client to re-request code lenses, whose reference counts change
+   * when another file of the document tree changes.
+   */
+  private refreshCodeLenses(): void {
+    if (!this.hasCodeLensRefreshCapability) return;
+    void this.connection.sendRequest(CodeLensRefreshRequest.type);
+  }
+
+  private triggerMissingFileRevalidation(fsPath: FSPath): void {
+    if (isWriterlyFilePath(fsPath)) return;
+    if (this.shouldIgnoreAssetWatcherPath(fsPath)) return;
+    if (!this.settings.enableMissingFileWarnings) return;
+
+    if (this.missingFileRevalidateTimer) {
+      clearTimeout(this.missingFileRevalidateTimer);
+    }
+
+    this.missingFileRevalidateTimer = setTimeout(() => {
+      this.missingFileRevalidateTimer = undefined;
+      for (const [openFsPath, document] of this.getOpenWriterlyDocuments()) {
+        this.queueMissingFileValidation(openFsPath, document, 1000);
+      }
+    }, 1000);
+  }
+
+  private shouldIgnoreAssetWatcherPath(fsPath: FSPath): boolean {
+    const parts = path.resolve(fsPath).split(path.sep);
+    return parts.some((part) =>
+      ["node_modules", ".git", "dist", "build", "out"].includes(part),
+    );
+  }
+
+  private async getHandleUsages(
+    params: HandleUsagesParams,
+  ): Promise<HandleUsagesResult> {
+    if (!this.isInitialized) return { kind: "indexing" };
+
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) return { kind: "noHandle" };
+
+    const result = this.handleIndex.getHandleUsagesAt(
+      this.toFsPath(params.textDocument.uri),
+      this.toWriterlyDocument(document),
+      params.position,
+    );
+    if (!result) return { kind: "noHandle" };
+
+    return {
+      kind: "ok",
+      handleName: result.handleName,
+      usages: await Promise.all(
+        result.usages.map(async (usage) => ({
+          uri: URI.file(usage.fsPath).toString(),
+          range: usage.range,
+          displayPath: this.workspace.getDisplayPath(usage.fsPath),
+          preview: await this.getLinePreview(
+            usage.fsPath,
+            usage.range.start.line,
+          ),
+        })),
+      ),
+    };
+  }
+
+  private async getHandleDefinitionTargets(
+    params: HandleDefinitionTargetsParams,
+  ): Promise<HandleDefinitionTargetsResult> {
+    if (!this.isInitialized) return { kind: "indexing" };
+
+    return {
+      kind: "ok",
+      targets: await this.handleDefinitionTargets.getTargets(
+        this.toFsPath(params.textDocument.uri),
+        params.handleName,
+        params.position,
+      ),
+    };
+  }
+
+  private getHandleGraph(params: HandleGraphParams): HandleGraphResult {
+    if (!this.isInitialized) return { kind: "indexing" };
+
+    const graph = this.handleGraph.getGraph(
+      this.toFsPath(params.textDocument.uri),
+    );
+    return graph ? { kind: "ok", graph } : { kind: "noTree" };
+  }
+
+  private async getUnusedHandles(
+    params: UnusedHandlesParams,
+  ): Promise<UnusedHandlesResult> {
+    if (!this.isInitialized) return { kind: "indexing" };
+
+    const fsPaths = params.textDocument
+      ? this.getDocumentTreeFiles(this.toFsPath(params.textDocument.uri))
+      : this.handleIndex.getIndexedFiles().sort();
+    return {
+      kind: "ok",
+      definitions: await this.unusedHandles.getUnusedDefinitions(fsPaths),
+    };
+  }
+
+  /**
+   * Clients without change annotations get the plain edits of a rename.
+   */
+  private toConfirmedRenameEdit(
+    rename: Extract<HandleRename, { kind: "edits" }>,
+  ): WorkspaceEdit {
+    if (!this.hasChangeAnnotationCapability) return rename.edit;
+
+    return toConfirmedRenameEdit(
+      rename,
+      (uri) => this.documents.get(uri)?.version ?? null,
+    );
+  }
+
+  private async getLinePreview(fsPath: FSPath, line: number): Promise<string> {
+    try {
+      const document = await this.readDocument(fsPath);
+      return document.lineAt(line).text.trim();
+    } catch {
+      return "";
+    }
+  }
+
+  private publishDiagnostics(fsPath: FSPath): void {
+    const diagnostics = this.handleIndex.applySuppressions(
+      fsPath,
+      [
+        ...(this.handleDiagnostics.get(fsPath) ?? []),
+        ...(this.missingFileDiagnostics.get(fsPath) ?? []),
+        ...(this.assemblyDiagnostics.get(fsPath) ?? []),
+      ],
+      (code) => this.isDiagnosticCodeChecked(fsPath, code),
+    );
+    this.sendDiagnostics(
+      fsPath,
+      applyDiagnosticSeverities(diagnostics, this.settings.diagnosticSeverities),
+    );
+  }
+
+  private publishSchemaFileDiagnostics(schemaFsPath: FSPath): void {
+    this.sendDiagnostics(
+      schemaFsPath,
+      applyDiagnosticSeverities(
+        this.schemas.getSchemaFileDiagnostics(schemaFsPath),
+        this.settings.diagnosticSeverities,
+      ),
+    );
+  }
+
+  /**
+   * Whether the last published diagnostics of a file include the checks for
+   * `code`; directives naming codes that were not checked are not reported
+   * as unused.
+   */
+  private isDiagnosticCodeChecked(
+    fsPath: FSPath,
+    code: WriterlyDiagnosticCode,
+  ): boolean {
+    if (this.settings.diagnosticSeverities[code] === "off") return false;
+
+    switch (getDiagnosticCategory(code)) {
+      case "files":
+        return this.missingFileDiagnostics.has(fsPath);
+      case "schema":
+        return this.schemas.getSchema(fsPath) !== undefined;
+      case "handles":
+        return code === "handle-unused"
+          ? this.handleValidations.get(fsPath) === true
+          : this.handleValidations.has(fsPath);
+      default:
+        return true;
+    }
+  }
+
+  private sendDiagnostics(fsPath: FSPath, diagnostics: Diagnostic[]): void {
+    void this.connection.sendDiagnostics({
+      uri: this.getOpenDocument(fsPath)?.uri ?? URI.file(fsPath).toString(),
+      diagnostics,
+    });
+  }
+
+  private getOpenDocument(fsPath: FSPath): TextDocument | undefined {
+    return this.documents
+      .all()
+      .find((document) => this.toFsPath(document.uri) === fsPath);
+  }
+
+  private getOpenWriterlyDocuments(): [FSPath, WriterlyTextDocument][] {
+    const openDocuments: [FSPath, WriterlyTextDocument][] = [];
+    for (const document of this.documents.all()) {
+      const fsPath = this.toFsPath(document.uri);
+      if (isWriterlyFilePath(fsPath)) {
+        openDocuments.push([fsPath, this.toWriterlyDocument(document)]);
+      }
+    }
+    return openDocuments;
+  }
+
+  private getDocumentTreeFiles(fsPath: FSPath): FSPath[] {
+    return this.handleIndex
+      .getIndexedFiles()
+      .filter((other) => this.handleIndex.isInSameDocumentTree(fsPath, other))
+      .sort();
+  }
+
+  private getDocumentUri(fsPath: FSPath): string {
+    return this.getOpenDocument(fsPath)?.uri ?? URI.file(fsPath).toString();
+  }
+
+  /**
+   * Returns the open document for `fsPath`, or a snapshot of the file on disk.
+   */
+  private async readDocument(fsPath: FSPath): Promise<WriterlyTextDocument> {
+    const openDocument = this.getOpenDocument(fsPath);
+    if (openDocument) return this.toWriterlyDocument(openDocument);
+
+    return new WriterlyTextSnapshot(await this.workspace.readFile(fsPath));
+  }
+
+  /**
+   * Adapts an open LSP document to the line-based document the parser reads.
+   * TextDocuments updates documents in place, so one adapter serves every
+   * version and the parser's per-document cache keeps working across edits.
+   */
+  private toWriterlyDocument(document: TextDocument): WriterlyTextDocument {
+    let writerlyDocument = this.writerlyDocuments.get(document);
+    if (!writerlyDocument) {
+      writerlyDocument = {
+        get version() {
+          return document.version;
+        },
+        get lineCount() {
+          return document.lineCount;
+        },
+        lineAt: (line: number) => ({
+          text: document
+            .getText(Range.create(line, 0, line + 1, 0))
+            .replace(LINE_BREAK_SUFFIX_REGEX, ""),
+        }),
+        get lineEnding() {
+          return (
+            LINE_BREAK_SUFFIX_REGEX.exec(
+              document.getText(Range.create(0, 0, 1, 0)),
+            )?.[0] ?? "\n"
+          );
+        },
+      };
+      this.writerlyDocuments.set(document, writerlyDocument);
+    }
+    return writerlyDocument;
+  }
+
+  private toFsPath(uri: string): FSPath {
+    return URI.parse(uri).fsPath;
+  }
+}
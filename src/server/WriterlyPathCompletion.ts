@@ -0,0 +1,288 @@
+import * as path from "path";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  MarkupKind,
+  Position,
+  Range,
+  TextEdit,
+} from "vscode-languageserver-types";
+import { URI } from "vscode-uri";
+import { isImageFilePath } from "../WriterlyFileExtensions";
+import { getPathCompletionContext } from "../WriterlyPathCompletionContext";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import { rangeUtils } from "../utils/range-utils";
+import type { WriterlyWorkspace } from "./WriterlyWorkspace";
+
+interface FileNode {
+  name: string;
+  type: "file" | "directory";
+  fullPath: string;
+  fsPath?: string;
+  children: FileNode[];
+}
+
+type IndexedPath = {
+  relativePath: string;
+  fsPath: string;
+};
+
+/**
+ * Preserves the file path of a completion item for the resolution phase.
+ */
+type FileCompletionData = {
+  fsPath?: string;
+  nodeType: "file" | "directory";
+};
+
+/*
+ * WriterlyPathCompletion suggests workspace files and directories while a path
+ * is typed into a path-bearing attribute or a markdown link. Files are kept in
+ * a tree mirroring the workspace, plus a lowercase name lookup so a bare file
+ * name can be completed from anywhere in the workspace.
+ */
+export class WriterlyPathCompletion {
+  private fileTree: FileNode[] = [];
+  private nameToNodesMap: Map<string, FileNode[]> = new Map();
+
+  constructor(private readonly workspace: WriterlyWorkspace) {}
+
+  /**
+   * Rebuilds the tree and the fast-lookup index from the workspace index.
+   */
+  public loadFiles(): void {
+    this.fileTree = this.buildFileTree(this.getAllIndexedPaths());
+    this.rebuildLookupMap();
+  }
+
+  private buildFileTree(paths: IndexedPath[]): FileNode[] {
+    const root: FileNode[] = [];
+    for (const indexedPath of paths) {
+      const parts = indexedPath.relativePath.split("/");
+      let currentLevel = root;
+      let accumulatedPath = "";
+
+      for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        const isFile = i === parts.length - 1;
+        accumulatedPath = accumulatedPath ? `${accumulatedPath}/${part}` : part;
+
+        let existingNode = isFile
+          ? undefined
+          : currentLevel.find((node) => node.name === part);
+        if (!existingNode) {
+          existingNode = {
+            name: part,
+            type: isFile ? "file" : "directory",
+            fullPath: accumulatedPath,
+            fsPath: isFile ? indexedPath.fsPath : undefined,
+            children: [],
+          };
+          currentLevel.push(existingNode);
+        }
+        currentLevel = existingNode.children;
+      }
+    }
+    return root;
+  }
+
+  private rebuildLookupMap(): void {
+    this.nameToNodesMap.clear();
+    const stack: FileNode[] = [...this.fileTree];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      const key = node.name.toLowerCase();
+      const existing = this.nameToNodesMap.get(key) || [];
+      existing.push(node);
+      this.nameToNodesMap.set(key, existing);
+      if (node.children.length > 0) stack.push(...node.children);
+    }
+  }
+
+  private getAllIndexedPaths(): IndexedPath[] {
+    return this.workspace
+      .getFiles()
+      .filter((fsPath) => !path.basename(fsPath).startsWith("."))
+      .map((fsPath) => ({
+        relativePath: this.workspace.asRelativePath(fsPath),
+        fsPath,
+      }));
+  }
+
+  public getCompletionItems(
+    fsPath: string,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): CompletionItem[] | undefined {
+    const completionContext = getPathCompletionContext(document, position);
+    if (!completionContext) return undefined;
+
+    const fullTypedPath = completionContext.fullTypedPath;
+    const parts = fullTypedPath.split("/");
+    const currentSearch = parts[parts.length - 1].toLowerCase();
+    const lockedSegments = parts.slice(0, -1);
+
+    let candidateNodes: FileNode[] = [];
+
+    if (lockedSegments.length === 0) {
+      candidateNodes = this.searchNodesByMap(currentSearch);
+    } else {
+      const matchingContexts = this.findNodesBySequence(lockedSegments);
+      for (const node of matchingContexts) {
+        for (const child of node.children) {
+          if (child.name.toLowerCase().startsWith(currentSearch)) {
+            candidateNodes.push(child);
+          }
+        }
+      }
+    }
+
+    const sortedNodes = this.sortNodesByCloseness(
+      this.dedupeCandidateNodes(candidateNodes),
+      fsPath,
+    );
+    return sortedNodes.map((node) =>
+      this.createCompletionItem(node, position, currentSearch),
+    );
+  }
+
+  private searchNodesByMap(search: string): FileNode[] {
+    const found: FileNode[] = [];
+    for (const [name, nodes] of this.nameToNodesMap) {
+      if (name.includes(search)) {
+        found.push(...nodes);
+      }
+    }
+    return found;
+  }
+
+  private findNodesBySequence(sequence: string[]): FileNode[] {
+    const startNodes = this.nameToNodesMap.get(sequence[0].toLowerCase()) || [];
+    const matches: FileNode[] = [];
+
+    for (const startNode of startNodes) {
+      let walker: FileNode | undefined = startNode;
+      for (let i = 1; i < sequence.length; i++) {
+        const target = sequence[i].toLowerCase();
+        walker = walker?.children.find((c) => c.name.toLowerCase() === target);
+        if (!walker) break;
+      }
+      if (walker) matches.push(walker);
+    }
+    return matches;
+  }
+
+  private dedupeCandidateNodes(nodes: FileNode[]): FileNode[] {
+    const seen = new Set<string>();
+    return nodes.filter((node) => {
+      const key = node.fsPath ?? `${node.type}:${node.fullPath}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private sortNodesByCloseness(
+    nodes: FileNode[],
+    currentFsPath: string,
+  ): FileNode[] {
+    return [...nodes].sort((a, b) => {
+      const closenessDelta =
+        this.commonAncestorDepth(b.fsPath, currentFsPath) -
+        this.commonAncestorDepth(a.fsPath, currentFsPath);
+      if (closenessDelta !== 0) return closenessDelta;
+      return a.fullPath.localeCompare(b.fullPath);
+    });
+  }
+
+  private commonAncestorDepth(
+    candidateFsPath: string | undefined,
+    currentFsPath: string,
+  ): number {
+    if (!candidateFsPath) return -1;
+
+    const candidateParts = path.dirname(candidateFsPath).split(path.sep);
+    const currentParts = path.dirname(currentFsPath).split(path.sep);
+    let depth = 0;
+
+    while (
+      depth < candidateParts.length &&
+      depth < currentParts.length &&
+      candidateParts[depth] === currentParts[depth]
+    ) {
+      depth++;
+    }
+
+    return depth;
+  }
+
+  private createCompletionItem(
+    node: FileNode,
+    position: Position,
+    currentSearch: string,
+  ): CompletionItem {
+    const isDir = node.type === "directory";
+    const item = CompletionItem.create(node.name);
+    item.kind = isDir ? CompletionItemKind.Folder : CompletionItemKind.File;
+    const data: FileCompletionData = {
+      fsPath: node.fsPath,
+      nodeType: node.type,
+    };
+    item.data = data;
+
+    const pathParts = node.fullPath.split("/");
+    if (pathParts.length > 1) {
+      item.detail = `in ${pathParts.slice(0, -1).join(" › ")}`;
+    }
+    const workspaceFolder = node.fsPath
+      ? this.workspace.getWorkspaceFolder(node.fsPath)
+      : undefined;
+    if (workspaceFolder) {
+      item.detail = item.detail
+        ? `${item.detail} (${workspaceFolder.name})`
+        : `in ${workspaceFolder.name}`;
+    }
+
+    const startPos = rangeUtils.translate(position, 0, -currentSearch.length);
+    item.textEdit = TextEdit.replace(
+      Range.create(startPos, position),
+      isDir ? node.name + "/" : node.name,
+    );
+    item.sortText = `${isDir ? "0" : "1"}_${node.name}`;
+
+    if (isDir) {
+      item.command = {
+        command: "editor.action.triggerSuggest",
+        title: "Re-trigger",
+      };
+    }
+
+    return item;
+  }
+
+  /**
+   * Returns true for items created by this class, whose resolution is handled
+   * by resolveCompletionItem.
+   */
+  public isPathCompletionItem(item: CompletionItem): boolean {
+    const data = item.data as FileCompletionData | undefined;
+    return data?.nodeType === "file" || data?.nodeType === "directory";
+  }
+
+  public resolveCompletionItem(item: CompletionItem): CompletionItem {
+    const data = item.data as FileCompletionData | undefined;
+    if (data?.nodeType !== "file") {
+      return item;
+    }
+
+    if (data.fsPath && isImageFilePath(data.fsPath)) {
+      item.documentation = {
+        kind: MarkupKind.Markdown,
+        value: `![Preview](${URI.file(data.fsPath).toString()})`,
+      };
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  MarkupKind,
+  Range,
+  TextEdit,
+  type Position,
+} from "vscode-languageserver-types";
+import { LineType, Zone } from "../WriterlyDocumentWalker";
+import { WriterlyParser, type WriterlyTagNode } from "../WriterlyParser";
+import {
+  describeValueType,
+  type WriterlySchemaAttribute,
+  type WriterlySchemaTag,
+} from "../WriterlySchema";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import type { WriterlySchemas } from "./WriterlySchemas";
+
+type FSPath = string;
+
+// "|> sec", "|>"
+const TAG_PREFIX_REGEX = /^ *\|>(\s*)([-a-zA-Z0-9._:]*)$/;
+// "    ti"
+const ATTRIBUTE_KEY_PREFIX_REGEX = /^( *)([a-zA-Z_][-a-zA-Z0-9._:]*)?$/;
+// "    kind=in"
+const ATTRIBUTE_VALUE_PREFIX_REGEX = /^ *([a-zA-Z_][-a-zA-Z0-9._:]*)=(\s*)(\S*)$/;
+
+/*
+ * WriterlySchemaCompletion completes from the tag schema governing a file:
+ * tag names after `|>`, limited to the tags the enclosing tag allows;
+ * attribute keys in a tag's attribute zone, leaving out the ones the tag
+ * already has and listing required ones first; and the values of enum and
+ * boolean attributes.
+ */
+export class WriterlySchemaCompletion {
+  constructor(private readonly schemas: WriterlySchemas) {}
+
+  public getCompletionItems(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    position: Position,
+  ): CompletionItem[] | undefined {
+    const schema = this.schemas.getSchema(fsPath);
+    if (!schema?.declaresTags) return undefined;
+
+    const tree = WriterlyParser.parse(document);
+    const line = tree.lineAt(position.line);
+    if (!line) return undefined;
+    const linePrefix = line.text.substring(0, position.character);
+
+    if (line.lineType === LineType.Tag) {
+      const match = TAG_PREFIX_REGEX.exec(linePrefix);
+      const owner = tree.ownerAt(position.line);
+      if (!match || !owner) return undefined;
+
+      const range = Range.create(
+        position.line,
+        position.character - match[2].length,
+        position.line,
+        position.character,
+      );
+      return schema
+        .getAllowedChildTags(owner)
+        .map((name) =>
+          this.createTagItem(schema.getTag(name)!, range, match[1] === ""),
+        );
+    }
+
+    if (line.lineType === LineType.Attribute) {
+      const match = ATTRIBUTE_VALUE_PREFIX_REGEX.exec(linePrefix);
+      const tag = tree.getTagAt(position.line);
+      if (!match || !tag) return undefined;
+
+      const attribute = schema.getTag(tag.name)?.attributes.get(match[1]);
+      if (!attribute) return undefined;
+      const range = Range.create(
+        position.line,
+        position.character - match[3].length,
+        position.line,
+        position.character,
+      );
+      return this.getValueItems(attribute, range);
+    }
+
+    if (line.stateBeforeLine.zone === Zone.Attribute && position.line > 0) {
+      const match = ATTRIBUTE_KEY_PREFIX_REGEX.exec(linePrefix);
+      if (!match || match[1].length !== line.stateBeforeLine.maxIndent) {
+        return undefined;
+      }
+
+      const tag = tree.getTagAt(position.line - 1);
+      const schemaTag = tag && schema.getTag(tag.name);
+      if (!tag || !schemaTag) return undefined;
+
+      const range = Range.create(
+        position.line,
+        match[1].length,
+        position.line,
+        position.character,
+      );
+      return this.getKeyItems(tag, schemaTag, range);
+    }
+
+    return undefined;
+  }
+
+  private createTagItem(
+    schemaTag: WriterlySchemaTag,
+    range: Range,
+    needsSpace: boolean,
+  ): CompletionItem {
+    const required = [...schemaTag.attributes.values()]
+      .filter((attribute) => attribute.required)
+      .map((attribute) => `\`${attribute.key}\``);
+    const documentation = [
+      schemaTag.description,
+      required.length > 0 ? `Required attributes: ${required.join(", ")}` : "",
+    ].filter(Boolean);
+
+    const item = CompletionItem.create(schemaTag.name);
+    item.kind = CompletionItemKind.Class;
+    item.detail = "Writerly tag";
+    item.textEdit = TextEdit.replace(
+      range,
+      needsSpace ? ` ${schemaTag.name}` : schemaTag.name,
+    );
+    if (documentation.length > 0) {
+      item.documentation = {
+        kind: MarkupKind.Markdown,
+        value: documentation.join("\n\n"),
+      };
+    }
+    return item;
+  }
+
+  private getKeyItems(
+    tag: WriterlyTagNode,
+    schemaTag: WriterlySchemaTag,
+    range: Range,
+  ): CompletionItem[] {
+    const presentKeys = new Set(
+      tag.attributes
+        .filter((attribute) => attribute.range.start.line !== range.start.line)
+        .map((attribute) => attribute.key),
+    );
+
+    const items: CompletionItem[] = [];
+    for (const attribute of schemaTag.attributes.values()) {
+      if (presentKeys.has(attribute.key)) continue;
+
+      const item = CompletionItem.create(attribute.key);
+      item.kind = CompletionItemKind.Property;
+      item.detail = `${attribute.required ? "required" : "optional"}, ${describeValueType(attribute)}`;
+      item.textEdit = TextEdit.replace(range, `${attribute.key}=`);
+      item.sortText = `${attribute.required ? 0 : 1}${attribute.key}`;
+      if (attribute.description) {
+        item.documentation = {
+          kind: MarkupKind.Markdown,
+          value: attribute.description,
+        };
+      }
+      if (this.getValues(attribute).length > 0) {
+        item.command = {
+          title: "Suggest values",
+          command: "editor.action.triggerSuggest",
+        };
+      }
+      items.push(item);
+    }
+    return items;
+  }
+
+  private getValueItems(
+    attribute: WriterlySchemaAttribute,
+    range: Range,
+  ): CompletionItem[] | undefined {
+    const values = this.getValues(attribute);
+    if (values.length === 0) return undefined;
+
+    return values.map((value) => {
+      const item = CompletionItem.create(value);
+      item.kind = CompletionItemKind.EnumMember;
+      item.textEdit = TextEdit.replace(range, value);
+      return item;
+    });
+  }
+
+  private getValues(attribute: WriterlySchemaAttribute): string[] {
+    if (attribute.type === "boolean") return ["true", "false"];
+    return attribute.type === "enum" ? attribute.values : [];
+  }
+}
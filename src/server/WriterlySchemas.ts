@@ -0,0 +1,145 @@
+import * as path from "path";
+import { Range, type Diagnostic } from "vscode-languageserver-types";
+import { createWriterlyDiagnostic } from "../WriterlyDiagnostics";
+import { WriterlyParser } from "../WriterlyParser";
+import {
+  WRITERLY_SCHEMA_FILE_NAME,
+  WriterlySchema,
+  WriterlySchemaError,
+  type WriterlyHandleDefinition,
+} from "../WriterlySchema";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import type { WriterlyWorkspace } from "./WriterlyWorkspace";
+
+type FSPath = string;
+
+type SchemaFile =
+  | { kind: "valid"; schema: WriterlySchema }
+  | { kind: "invalid"; diagnostic: Diagnostic };
+
+/*
+ * WriterlySchemas loads the `writerly.schema.json` files of the workspace and
+ * tells which one governs a Writerly file: the schema in the file's directory
+ * or in its closest ancestor directory inside the workspace folder. Files
+ * without such a schema get no schema checks. A schema file that fails to
+ * parse governs its directories all the same, so documents are not checked
+ * against a more distant schema meanwhile; it reports a `schema-invalid`
+ * diagnostic instead.
+ */
+export class WriterlySchemas {
+  // keyed by the directory holding the schema file
+  private schemaFiles = new Map<FSPath, SchemaFile>();
+
+  constructor(private readonly workspace: WriterlyWorkspace) {}
+
+  public static isSchemaFilePath(fsPath: FSPath): boolean {
+    return path.basename(fsPath) === WRITERLY_SCHEMA_FILE_NAME;
+  }
+
+  /**
+   * Re-reads every schema file of the workspace index.
+   */
+  public async refresh(): Promise<void> {
+    this.schemaFiles.clear();
+    for (const fsPath of this.workspace.getFiles()) {
+      if (WriterlySchemas.isSchemaFilePath(fsPath)) await this.reload(fsPath);
+    }
+  }
+
+  /**
+   * Re-reads one schema file after it was created, changed or deleted.
+   */
+  public async reload(fsPath: FSPath): Promise<void> {
+    const directory = path.dirname(fsPath);
+    let text: string;
+    try {
+      text = await this.workspace.readFile(fsPath);
+    } catch {
+      this.schemaFiles.delete(directory);
+      return;
+    }
+
+    try {
+      this.schemaFiles.set(directory, {
+        kind: "valid",
+        schema: WriterlySchema.parse(text),
+      });
+    } catch (error) {
+      if (!(error instanceof WriterlySchemaError)) throw error;
+      this.schemaFiles.set(directory, {
+        kind: "invalid",
+        diagnostic: createWriterlyDiagnostic(
+          this.getErrorRange(text, error.offset),
+          `Invalid tag schema: ${error.message}`,
+          "schema-invalid",
+        ),
+      });
+    }
+  }
+
+  public getSchemaFiles(): FSPath[] {
+    return [...this.schemaFiles.keys()]
+      .map((directory) => path.join(directory, WRITERLY_SCHEMA_FILE_NAME))
+      .sort();
+  }
+
+  /**
+   * Returns the schema governing a Writerly file, if it is valid.
+   */
+  public getSchema(fsPath: FSPath): WriterlySchema | undefined {
+    const schemaFile = this.getSchemaFile(fsPath);
+    return schemaFile?.kind === "valid" ? schemaFile.schema : undefined;
+  }
+
+  /**
+   * Returns the `schema-invalid` diagnostics of a schema file.
+   */
+  public getSchemaFileDiagnostics(schemaFsPath: FSPath): Diagnostic[] {
+    const schemaFile = this.schemaFiles.get(path.dirname(schemaFsPath));
+    return schemaFile?.kind === "invalid" ? [schemaFile.diagnostic] : [];
+  }
+
+  /**
+   * Returns the schema diagnostics of a Writerly file, or an empty list when
+   * no valid schema governs it. `handleDefinitions` are the handles the file
+   * defines, checked against the naming rules of the schema.
+   */
+  public validateDocument(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    handleDefinitions: readonly WriterlyHandleDefinition[],
+  ): Diagnostic[] {
+    const schema = this.getSchema(fsPath);
+    if (!schema) return [];
+
+    return [
+      ...schema.validate(WriterlyParser.parse(document)),
+      ...schema.validateHandleNames(fsPath, handleDefinitions),
+    ];
+  }
+
+  private getSchemaFile(fsPath: FSPath): SchemaFile | undefined {
+    const folder = this.workspace.getWorkspaceFolder(fsPath);
+    if (!folder) return undefined;
+
+    let directory = path.dirname(fsPath);
+    for (;;) {
+      const schemaFile = this.schemaFiles.get(directory);
+      if (schemaFile) return schemaFile;
+      if (directory === folder.fsPath) return undefined;
+
+      const parent = path.dirname(directory);
+      if (parent === directory) return undefined;
+      directory = parent;
+    }
+  }
+
+  private getErrorRange(text: string, offset: number | undefined): Range {
+    if (offset === undefined) return Range.create(0, 0, 0, 0);
+
+    const before = text.slice(0, offset);
+    const line = before.split("\n").length - 1;
+    const character = offset - (before.lastIndexOf("\n") + 1);
+    return Range.create(line, character, line, character + 1);
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  type Diagnostic,
+  type TextEdit,
+} from "vscode-languageserver-types";
+import { WriterlySyntaxFixes } from "../WriterlySyntaxFixes";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+
+type FSPath = string;
+
+export const WRITERLY_FIX_ALL_KIND = `${CodeActionKind.SourceFixAll}.writerly`;
+
+/**
+ * What WriterlySyntaxCodeActions needs from the language server: current
+ * document contents (open or on disk), the files of a document tree, and the
+ * URI the client knows a file by.
+ */
+export interface SyntaxCodeActionHost {
+  readDocument(fsPath: FSPath): Promise<WriterlyTextDocument>;
+  getDocumentTreeFiles(fsPath: FSPath): FSPath[];
+  getDocumentUri(fsPath: FSPath): string;
+}
+
+/**
+ * Identifies a fix-all action until codeAction/resolve computes its edits.
+ */
+type FixAllData = {
+  fixAll: "file" | "documentTree";
+  fsPath: FSPath;
+};
+
+/*
+ * WriterlySyntaxCodeActions offers the fixes of WriterlySyntaxFixes as code
+ * actions: one quick fix per fixable diagnostic, plus "fix all" actions for
+ * the file and for its whole document tree. Fix-all edits are only computed
+ * when the client resolves the action; the `source.fixAll.writerly` action,
+ * used by `editor.codeActionsOnSave`, carries its edits directly.
+ */
+export class WriterlySyntaxCodeActions {
+  constructor(private readonly host: SyntaxCodeActionHost) {}
+
+  public getCodeActions(
+    fsPath: FSPath,
+    document: WriterlyTextDocument,
+    diagnostics: Diagnostic[],
+    only: string[] | undefined,
+  ): CodeAction[] {
+    if (only && isKindRequested(WRITERLY_FIX_ALL_KIND, only)) {
+      const action = CodeAction.create(
+        "Fix all Writerly syntax problems",
+        WRITERLY_FIX_ALL_KIND,
+      );
+      action.edit = {
+        changes: {
+          [this.host.getDocumentUri(fsPath)]:
+            WriterlySyntaxFixes.getFixAllEdits(document),
+        },
+      };
+      return [action];
+    }
+
+    const actions: CodeAction[] = [];
+    if (only && !isKindRequested(CodeActionKind.QuickFix, only)) return actions;
+
+    for (const diagnostic of diagnostics) {
+      const fix = WriterlySyntaxFixes.getFix(document, diagnostic);
+      if (!fix) continue;
+
+      const action = CodeAction.create(fix.title, CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      action.edit = {
+        changes: { [this.host.getDocumentUri(fsPath)]: fix.edits },
+      };
+      actions.push(action);
+    }
+
+    if (actions.length > 0) {
+      actions.push(
+        this.createFixAllAction(
+          "Fix all auto-fixable syntax problems in this file",
+          { fixAll: "file", fsPath },
+        ),
+        this.createFixAllAction(
+          "Fix all auto-fixable syntax problems in this document tree",
+          { fixAll: "documentTree", fsPath },
+        ),
+      );
+    }
+    return actions;
+  }
+
+  public isFixAllAction(action: CodeAction): boolean {
+    const data = action.data as FixAllData | undefined;
+    return data?.fixAll === "file" || data?.fixAll === "documentTree";
+  }
+
+  public async resolveCodeAction(action: CodeAction): Promise<CodeAction> {
+    const data = action.data as FixAllData;
+    const fsPaths =
+      data.fixAll === "file"
+        ? [data.fsPath]
+        : this.host.getDocumentTreeFiles(data.fsPath);
+
+    const changes: { [uri: string]: TextEdit[] } = {};
+    for (const fsPath of fsPaths) {
+      try {
+        const edits = WriterlySyntaxFixes.getFixAllEdits(
+          await this.host.readDocument(fsPath),
+        );
+        if (edits.length > 0) {
+          changes[this.host.getDocumentUri(fsPath)] = edits;
+        }
+      } catch (error) {
+        console.error(`Failed to compute syntax fixes for ${fsPath}:`, error);
+      }
+    }
+
+    action.edit = { changes };
+    return action;
+  }
+
+  private createFixAllAction(title: string, data: FixAllData): CodeAction {
+    const action = CodeAction.create(title, CodeActionKind.QuickFix);
+    action.data = data;
+    return action;
+  }
+}
+
+function isKindRequested(kind: string, only: string[]): boolean {
+  return only.some(
+    (requested) => kind === requested || kind.startsWith(`${requested}.`),
+  );
+}
@@ -0,0 +1,111 @@
+import { Range } from "vscode-languageserver-types";
+import { LineType } from "../WriterlyDocumentWalker";
+import { WriterlyParser } from "../WriterlyParser";
+import type { UnusedHandleDefinition } from "../WriterlyProtocol";
+import type { WriterlyTextDocument } from "../WriterlyTextDocument";
+import type { HandleAtPosition, WriterlyHandleIndex } from "./WriterlyHandleIndex";
+
+type FSPath = string;
+
+const IN_TEXT_DEFINITION_MARKER = "##<<";
+
+/**
+ * What WriterlyUnusedHandles needs from the language server: current
+ * document contents (open or on disk), the URI the client knows a file by,
+ * and the path shown to users for it.
+ */
+export interface UnusedHandlesHost {
+  readDocument(fsPath: FSPath): Promise<WriterlyTextDocument>;
+  getDocumentUri(fsPath: FSPath): string;
+  getDisplayPath(fsPath: FSPath): string;
+}
+
+/*
+ * WriterlyUnusedHandles lists the unused handle definitions of a set of files
+ * for the bulk cleanup command, each with the edit that removes it. A
+ * `handle=` attribute loses its whole line. An in-text definition loses its
+ * marker, from the name (or the `#` before it) through `##<<`, and the space
+ * before it when the marker ends a word run; a line left blank goes too.
+ */
+export class WriterlyUnusedHandles {
+  constructor(
+    private readonly handleIndex: WriterlyHandleIndex,
+    private readonly host: UnusedHandlesHost,
+  ) {}
+
+  public async getUnusedDefinitions(
+    fsPaths: FSPath[],
+  ): Promise<UnusedHandleDefinition[]> {
+    const unused: UnusedHandleDefinition[] = [];
+    for (const fsPath of fsPaths) {
+      const definitions = this.handleIndex.getUnusedDefinitions(fsPath);
+      if (definitions.length === 0) continue;
+
+      let document: WriterlyTextDocument;
+      try {
+        document = await this.host.readDocument(fsPath);
+      } catch (error) {
+        console.error(`Failed to read ${fsPath}:`, error);
+        continue;
+      }
+
+      for (const definition of definitions) {
+        const line = definition.range.start.line;
+        unused.push({
+          handleName: definition.handleName,
+          uri: this.host.getDocumentUri(fsPath),
+          range: definition.range,
+          displayPath: this.host.getDisplayPath(fsPath),
+          preview: document.lineAt(line).text.trim(),
+          edit: { range: this.getRemovalRange(document, definition), newText: "" },
+        });
+      }
+    }
+    return unused.sort(
+      (a, b) =>
+        a.displayPath.localeCompare(b.displayPath, undefined, {
+          numeric: true,
+          sensitivity: "base",
+        }) || a.range.start.line - b.range.start.line,
+    );
+  }
+
+  private getRemovalRange(
+    document: WriterlyTextDocument,
+    definition: HandleAtPosition,
+  ): Range {
+    const line = definition.range.start.line;
+    const text = document.lineAt(line).text;
+    if (WriterlyParser.parse(document).lineTypeAt(line) === LineType.Attribute) {
+      return this.getLineRange(document, line);
+    }
+
+    let start = definition.range.start.character;
+    if (text[start - 1] === "#") start--;
+    const markerEnd = text.indexOf(
+      IN_TEXT_DEFINITION_MARKER,
+      definition.range.end.character,
+    );
+    const end = markerEnd + IN_TEXT_DEFINITION_MARKER.length;
+
+    if ((text.slice(0, start) + text.slice(end)).trim() === "") {
+      return this.getLineRange(document, line);
+    }
+    // "see fig##<< below" becomes "see below", not "see  below"
+    if (text[start - 1] === " " && (end === text.length || text[end] === " ")) {
+      start--;
+    }
+    return Range.create(line, start, line, end);
+  }
+
+  /**
+   * The range of a whole line with its line break. The last line has none,
+   * so only its text goes; taking the line break before it could overlap the
+   * removal of the line above.
+   */
+  private getLineRange(document: WriterlyTextDocument, line: number): Range {
+    return line + 1 < document.lineCount
+      ? Range.create(line, 0, line + 1, 0)
+      : Range.create(line, 0, line, document.lineAt(line).text.length);
+  }
+}
@@ -0,0 +1,220 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  getTopmostWriterlyDocumentRoots,
+  getWriterlyContainers,
+  isPathUnderDirectory,
+} from "../WriterlyDocumentTrees";
+import { isWriterlyFilePath } from "../WriterlyFileExtensions";
+import type {
+  WriterlyFileSystem,
+  WriterlyFileType,
+  WriterlyWorkspaceFolder,
+} from "../WriterlyFileSystem";
+
+const SKIPPED_DIRECTORY_NAMES = new Set(["node_modules", "dist", "build"]);
+
+/*
+ * WriterlyWorkspace is the language server's view of the files on disk: the
+ * workspace folders the client opened and an index of every file and
+ * directory below them, skipping node_modules, dist, build and dot
+ * directories like the extension's workspace searches do.
+ *
+ * It is the Node implementation of WriterlyFileSystem. File searches are
+ * answered from the index instead of searching the disk on every query; the
+ * index is built once and then kept current from the file events the client
+ * forwards.
+ */
+export class WriterlyWorkspace implements WriterlyFileSystem {
+  private folders: WriterlyWorkspaceFolder[] = [];
+  private files = new Set<string>();
+  private directories = new Set<string>();
+
+  public setFolders(folders: WriterlyWorkspaceFolder[]): void {
+    this.folders = folders.map((folder) => ({
+      name: folder.name,
+      fsPath: path.resolve(folder.fsPath),
+    }));
+  }
+
+  public getWorkspaceFolders(): readonly WriterlyWorkspaceFolder[] {
+    return this.folders;
+  }
+
+  /**
+   * Re-reads every workspace folder from disk.
+   */
+  public async refresh(): Promise<void> {
+    this.files.clear();
+    this.directories.clear();
+    for (const folder of this.folders) {
+      await this.indexDirectory(folder.fsPath);
+    }
+  }
+
+  /**
+   * Adds a created file, or a created directory with everything below it.
+   */
+  public async addPath(fsPath: string): Promise<void> {
+    if (!this.isInWorkspace(fsPath) || this.isSkippedPath(fsPath)) return;
+
+    try {
+      const stat = await fs.stat(fsPath);
+      if (stat.isDirectory()) {
+        if (isSkippedDirectoryName(path.basename(fsPath))) return;
+        this.directories.add(fsPath);
+        await this.indexDirectory(fsPath);
+      } else if (stat.isFile()) {
+        this.files.add(fsPath);
+      }
+    } catch {
+      // the path disappeared again before we got to it
+    }
+  }
+
+  /**
+   * Removes a deleted file, or a deleted directory with everything below it.
+   */
+  public removePath(fsPath: string): void {
+    for (const entries of [this.files, this.directories]) {
+      for (const entry of entries) {
+        if (isPathUnderDirectory(entry, fsPath)) entries.delete(entry);
+      }
+    }
+  }
+
+  public getFiles(): string[] {
+    return [...this.files];
+  }
+
+  public getWriterlyFiles(): string[] {
+    return this.getFiles().filter((fsPath) => isWriterlyFilePath(fsPath));
+  }
+
+  public getWriterlyContainers(): string[] {
+    return getWriterlyContainers(this.files);
+  }
+
+  public getTopmostWriterlyRoots(): string[] {
+    return getTopmostWriterlyDocumentRoots(this.getWriterlyContainers());
+  }
+
+  public isInWorkspace(fsPath: string): boolean {
+    return this.folders.some((folder) =>
+      isPathUnderDirectory(fsPath, folder.fsPath),
+    );
+  }
+
+  public getWorkspaceFolder(fsPath: string): WriterlyWorkspaceFolder | undefined {
+    return this.folders
+      .filter((folder) => isPathUnderDirectory(fsPath, folder.fsPath))
+      .sort((a, b) => b.fsPath.length - a.fsPath.length)[0];
+  }
+
+  /**
+   * Returns a path relative to its workspace folder, with "/" separators.
+   */
+  public asRelativePath(fsPath: string): string {
+    const folder = this.getWorkspaceFolder(fsPath);
+    if (!folder) return normalizePathSeparators(fsPath);
+    return normalizePathSeparators(path.relative(folder.fsPath, fsPath));
+  }
+
+  /**
+   * Returns the path shown to users in messages: relative to its workspace
+   * folder, the folder name for the folder itself, or the bare file name for
+   * paths outside the workspace.
+   */
+  public getDisplayPath(fsPath: string): string {
+    const folder = this.getWorkspaceFolder(fsPath);
+    if (!folder) return fsPath.split(/[/\\]/).pop() || fsPath;
+
+    const relativePath = path.relative(folder.fsPath, fsPath);
+    return relativePath ? normalizePathSeparators(relativePath) : folder.name;
+  }
+
+  public async findFilesByPath(
+    filePath: string,
+    maxResults?: number,
+  ): Promise<string[]> {
+    const matches: string[] = [];
+    for (const fsPath of this.files) {
+      const relativePath = this.asRelativePath(fsPath);
+      if (
+        relativePath === filePath ||
+        relativePath.endsWith(`/${filePath}`)
+      ) {
+        matches.push(fsPath);
+        if (maxResults !== undefined && matches.length >= maxResults) break;
+      }
+    }
+    return matches;
+  }
+
+  public async findWriterlyFiles(maxResults?: number): Promise<string[]> {
+    return this.getWriterlyFiles().slice(0, maxResults);
+  }
+
+  public async readDirectory(
+    dirPath: string,
+  ): Promise<[string, WriterlyFileType][]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    const result: [string, WriterlyFileType][] = [];
+    for (const entry of entries) {
+      if (entry.isDirectory()) result.push([entry.name, "directory"]);
+      else if (entry.isFile()) result.push([entry.name, "file"]);
+    }
+    return result;
+  }
+
+  public async stat(fsPath: string): Promise<WriterlyFileType | undefined> {
+    try {
+      const stat = await fs.stat(fsPath);
+      if (stat.isDirectory()) return "directory";
+      if (stat.isFile()) return "file";
+      return undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  public readFile(fsPath: string): Promise<string> {
+    return fs.readFile(fsPath, "utf8");
+  }
+
+  private async indexDirectory(dirPath: string): Promise<void> {
+    let entries;
+    try {
+      entries = await fs.readdir(dirPath, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const childPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (isSkippedDirectoryName(entry.name)) continue;
+        this.directories.add(childPath);
+        await this.indexDirectory(childPath);
+      } else if (entry.isFile()) {
+        this.files.add(childPath);
+      }
+    }
+  }
+
+  private isSkippedPath(fsPath: string): boolean {
+    const folder = this.getWorkspaceFolder(fsPath);
+    if (!folder) return true;
+
+    const parts = path.relative(folder.fsPath, fsPath).split(path.sep);
+    return parts.slice(0, -1).some(isSkippedDirectoryName);
+  }
+}
+
+function isSkippedDirectoryName(name: string): boolean {
+  return SKIPPED_DIRECTORY_NAMES.has(name) || name.startsWith(".");
+}
+
+function normalizePathSeparators(filePath: string): string {
+  return filePath.replace(/\\/g, "/");
+}
@@ -0,0 +1,94 @@
+import * as path from "path";
+import {
+  Location,
+  Range,
+  SymbolKind,
+  type SymbolInformation,
+} from "vscode-languageserver-types";
+import { URI } from "vscode-uri";
+import { isPathUnderDirectory } from "../WriterlyDocumentTrees";
+import type { WriterlyHandleIndex } from "./WriterlyHandleIndex";
+import type { WriterlyWorkspace } from "./WriterlyWorkspace";
+
+const CONTAINER_SEPARATOR = " › ";
+
+/*
+ * WriterlyWorkspaceSymbols answers workspace symbol search (Ctrl+T) from the
+ * handle index: handle definitions, tags with a `title=` attribute, and the
+ * Writerly files themselves. Files are named by their path inside their
+ * document tree, so the search also finds them by tree position. Every symbol
+ * names the document tree it belongs to, plus the file for handles and tags.
+ *
+ * The query matches when its characters appear in the symbol name in order,
+ * ignoring case; the client ranks the matches.
+ */
+export class WriterlyWorkspaceSymbols {
+  constructor(
+    private readonly workspace: WriterlyWorkspace,
+    private readonly handleIndex: WriterlyHandleIndex,
+  ) {}
+
+  public getSymbols(query: string): SymbolInformation[] {
+    const roots = this.workspace.getTopmostWriterlyRoots();
+    const symbols: SymbolInformation[] = [];
+
+    for (const fsPath of this.handleIndex.getIndexedFiles().sort()) {
+      const root = roots.find((rootDir) =>
+        isPathUnderDirectory(fsPath, rootDir),
+      );
+      const treeName = root
+        ? this.workspace.getDisplayPath(root)
+        : this.workspace.getDisplayPath(fsPath);
+      const treePath = root
+        ? path.relative(root, fsPath).split(path.sep).join("/")
+        : path.basename(fsPath);
+      const fileContainer = [treeName, treePath].join(CONTAINER_SEPARATOR);
+      const uri = URI.file(fsPath).toString();
+
+      if (matchesQuery(treePath, query)) {
+        symbols.push({
+          name: treePath,
+          kind: SymbolKind.File,
+          location: Location.create(uri, Range.create(0, 0, 0, 0)),
+          containerName: treeName,
+        });
+      }
+
+      const { definitions } = this.handleIndex.getHandleOccurrences(fsPath);
+      for (const definition of definitions) {
+        if (!matchesQuery(definition.handleName, query)) continue;
+        symbols.push({
+          name: definition.handleName,
+          kind: SymbolKind.Key,
+          location: Location.create(uri, definition.range),
+          containerName: fileContainer,
+        });
+      }
+
+      for (const tag of this.handleIndex.getTitledTags(fsPath)) {
+        if (!matchesQuery(tag.title, query)) continue;
+        symbols.push({
+          name: tag.title,
+          kind: SymbolKind.Class,
+          location: Location.create(uri, tag.range),
+          containerName: [fileContainer, `|> ${tag.tagName}`].join(
+            CONTAINER_SEPARATOR,
+          ),
+        });
+      }
+    }
+    return symbols;
+  }
+}
+
+function matchesQuery(name: string, query: string): boolean {
+  const lowerName = name.toLowerCase();
+  let index = 0;
+  for (const character of query.toLowerCase()) {
+    if (character === " ") continue;
+    index = lowerName.indexOf(character, index);
+    if (index === -1) return false;
+    index++;
+  }
+  return true;
+}
@@ -0,0 +1,6 @@
+import { createConnection, ProposedFeatures } from "vscode-languageserver/node";
+import { WriterlyLanguageServer } from "./WriterlyLanguageServer";
+
+// Entry point of the standalone Writerly language server. The transport is
+// picked from the command line: --stdio, --node-ipc or --socket=<port>.
+new WriterlyLanguageServer(createConnection(ProposedFeatures.all)).listen();
@@ -0,0 +1,31 @@
+import { Position, Range } from "vscode-languageserver-types";
+
+// LSP positions and ranges are plain objects; these helpers stand in for the
+// methods `vscode.Position` and `vscode.Range` provide.
+export const rangeUtils = {
+  translate: (
+    position: Position,
+    lineDelta: number,
+    characterDelta: number,
+  ): Position =>
+    Position.create(
+      position.line + lineDelta,
+      position.character + characterDelta,
+    ),
+
+  moveLines: (range: Range, lineDelta: number): Range =>
+    Range.create(
+      rangeUtils.translate(range.start, lineDelta, 0),
+      rangeUtils.translate(range.end, lineDelta, 0),
+    ),
+
+  compare: (a: Position, b: Position): number =>
+    a.line - b.line || a.character - b.character,
+
+  /**
+   * Inclusive at both ends, like `vscode.Range.contains`.
+   */
+  contains: (range: Range, position: Position): boolean =>
+    rangeUtils.compare(range.start, position) <= 0 &&
+    rangeUtils.compare(position, range.end) <= 0,
+};
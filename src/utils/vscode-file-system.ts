@@ -0,0 +1,64 @@
+import * as vscode from "vscode";
+import { getWriterlyFileGlob } from "../WriterlyFileExtensions";
+import type {
+  WriterlyFileSystem,
+  WriterlyFileType,
+} from "../WriterlyFileSystem";
+
+const excludedWorkspacePaths =
+  "{**/node_modules/**,**/.*/**,**/dist/**,**/build/**}";
+
+const toWriterlyFileType = (
+  type: vscode.FileType,
+): WriterlyFileType | undefined => {
+  if (type & vscode.FileType.Directory) return "directory";
+  if (type & vscode.FileType.File) return "file";
+  return undefined;
+};
+
+// WriterlyFileSystem backed by the open VS Code workspace.
+export const vscodeFileSystem: WriterlyFileSystem = {
+  getWorkspaceFolders: () =>
+    (vscode.workspace.workspaceFolders ?? []).map((folder) => ({
+      name: folder.name,
+      fsPath: folder.uri.fsPath,
+    })),
+
+  findFilesByPath: async (filePath, maxResults) => {
+    const files = await vscode.workspace.findFiles(
+      `**/${filePath}`,
+      excludedWorkspacePaths,
+      maxResults,
+    );
+    return files.map((uri) => uri.fsPath);
+  },
+
+  findWriterlyFiles: async (maxResults) => {
+    const fileGlob = getWriterlyFileGlob();
+    if (!fileGlob) return [];
+
+    const files = await vscode.workspace.findFiles(fileGlob, null, maxResults);
+    return files.map((uri) => uri.fsPath);
+  },
+
+  readDirectory: async (dirPath) => {
+    const entries = await vscode.workspace.fs.readDirectory(
+      vscode.Uri.file(dirPath),
+    );
+    const result: [string, WriterlyFileType][] = [];
+    for (const [name, type] of entries) {
+      const fileType = toWriterlyFileType(type);
+      if (fileType) result.push([name, fileType]);
+    }
+    return result;
+  },
+
+  stat: async (fsPath) => {
+    try {
+      const stat = await vscode.workspace.fs.stat(vscode.Uri.file(fsPath));
+      return toWriterlyFileType(stat.type);
+    } catch {
+      return undefined;
+    }
+  },
+};
@@ -0,0 +1,814 @@
+#!/usr/bin/env node
+"use strict";
+
+/*
+ * Golden-file tests for the Writerly checks. The fixture directories of test/
+ * are loaded as one workspace, the way test/test.code-workspace opens them,
+ * and for every fixture the runner computes:
+ *
+ * - diagnostics: syntax, handle and missing-file diagnostics of every file,
+ *   with unused-handle warnings enabled
+ * - fixes: the quick fix of every fixable syntax diagnostic and the edits
+ *   of fixing all of a file at once, with their line breaks
+ * - reparse: inserting an empty line in the middle of every file and removing
+ *   it again, how many lines the incremental re-parse walks again, and that
+ *   the previous tree is left as it was and the result matches a full parse
+ * - actions: the quick fixes offered for the handle diagnostics of every
+ *   file, like did-you-mean on undefined handles, and for create-definition
+ *   the tags the definition can be added to, with the edit for each
+ * - definitions: where go to definition on every >>handle usage lands
+ * - usages: the usages listed for every handle definition in its document
+ *   tree, hash-island scoping included
+ * - references: what find references returns on every handle definition,
+ *   and on every usage with the declaration included; only the usages that
+ *   resolve to the definition count
+ * - lenses: the reference count code lens of every handle definition
+ * - hover: the hover text on every handle definition and usage
+ * - renames: renaming every handle definition to a fresh name, as the
+ *   annotated edits the refactor preview asks to confirm, and to the next
+ *   name defined in its file, which is refused when the two would collide;
+ *   every decorator of an in-text definition likewise, and to an invalid
+ *   name
+ * - unused: the unused definitions the bulk cleanup command lists, with the
+ *   edits that remove them
+ * - outline: the document symbols of every file, nested as in the Outline
+ *   view
+ * - symbols: the workspace symbols found with an empty query, listed under
+ *   the file they point into
+ * - paths: how every path-bearing attribute value resolves, with the
+ *   closest-ancestor and container-distance tie-breaking of file commands
+ * - sarif: the artifact URI and region of every diagnostic in the SARIF
+ *   report of writerly-check
+ * - reordering: in every directory with numbered entries, the renames that
+ *   drag and drop in the document tree view plans for moving each entry onto
+ *   each other one, then how each of those renames rewrites the path
+ *   references to the renamed files
+ * - graph: the edges of the file-level handle reference graph of every
+ *   document tree, with their usage counts and handles
+ * - tree: the nodes of the document tree view for the fixture, nested as in
+ *   the view, and which of them a change of diagnostics redraws: those of
+ *   the files with diagnostics that the view lists, and none for a file
+ *   outside the tree, with the nodes left as built
+ *
+ * The result is compared with test/golden/expected/<fixture>.golden.
+ *
+ *   npm test                                   # compile, then compare
+ *   node test/golden/run-golden.js [fixture...]
+ *   node test/golden/run-golden.js --update [fixture...]
+ *
+ * --update rewrites the expected files instead of comparing; review the diff
+ * before committing it. Exits 1 when any fixture differs from its expected
+ * output.
+ */
+
+const fs = require("fs");
+const path = require("path");
+const { fileURLToPath, pathToFileURL } = require("url");
+
+const OUT_DIR = path.join(__dirname, "..", "..", "out");
+const { SymbolKind } = require("vscode-languageserver-types");
+const { WriterlyChecker } = require(path.join(OUT_DIR, "cli", "WriterlyChecker"));
+const { formatCheckResult } = require(path.join(OUT_DIR, "cli", "WriterlyCheckReport"));
+const {
+  getDirectoryEntryNames,
+  getRenamedReferencePaths,
+  planReordering,
+} = require(path.join(OUT_DIR, "WriterlyDocumentReordering"));
+const { getAssemblyOrder, isCommentedPath } = require(path.join(OUT_DIR, "WriterlyDocumentAssembly"));
+const { WriterlyDocumentSymbols } = require(path.join(OUT_DIR, "WriterlyDocumentSymbols"));
+const {
+  buildDocumentTreeNodes,
+  getChangedNodes,
+} = require(path.join(OUT_DIR, "WriterlyDocumentTreeNodes"));
+const { getNearestContainer } = require(path.join(OUT_DIR, "WriterlyDocumentTrees"));
+const { WriterlyParser } = require(path.join(OUT_DIR, "WriterlyParser"));
+const { WriterlyPathResolver } = require(path.join(OUT_DIR, "WriterlyPathResolver"));
+const { WriterlySyntaxFixes } = require(path.join(OUT_DIR, "WriterlySyntaxFixes"));
+const WriterlyStaticValidator = require(path.join(OUT_DIR, "WriterlyStaticValidator")).default;
+const { CREATE_HANDLE_DEFINITION_COMMAND } = require(path.join(OUT_DIR, "WriterlyProtocol"));
+const { WriterlyTextSnapshot } = require(path.join(OUT_DIR, "WriterlyTextDocument"));
+const {
+  WriterlyHandleDefinitionTargets,
+} = require(path.join(OUT_DIR, "server", "WriterlyHandleDefinitionTargets"));
+const { WriterlyHandleHover } = require(path.join(OUT_DIR, "server", "WriterlyHandleHover"));
+const {
+  toConfirmedRenameEdit,
+  WriterlyHandleIndex,
+} = require(path.join(OUT_DIR, "server", "WriterlyHandleIndex"));
+const { WriterlyUnusedHandles } = require(path.join(OUT_DIR, "server", "WriterlyUnusedHandles"));
+const { WriterlyWorkspaceSymbols } = require(path.join(OUT_DIR, "server", "WriterlyWorkspaceSymbols"));
+const { WriterlyWorkspace } = require(path.join(OUT_DIR, "server", "WriterlyWorkspace"));
+
+const FIXTURES_DIR = path.join(__dirname, "..");
+const EXPECTED_DIR = path.join(__dirname, "expected");
+const GOLDEN_EXTENSION = ".golden";
+const NUMBERED_ENTRY = /^#?\d+\D/;
+const DECORATOR_CANDIDATE = /#([\p{L}\p{N}\p{M}_:'-]+)/gu;
+const SEVERITY_NAMES = { 1: "error", 2: "warning", 3: "info", 4: "hint" };
+const SYMBOL_KIND_NAMES = Object.fromEntries(
+  Object.entries(SymbolKind).map(([name, kind]) => [kind, name]),
+);
+
+function parseArguments(argv) {
+  const args = { update: false, fixtures: [] };
+  for (const arg of argv) {
+    if (arg === "--update") args.update = true;
+    else if (arg === "-h" || arg === "--help") {
+      console.log("usage: run-golden.js [--update] [fixture...]");
+      process.exit(0);
+    } else args.fixtures.push(arg.replace(/\/+$/, ""));
+  }
+  return args;
+}
+
+function formatPosition(file, position) {
+  return `${file}:${position.line + 1}:${position.character + 1}`;
+}
+
+function formatEdits(edits) {
+  return edits
+    .map(
+      ({ range, newText }) =>
+        `${range.start.line + 1}:${range.start.character + 1}-${range.end.line + 1}:${range.end.character + 1} ${JSON.stringify(newText)}`,
+    )
+    .join(", ");
+}
+
+function formatWorkspaceEdit(edit, relative) {
+  return (
+    Object.entries(edit.changes ?? {})
+      .map(([uri, edits]) => `${relative(fileURLToPath(uri))} ${formatEdits(edits)}`)
+      .sort()
+      .join("; ") || "(no edits)"
+  );
+}
+
+function formatConfirmedEdit(edit, relative) {
+  const annotations = edit.documentChanges.flatMap(({ edits }) =>
+    edits.map(({ annotationId }) => edit.changeAnnotations[annotationId]),
+  );
+  const labels = [...new Set(annotations.map((annotation) => annotation?.label))];
+  const confirmed = annotations.every((annotation) => annotation?.needsConfirmation);
+  const changes = edit.documentChanges
+    .map(({ textDocument, edits }) =>
+      `${relative(fileURLToPath(textDocument.uri))} ${formatEdits(edits)}`,
+    )
+    .sort()
+    .join("; ");
+  return `${labels.join(", ")}${confirmed ? " (needs confirmation)" : ""}: ${changes}`;
+}
+
+/**
+ * Edits a copy of `document` in place, re-parsing it after each edit, and
+ * describes every re-parse.
+ */
+function describeReparses(document) {
+  const lines = Array.from({ length: document.lineCount }, (_, line) => document.lineAt(line).text);
+  const editable = {
+    version: 0,
+    get lineCount() {
+      return lines.length;
+    },
+    lineAt: (line) => ({ text: lines[line] ?? "" }),
+  };
+  const middle = Math.floor(lines.length / 2);
+  const edits = [
+    [`inserting a line at ${middle + 1}`, () => lines.splice(middle, 0, "")],
+    ["removing it again", () => lines.splice(middle, 1)],
+  ];
+  const formatLines = (tree) =>
+    JSON.stringify(tree.lines.map(({ identity, ...line }) => line));
+
+  const outcomes = [];
+  let tree = WriterlyParser.parse(editable);
+  for (const [description, edit] of edits) {
+    const before = formatLines(tree);
+    edit();
+    editable.version++;
+    const next = WriterlyParser.parse(editable);
+    const identities = new Set(tree.lines.map((line) => line.identity));
+    const rewalked = next.lines.filter((line) => !identities.has(line.identity)).length;
+    const fullParse = WriterlyParser.parse(new WriterlyTextSnapshot(lines.join("\n")));
+    outcomes.push(
+      `${description}: re-walked ${rewalked} of ${next.lines.length} lines; previous tree ${
+        formatLines(tree) === before ? "unchanged" : "CHANGED"
+      }; ${formatLines(next) === formatLines(fullParse) ? "same as" : "DIFFERS from"} a full parse`,
+    );
+    tree = next;
+  }
+  return outcomes;
+}
+
+function fixtureOf(file) {
+  return file.split("/")[0];
+}
+
+class GoldenWorkspace {
+  constructor(rootDir) {
+    this.rootDir = rootDir;
+    this.workspace = new WriterlyWorkspace();
+    this.handleIndex = new WriterlyHandleIndex(this.workspace);
+    this.pathResolver = new WriterlyPathResolver(this.workspace);
+    this.documents = new Map();
+  }
+
+  async load() {
+    this.workspace.setFolders([
+      { name: path.basename(this.rootDir), fsPath: this.rootDir },
+    ]);
+    await this.workspace.refresh();
+    this.handleIndex.refreshWriterlyContainers();
+
+    for (const fsPath of this.workspace.getWriterlyFiles().sort()) {
+      const document = new WriterlyTextSnapshot(
+        await this.workspace.readFile(fsPath),
+      );
+      this.documents.set(fsPath, document);
+      this.handleIndex.indexDocument(fsPath, document);
+    }
+  }
+
+  relative(fsPath) {
+    return this.workspace.asRelativePath(fsPath);
+  }
+
+  async collect() {
+    const lines = new Map();
+    const sectionsOf = (file) => {
+      const fixture = fixtureOf(file);
+      if (!lines.has(fixture)) {
+        lines.set(fixture, {
+          diagnostics: [],
+          fixes: [],
+          reparse: [],
+          actions: [],
+          definitions: [],
+          usages: [],
+          references: [],
+          lenses: [],
+          hover: [],
+          renames: [],
+          unused: [],
+          outline: [],
+          symbols: [],
+          paths: [],
+          sarif: [],
+          reordering: [],
+          graph: [],
+          tree: [],
+        });
+      }
+      return lines.get(fixture);
+    };
+    const add = (file, section, line) => sectionsOf(file)[section].push(line);
+
+    const checker = new WriterlyChecker(this.rootDir, {
+      unusedHandleWarnings: true,
+      missingFileWarnings: true,
+    });
+    const checkResult = await checker.check();
+    checkResult.files.forEach(sectionsOf);
+    for (const { file, code, diagnostic } of checkResult.diagnostics) {
+      const severity = SEVERITY_NAMES[diagnostic.severity] ?? "error";
+      add(
+        file,
+        "diagnostics",
+        `${formatPosition(file, diagnostic.range.start)} ${severity} [${code}] ${diagnostic.message}`,
+      );
+    }
+
+    const sarif = JSON.parse(formatCheckResult(checkResult, "sarif", "golden"));
+    sarif.runs[0].results.forEach((sarifResult, index) => {
+      const { artifactLocation, region } = sarifResult.locations[0].physicalLocation;
+      add(
+        checkResult.diagnostics[index].file,
+        "sarif",
+        `${artifactLocation.uriBaseId}:${artifactLocation.uri} ${region.startLine}:${region.startColumn}-${region.endLine}:${region.endColumn} ${sarifResult.level} ${sarifResult.ruleId}`,
+      );
+    });
+
+    const definitionTargets = new WriterlyHandleDefinitionTargets({
+      readDocument: async (fsPath) => this.documents.get(fsPath),
+      getDocumentTreeFiles: (fsPath) =>
+        [...this.documents.keys()].filter((other) =>
+          this.handleIndex.isInSameDocumentTree(fsPath, other),
+        ),
+      getDocumentUri: (fsPath) => pathToFileURL(fsPath).toString(),
+      getDisplayPath: (fsPath) => this.relative(fsPath),
+    });
+    const hover = new WriterlyHandleHover(this.handleIndex, {
+      readDocument: async (fsPath) => this.documents.get(fsPath),
+      getDisplayPath: (fsPath) => this.relative(fsPath),
+    });
+    const unusedHandles = new WriterlyUnusedHandles(this.handleIndex, {
+      readDocument: async (fsPath) => this.documents.get(fsPath),
+      getDocumentUri: (fsPath) => pathToFileURL(fsPath).toString(),
+      getDisplayPath: (fsPath) => this.relative(fsPath),
+    });
+
+    for (const [fsPath, document] of this.documents) {
+      const file = this.relative(fsPath);
+      const { definitions, usages } = this.handleIndex.getHandleOccurrences(fsPath);
+
+      for (const diagnostic of WriterlyStaticValidator.validateDocument(document)) {
+        const fix = WriterlySyntaxFixes.getFix(document, diagnostic);
+        if (!fix) continue;
+        add(
+          file,
+          "fixes",
+          `${formatPosition(file, diagnostic.range.start)} [${diagnostic.code}] ${fix.title}: ${formatEdits(fix.edits)}`,
+        );
+      }
+      const fixAllEdits = WriterlySyntaxFixes.getFixAllEdits(document);
+      if (fixAllEdits.length > 0) {
+        add(file, "fixes", `${file} fix all: ${formatEdits(fixAllEdits)}`);
+      }
+
+      for (const usage of usages) {
+        const position = {
+          line: usage.range.start.line,
+          character: usage.range.start.character + 2,
+        };
+        const targets = this.handleIndex.getDefinitionTargets(fsPath, document, position);
+        const locations = (targets?.locations ?? []).map((location) =>
+          formatPosition(this.relative(fileURLToPath(location.uri)), location.range.start),
+        );
+        add(
+          file,
+          "definitions",
+          `${formatPosition(file, usage.range.start)} >>${usage.handleName} -> ${locations.join(", ") || "(unresolved)"}`,
+        );
+      }
+
+      for (const definition of definitions) {
+        const result = this.handleIndex.getHandleUsagesAt(
+          fsPath,
+          document,
+          definition.range.start,
+        );
+        const locations = (result?.usages ?? []).map((usage) =>
+          formatPosition(this.relative(usage.fsPath), usage.range.start),
+        );
+        add(
+          file,
+          "usages",
+          `${formatPosition(file, definition.range.start)} ${definition.handleName} -> ${locations.join(", ") || "(none)"}`,
+        );
+      }
+
+      const formatLocations = (locations) =>
+        locations
+          .map((location) =>
+            formatPosition(this.relative(fileURLToPath(location.uri)), location.range.start),
+          )
+          .join(", ") || "(none)";
+      for (const definition of definitions) {
+        const references = this.handleIndex.getReferences(
+          fsPath,
+          document,
+          definition.range.start,
+          false,
+        );
+        add(
+          file,
+          "references",
+          `${formatPosition(file, definition.range.start)} ${definition.handleName} -> ${formatLocations(references ?? [])}`,
+        );
+      }
+      for (const usage of usages) {
+        const references = this.handleIndex.getReferences(
+          fsPath,
+          document,
+          { line: usage.range.start.line, character: usage.range.start.character + 2 },
+          true,
+        );
+        add(
+          file,
+          "references",
+          `${formatPosition(file, usage.range.start)} >>${usage.handleName} -> ${formatLocations(references ?? [])}`,
+        );
+      }
+
+      for (const codeLens of this.handleIndex.getReferenceCodeLenses(fsPath)) {
+        const { command } = this.handleIndex.resolveReferenceCodeLens(codeLens);
+        add(
+          file,
+          "lenses",
+          `${formatPosition(file, codeLens.range.start)} ${command.title}: ${formatLocations(command.arguments[2])}`,
+        );
+      }
+
+      for (const outcome of describeReparses(document)) {
+        add(file, "reparse", `${file} ${outcome}`);
+      }
+
+      const handleDiagnostics = this.handleIndex.validateDocument(fsPath, true);
+      for (const action of this.handleIndex.getCodeActions(fsPath, handleDiagnostics)) {
+        const outcome = action.edit
+          ? formatWorkspaceEdit(action.edit, (fsPath) => this.relative(fsPath))
+          : `runs ${action.command.command}`;
+        add(
+          file,
+          "actions",
+          `${formatPosition(file, action.diagnostics[0].range.start)} ${action.title}${action.isPreferred ? " (preferred)" : ""}: ${outcome}`,
+        );
+        if (action.command?.command !== CREATE_HANDLE_DEFINITION_COMMAND) continue;
+
+        const [, handleName, position] = action.command.arguments;
+        for (const target of await definitionTargets.getTargets(fsPath, handleName, position)) {
+          add(
+            file,
+            "actions",
+            `    ${target.displayPath}:${target.line + 1} ${target.tagPath.join(" > ")}: ${formatEdits([target.edit])}`,
+          );
+        }
+      }
+
+      const occurrences = [
+        ...definitions.map((definition) => ({ range: definition.range, offset: 0 })),
+        ...usages.map((usage) => ({ range: usage.range, offset: 2 })),
+      ].sort(
+        (a, b) =>
+          a.range.start.line - b.range.start.line ||
+          a.range.start.character - b.range.start.character,
+      );
+      for (const { range, offset } of occurrences) {
+        const result = await hover.getHover(fsPath, document, {
+          line: range.start.line,
+          character: range.start.character + offset,
+        });
+        add(file, "hover", `${formatPosition(file, range.start)}:`);
+        for (const line of result ? result.contents.value.split("\n") : ["(none)"]) {
+          add(file, "hover", line && `    ${line}`);
+        }
+      }
+
+      const definedNames = [...new Set(definitions.map((definition) => definition.handleName))];
+      for (const definition of definitions) {
+        const nextName =
+          definedNames[(definedNames.indexOf(definition.handleName) + 1) % definedNames.length];
+        const newNames = [`renamed-${definition.handleName}`];
+        if (nextName !== definition.handleName) newNames.push(nextName);
+        for (const newName of newNames) {
+          const rename = this.handleIndex.getRenameEdits(
+            fsPath,
+            document,
+            definition.range.start,
+            newName,
+          );
+          const outcome =
+            rename.kind === "refused"
+              ? `refused: ${rename.message}`
+              : formatConfirmedEdit(
+                  toConfirmedRenameEdit(rename, () => null),
+                  (fsPath) => this.relative(fsPath),
+                );
+          add(
+            file,
+            "renames",
+            `${formatPosition(file, definition.range.start)} ${definition.handleName} to ${newName} -> ${outcome}`,
+          );
+        }
+      }
+
+      const decorators = [];
+      for (let line = 0; line < document.lineCount; line++) {
+        for (const match of document.lineAt(line).text.matchAll(DECORATOR_CANDIDATE)) {
+          const position = { line, character: match.index + 1 };
+          const isHandle = definitions.some(
+            (definition) =>
+              definition.range.start.line === line &&
+              definition.range.start.character <= position.character &&
+              position.character < definition.range.end.character,
+          );
+          const target = isHandle ? undefined : this.handleIndex.prepareRename(document, position);
+          if (target?.placeholder === match[1]) decorators.push({ name: match[1], position });
+        }
+      }
+      const decoratorNames = [...new Set(decorators.map((decorator) => decorator.name))];
+      for (const { name, position } of decorators) {
+        const nextName =
+          decoratorNames[(decoratorNames.indexOf(name) + 1) % decoratorNames.length];
+        const newNames = [`renamed-${name}`, "not a name"];
+        if (nextName !== name) newNames.push(nextName);
+        for (const newName of newNames) {
+          const rename = this.handleIndex.getRenameEdits(fsPath, document, position, newName);
+          const outcome =
+            rename.kind === "refused"
+              ? `refused: ${rename.message}`
+              : formatConfirmedEdit(
+                  toConfirmedRenameEdit(rename, () => null),
+                  (fsPath) => this.relative(fsPath),
+                );
+          add(
+            file,
+            "renames",
+            `${formatPosition(file, position)} #${name} to ${newName} -> ${outcome}`,
+          );
+        }
+      }
+
+      for (const unused of await unusedHandles.getUnusedDefinitions([fsPath])) {
+        add(
+          file,
+          "unused",
+          `${formatPosition(file, unused.range.start)} ${unused.handleName} (${unused.preview}): ${formatEdits([unused.edit])}`,
+        );
+      }
+
+      const addOutline = (symbols, depth) => {
+        for (const symbol of symbols) {
+          add(
+            file,
+            "outline",
+            `${formatPosition(file, symbol.selectionRange.start)} ${"  ".repeat(depth)}${SYMBOL_KIND_NAMES[symbol.kind]} ${symbol.name}`,
+          );
+          addOutline(symbol.children ?? [], depth + 1);
+        }
+      };
+      addOutline(WriterlyDocumentSymbols.getDocumentSymbols(document), 0);
+
+      const resolutionRoot =
+        getNearestContainer(fsPath, this.workspace.getWriterlyContainers()) ??
+        this.rootDir;
+      for (const reference of this.handleIndex.getFileReferences(document)) {
+        const resolution = await this.pathResolver.resolveUniqueFilePath(
+          reference.filePath,
+          { rootRelativeTo: fsPath, resolutionRoot },
+        );
+        add(
+          file,
+          "paths",
+          `${formatPosition(file, reference.range.start)} ${reference.attributeKey}=${reference.filePath} -> ${this.formatResolution(resolution)}`,
+        );
+      }
+    }
+
+    const workspaceSymbols = new WriterlyWorkspaceSymbols(this.workspace, this.handleIndex);
+    for (const symbol of workspaceSymbols.getSymbols("")) {
+      const file = this.relative(fileURLToPath(symbol.location.uri));
+      add(
+        file,
+        "symbols",
+        `${formatPosition(file, symbol.location.range.start)} ${SYMBOL_KIND_NAMES[symbol.kind]} ${symbol.name} in ${symbol.containerName}`,
+      );
+    }
+
+    await this.collectReorderings(add);
+
+    for (const graph of checker.getHandleGraphs()) {
+      for (const edge of graph.edges) {
+        const from = `${graph.name}/${edge.from}`;
+        add(
+          from,
+          "graph",
+          `${from} -> ${graph.name}/${edge.to} (${edge.weight}): ${edge.handles.join(", ")}`,
+        );
+      }
+    }
+
+    this.collectDocumentTreeNodes(add, checkResult);
+
+    return lines;
+  }
+
+  collectDocumentTreeNodes(add, checkResult) {
+    const fixtures = new Set([...this.documents.keys()].map((fsPath) => fixtureOf(this.relative(fsPath))));
+    for (const fixture of [...fixtures].sort()) {
+      const fixtureDir = path.join(this.rootDir, fixture);
+      const order = getAssemblyOrder(
+        fixtureDir,
+        [...this.documents.keys()].filter(
+          (fsPath) => fixtureOf(this.relative(fsPath)) === fixture && !isCommentedPath(fsPath),
+        ),
+      );
+      if (order.kind !== "ok") {
+        add(fixture, "tree", `directory name ends in .wly: ${order.dirPath}`);
+        continue;
+      }
+
+      const nodes = buildDocumentTreeNodes(order.files);
+      const describe = (node, depth) => [
+        `${"  ".repeat(depth)}${this.relative(node.file.fsPath)}`,
+        ...node.children.flatMap((child) => describe(child, depth + 1)),
+      ];
+      const collectNodes = (node) => [node, ...node.children.flatMap(collectNodes)];
+      const structure = nodes.roots.flatMap((root) => describe(root, 0));
+      const built = nodes.roots.flatMap(collectNodes);
+      structure.forEach((line) => add(fixture, "tree", line));
+
+      const withDiagnostics = [
+        ...new Set(
+          checkResult.diagnostics
+            .filter(({ file }) => fixtureOf(file) === fixture)
+            .map(({ file }) => path.join(this.rootDir, file)),
+        ),
+      ];
+      const outside = [...this.documents.keys()].find(
+        (fsPath) => fixtureOf(this.relative(fsPath)) !== fixture,
+      );
+      const changed = getChangedNodes(nodes, [...withDiagnostics, ...withDiagnostics, outside]);
+      const redrawn = changed.map((node) => this.relative(node.file.fsPath)).join(", ") || "nothing";
+      const kept =
+        nodes.roots.flatMap((root) => describe(root, 0)).join("\n") === structure.join("\n") &&
+        nodes.roots.flatMap(collectNodes).every((node, index) => node === built[index]) &&
+        changed.every((node) => built.includes(node));
+      add(
+        fixture,
+        "tree",
+        `diagnostics change in ${withDiagnostics.length} ${
+          withDiagnostics.length === 1 ? "file" : "files"
+        } and one outside the tree: redraws ${redrawn}; nodes ${
+          kept ? "kept as built" : "CHANGED"
+        }`,
+      );
+    }
+  }
+
+  async collectReorderings(add) {
+    const writerlyFiles = [...this.documents.keys()];
+    const directories = new Set();
+    for (const fsPath of writerlyFiles) {
+      for (let dir = path.dirname(fsPath); dir !== this.rootDir; dir = path.dirname(dir)) {
+        directories.add(dir);
+      }
+    }
+
+    const renames = new Map();
+    for (const dirPath of [...directories].sort()) {
+      const names = getDirectoryEntryNames(dirPath, writerlyFiles);
+      if (names.filter((name) => NUMBERED_ENTRY.test(name)).length < 2) continue;
+
+      const dir = this.relative(dirPath);
+      const movable = names.filter((name) => !name.startsWith("#") && name !== "__parent.wly");
+      for (const moved of movable) {
+        for (const target of movable) {
+          if (moved === target) continue;
+          const plan = planReordering(names, moved, target);
+          const outcome =
+            plan.kind === "ok"
+              ? plan.renames.map((rename) => `${rename.from} => ${rename.to}`).join(", ")
+              : plan.kind === "unnumbered"
+                ? `unnumbered: ${plan.name}`
+                : "unchanged";
+          add(dir, "reordering", `${dir}: ${moved} onto ${target} -> ${outcome}`);
+          if (plan.kind !== "ok") continue;
+          for (const rename of plan.renames) {
+            renames.set(`${dir}/${rename.from} => ${rename.to}`, {
+              fsPath: path.join(dirPath, rename.from),
+              newName: rename.to,
+            });
+          }
+        }
+      }
+    }
+    if (renames.size === 0) return;
+
+    const references = [];
+    for (const [fsPath, document] of this.documents) {
+      const resolutionRoot =
+        getNearestContainer(fsPath, this.workspace.getWriterlyContainers()) ??
+        this.rootDir;
+      for (const reference of this.handleIndex.getFileReferences(document)) {
+        const resolution = await this.pathResolver.resolveUniqueFilePath(
+          reference.filePath,
+          { rootRelativeTo: fsPath, resolutionRoot },
+        );
+        if (resolution.kind !== "unique" && resolution.kind !== "resolvedAmbiguous") continue;
+        references.push({ file: this.relative(fsPath), reference, target: resolution.fsPath });
+      }
+    }
+
+    for (const [description, rename] of [...renames].sort(([a], [b]) => a.localeCompare(b))) {
+      const renamedIndex = path.relative(this.rootDir, rename.fsPath).split(path.sep).length - 1;
+      for (const { file, reference, target } of references) {
+        if (target !== rename.fsPath && !target.startsWith(`${rename.fsPath}${path.sep}`)) {
+          continue;
+        }
+        // the longest candidate that ends the reference at a segment boundary
+        const candidate = getRenamedReferencePaths(
+          path.relative(this.rootDir, target).split(path.sep),
+          renamedIndex,
+          rename.newName,
+        ).find(
+          ({ oldPath }) =>
+            reference.filePath === oldPath || reference.filePath.endsWith(`/${oldPath}`),
+        );
+        const newPath = candidate
+          ? reference.filePath.slice(0, -candidate.oldPath.length) + candidate.newPath
+          : "(unchanged)";
+        add(
+          file,
+          "reordering",
+          `${description}: ${formatPosition(file, reference.range.start)} ${reference.attributeKey}=${reference.filePath} -> ${newPath}`,
+        );
+      }
+    }
+  }
+
+  formatResolution(resolution) {
+    const list = (fsPaths) =>
+      fsPaths.map((fsPath) => this.relative(fsPath)).sort().join(", ");
+    switch (resolution.kind) {
+      case "notFound":
+        return "not found";
+      case "unique":
+        return this.relative(resolution.fsPath);
+      case "resolvedAmbiguous":
+        return `${this.relative(resolution.fsPath)} (${resolution.reason}; also ${list(resolution.alternatives)})`;
+      case "ambiguous":
+        return `ambiguous: ${list(resolution.fsPaths)}`;
+    }
+  }
+}
+
+function formatGolden(fixture, sections) {
+  const output = [
+    `# Expected output for test/${fixture}.`,
+    "# Regenerate with: node test/golden/run-golden.js --update",
+  ];
+  for (const [section, lines] of Object.entries(sections)) {
+    output.push("", `## ${section}`);
+    output.push(...lines);
+  }
+  return `${output.join("\n")}\n`;
+}
+
+function describeDifference(expected, actual) {
+  const expectedLines = expected.split("\n");
+  const actualLines = actual.split("\n");
+  const expectedSet = new Set(expectedLines);
+  const actualSet = new Set(actualLines);
+  return [
+    ...expectedLines.filter((line) => !actualSet.has(line)).map((line) => `  - ${line}`),
+    ...actualLines.filter((line) => !expectedSet.has(line)).map((line) => `  + ${line}`),
+  ];
+}
+
+async function main() {
+  const args = parseArguments(process.argv.slice(2));
+  const goldenWorkspace = new GoldenWorkspace(FIXTURES_DIR);
+  await goldenWorkspace.load();
+  const results = await goldenWorkspace.collect();
+
+  const expectedFixtures = fs.existsSync(EXPECTED_DIR)
+    ? fs
+        .readdirSync(EXPECTED_DIR)
+        .filter((name) => name.endsWith(GOLDEN_EXTENSION))
+        .map((name) => name.slice(0, -GOLDEN_EXTENSION.length))
+    : [];
+  const fixtures = [...new Set([...results.keys(), ...expectedFixtures])]
+    .filter((fixture) => args.fixtures.length === 0 || args.fixtures.includes(fixture))
+    .sort();
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    const goldenPath = path.join(EXPECTED_DIR, `${fixture}${GOLDEN_EXTENSION}`);
+    const sections = results.get(fixture);
+
+    if (args.update) {
+      if (sections) {
+        fs.mkdirSync(EXPECTED_DIR, { recursive: true });
+        fs.writeFileSync(goldenPath, formatGolden(fixture, sections));
+        console.log(`updated ${fixture}`);
+      } else {
+        fs.rmSync(goldenPath);
+        console.log(`removed ${fixture} (no Writerly files left)`);
+      }
+      continue;
+    }
+
+    if (!sections) {
+      failures++;
+      console.log(`FAIL ${fixture}: expected output exists but the fixture has no Writerly files`);
+      continue;
+    }
+    if (!fs.existsSync(goldenPath)) {
+      failures++;
+      console.log(`FAIL ${fixture}: no expected output; run with --update to create it`);
+      continue;
+    }
+
+    const expected = fs.readFileSync(goldenPath, "utf8");
+    const actual = formatGolden(fixture, sections);
+    if (expected === actual) {
+      console.log(`ok   ${fixture}`);
+    } else {
+      failures++;
+      console.log(`FAIL ${fixture}`);
+      console.log(describeDifference(expected, actual).join("\n"));
+    }
+  }
+
+  if (!args.update) {
+    console.log(
+      `\n${fixtures.length - failures} passed, ${failures} failed`,
+    );
+  }
+  process.exitCode = failures > 0 ? 1 : 0;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,366 @@
+#!/usr/bin/env node
+"use strict";
+
+/*
+ * Drives the Writerly language server over JSON-RPC on stdio, the way an
+ * editor would, against one of the fixture trees in this directory's parent.
+ *
+ *   npm run compile
+ *   node test/lsp/drive-server.js <workspace-dir> [--json] [request...]
+ *
+ * Every .wly file below <workspace-dir> is opened; once the server has gone
+ * quiet the published diagnostics are printed, followed by the answer to each
+ * request. A request names an LSP method (or the server's custom
+ * writerly/handleUsages request) and a 1-based position:
+ *
+ *   definition@disambiguation/aaa.wly:3:12
+ *   rename:newName@disambiguation/aaa.wly:3:12
+ *
+ * Short method names: definition, prepareRename, rename, completion,
+ * documentLink, codeAction, references, codeLens, hover, documentSymbol,
+ * workspaceSymbol, handleUsages, handleDefinitionTargets, handleGraph,
+ * unusedHandles. The argument of references:declaration includes
+ * definitions; workspaceSymbol takes the query and ignores the position;
+ * handleDefinitionTargets takes the handle name; unusedHandles:workspace
+ * lists the whole workspace instead of the file's document tree. Code
+ * actions and code lenses the server resolves lazily are resolved before
+ * printing.
+ * Paths are relative to the workspace directory.
+ */
+
+const { spawn } = require("child_process");
+const fs = require("fs");
+const path = require("path");
+const { pathToFileURL, fileURLToPath } = require("url");
+
+const SERVER_MODULE = path.join(__dirname, "..", "..", "out", "server", "server.js");
+const QUIET_PERIOD_MS = 2500;
+const TIMEOUT_MS = 30000;
+const SKIPPED_DIRECTORY_NAMES = new Set(["node_modules", "dist", "build"]);
+const SEVERITY_NAMES = { 1: "error", 2: "warning", 3: "info", 4: "hint" };
+const METHOD_NAMES = {
+  definition: "textDocument/definition",
+  prepareRename: "textDocument/prepareRename",
+  rename: "textDocument/rename",
+  completion: "textDocument/completion",
+  documentLink: "textDocument/documentLink",
+  codeAction: "textDocument/codeAction",
+  references: "textDocument/references",
+  codeLens: "textDocument/codeLens",
+  hover: "textDocument/hover",
+  documentSymbol: "textDocument/documentSymbol",
+  workspaceSymbol: "workspace/symbol",
+  handleUsages: "writerly/handleUsages",
+  handleDefinitionTargets: "writerly/handleDefinitionTargets",
+  handleGraph: "writerly/handleGraph",
+  unusedHandles: "writerly/unusedHandles",
+};
+
+class JsonRpcConnection {
+  constructor(child, onRequest, onNotification) {
+    this.child = child;
+    this.onRequest = onRequest;
+    this.onNotification = onNotification;
+    this.nextId = 1;
+    this.pending = new Map();
+    this.buffer = Buffer.alloc(0);
+    child.stdout.on("data", (chunk) => this.receive(chunk));
+  }
+
+  request(method, params) {
+    const id = this.nextId++;
+    this.send({ jsonrpc: "2.0", id, method, params });
+    return new Promise((resolve, reject) =>
+      this.pending.set(id, { resolve, reject }),
+    );
+  }
+
+  notify(method, params) {
+    this.send({ jsonrpc: "2.0", method, params });
+  }
+
+  send(message) {
+    const body = Buffer.from(JSON.stringify(message), "utf8");
+    this.child.stdin.write(`Content-Length: ${body.length}\r\n\r\n`);
+    this.child.stdin.write(body);
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    while (true) {
+      const headerEnd = this.buffer.indexOf("\r\n\r\n");
+      if (headerEnd < 0) return;
+
+      const header = this.buffer.subarray(0, headerEnd).toString("ascii");
+      const length = Number(/Content-Length: (\d+)/i.exec(header)?.[1]);
+      const bodyStart = headerEnd + 4;
+      if (this.buffer.length < bodyStart + length) return;
+
+      const body = this.buffer.subarray(bodyStart, bodyStart + length);
+      this.buffer = this.buffer.subarray(bodyStart + length);
+      this.dispatch(JSON.parse(body.toString("utf8")));
+    }
+  }
+
+  dispatch(message) {
+    if (message.id !== undefined && message.method) {
+      const result = this.onRequest(message.method, message.params);
+      this.send({ jsonrpc: "2.0", id: message.id, result });
+    } else if (message.id !== undefined) {
+      const pending = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      if (!pending) return;
+      if (message.error) pending.reject(new Error(message.error.message));
+      else pending.resolve(message.result);
+    } else {
+      this.onNotification(message.method, message.params);
+    }
+  }
+}
+
+function parseArguments(argv) {
+  const args = { workspaceDir: undefined, json: false, requests: [] };
+  for (const arg of argv) {
+    if (arg === "--json") args.json = true;
+    else if (!args.workspaceDir) args.workspaceDir = path.resolve(arg);
+    else args.requests.push(parseRequest(arg));
+  }
+  if (!args.workspaceDir) {
+    console.error(
+      "usage: drive-server.js <workspace-dir> [--json] [method@file:line:col ...]",
+    );
+    process.exit(2);
+  }
+  return args;
+}
+
+function parseRequest(spec) {
+  const match = /^([A-Za-z/]+)(?::([^@]*))?@(.+):(\d+):(\d+)$/.exec(spec);
+  if (!match) {
+    console.error(`Cannot parse request '${spec}'.`);
+    process.exit(2);
+  }
+  const [, name, argument, file, line, character] = match;
+  return {
+    spec,
+    method: METHOD_NAMES[name] ?? name,
+    argument,
+    file,
+    position: { line: Number(line) - 1, character: Number(character) - 1 },
+  };
+}
+
+function findWriterlyFiles(dirPath) {
+  const files = [];
+  for (const entry of fs.readdirSync(dirPath, { withFileTypes: true })) {
+    if (entry.name.startsWith(".")) continue;
+    const childPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORY_NAMES.has(entry.name)) {
+        files.push(...findWriterlyFiles(childPath));
+      }
+    } else if (entry.name.endsWith(".wly")) {
+      files.push(childPath);
+    }
+  }
+  return files.sort();
+}
+
+function toUri(fsPath) {
+  return pathToFileURL(fsPath).toString();
+}
+
+function requestParams(request, uri, diagnostics) {
+  const textDocument = { uri };
+  const position = request.position;
+  switch (request.method) {
+    case "textDocument/rename":
+      return { textDocument, position, newName: request.argument ?? "" };
+    case "textDocument/documentLink":
+    case "textDocument/codeLens":
+    case "textDocument/documentSymbol":
+    case "writerly/handleGraph":
+      return { textDocument };
+    case "textDocument/references":
+      return {
+        textDocument,
+        position,
+        context: { includeDeclaration: request.argument === "declaration" },
+      };
+    case "workspace/symbol":
+      return { query: request.argument ?? "" };
+    case "writerly/unusedHandles":
+      return request.argument === "workspace" ? {} : { textDocument };
+    case "writerly/handleDefinitionTargets":
+      return { textDocument, position, handleName: request.argument ?? "" };
+    case "textDocument/codeAction":
+      return {
+        textDocument,
+        range: { start: position, end: position },
+        context: {
+          diagnostics: (diagnostics.get(uri) ?? []).filter(
+            (diagnostic) => diagnostic.range.start.line === position.line,
+          ),
+        },
+      };
+    default:
+      return { textDocument, position };
+  }
+}
+
+function relativize(value, workspaceDir) {
+  return JSON.parse(
+    JSON.stringify(value, (_key, item) =>
+      typeof item === "string" && item.startsWith("file://")
+        ? path.relative(workspaceDir, fileURLToPath(item.split("#")[0])) +
+          (item.includes("#") ? `#${item.split("#")[1]}` : "")
+        : item,
+    ),
+  );
+}
+
+async function main() {
+  const args = parseArguments(process.argv.slice(2));
+  const workspaceDir = args.workspaceDir;
+  const diagnostics = new Map();
+  const messages = [];
+  let lastActivity = Date.now();
+
+  const child = spawn(process.execPath, [SERVER_MODULE, "--stdio"], {
+    stdio: ["pipe", "pipe", "inherit"],
+  });
+  const timeout = setTimeout(() => {
+    console.error(`No answer from the server within ${TIMEOUT_MS}ms.`);
+    child.kill();
+    process.exit(1);
+  }, TIMEOUT_MS);
+
+  const connection = new JsonRpcConnection(
+    child,
+    (method, params) => {
+      lastActivity = Date.now();
+      if (method === "workspace/configuration") {
+        return params.items.map(() => null);
+      }
+      if (method === "workspace/workspaceFolders") {
+        return [{ uri: toUri(workspaceDir), name: path.basename(workspaceDir) }];
+      }
+      return null;
+    },
+    (method, params) => {
+      lastActivity = Date.now();
+      if (method === "textDocument/publishDiagnostics") {
+        diagnostics.set(params.uri, params.diagnostics);
+      } else if (method === "window/showMessage") {
+        messages.push(params.message);
+      }
+    },
+  );
+
+  await connection.request("initialize", {
+    processId: process.pid,
+    rootUri: toUri(workspaceDir),
+    workspaceFolders: [
+      { uri: toUri(workspaceDir), name: path.basename(workspaceDir) },
+    ],
+    capabilities: {
+      workspace: {
+        configuration: true,
+        workspaceFolders: true,
+        workspaceEdit: { documentChanges: true, changeAnnotationSupport: {} },
+      },
+    },
+  });
+  connection.notify("initialized", {});
+
+  for (const fsPath of findWriterlyFiles(workspaceDir)) {
+    connection.notify("textDocument/didOpen", {
+      textDocument: {
+        uri: toUri(fsPath),
+        languageId: "writerly",
+        version: 1,
+        text: fs.readFileSync(fsPath, "utf8"),
+      },
+    });
+  }
+
+  lastActivity = Date.now();
+  while (Date.now() - lastActivity < QUIET_PERIOD_MS) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+
+  const results = [];
+  for (const request of args.requests) {
+    const uri = toUri(path.join(workspaceDir, request.file));
+    try {
+      let result = await connection.request(
+        request.method,
+        requestParams(request, uri, diagnostics),
+      );
+      if (request.method === "textDocument/codeAction" && result) {
+        result = await Promise.all(
+          result.map((action) =>
+            action.data !== undefined && !action.edit
+              ? connection.request("codeAction/resolve", action)
+              : action,
+          ),
+        );
+      }
+      if (request.method === "textDocument/codeLens" && result) {
+        result = await Promise.all(
+          result.map((codeLens) =>
+            codeLens.command
+              ? codeLens
+              : connection.request("codeLens/resolve", codeLens),
+          ),
+        );
+      }
+      results.push({ request: request.spec, result });
+    } catch (error) {
+      results.push({ request: request.spec, error: error.message });
+    }
+  }
+
+  await connection.request("shutdown", null);
+  connection.notify("exit", null);
+  clearTimeout(timeout);
+
+  const diagnosticsByFile = {};
+  for (const uri of [...diagnostics.keys()].sort()) {
+    const fileDiagnostics = diagnostics.get(uri);
+    if (fileDiagnostics.length === 0) continue;
+    diagnosticsByFile[path.relative(workspaceDir, fileURLToPath(uri))] =
+      fileDiagnostics;
+  }
+  const output = relativize(
+    { diagnostics: diagnosticsByFile, messages, results },
+    workspaceDir,
+  );
+
+  if (args.json) {
+    console.log(JSON.stringify(output, null, 2));
+    return;
+  }
+
+  for (const [file, fileDiagnostics] of Object.entries(output.diagnostics)) {
+    for (const diagnostic of fileDiagnostics) {
+      const { line, character } = diagnostic.range.start;
+      console.log(
+        `${file}:${line + 1}:${character + 1} ${
+          SEVERITY_NAMES[diagnostic.severity] ?? "error"
+        } ${diagnostic.message.replace(/\s*\n\s*/g, " ")}`,
+      );
+    }
+  }
+  for (const message of output.messages) {
+    console.log(`message: ${message}`);
+  }
+  for (const { request, result, error } of output.results) {
+    console.log(`${request} => ${error ?? JSON.stringify(result)}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});